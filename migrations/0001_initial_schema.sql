@@ -1,27 +0,0 @@
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  name TEXT NOT NULL,
-  email TEXT UNIQUE NOT NULL,
-  password_hash TEXT NOT NULL,
-  role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('member', 'admin')),
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-);
-
--- Selections table: stores which step each user selected for each viewpoint
-CREATE TABLE IF NOT EXISTS selections (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  user_id INTEGER NOT NULL,
-  viewpoint TEXT NOT NULL,
-  step INTEGER NOT NULL CHECK(step BETWEEN 1 AND 4),
-  memo TEXT DEFAULT '',
-  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-  UNIQUE(user_id, viewpoint)
-);
-
--- Indexes
-CREATE INDEX IF NOT EXISTS idx_selections_user_id ON selections(user_id);
-CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
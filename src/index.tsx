@@ -1,12 +1,33 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie'
 
 type Bindings = {
   DB: D1Database
+  // Outgoing mail: JSON POST endpoint of the mail provider. Required unless MAIL_CONSOLE is set.
+  MAIL_API_URL?: string
+  MAIL_API_KEY?: string
+  MAIL_FROM?: string
+  // Local development only: print mail to the worker log instead of sending it
+  MAIL_CONSOLE?: string
+  // Public origin used in links sent by mail (defaults to the request origin)
+  APP_ORIGIN?: string
+  // Required for first-run setup (/setup) and for deploy-time POST /api/init
+  SETUP_TOKEN?: string
+  // Session lifetime: idle timeout in hours, absolute maximum in days
+  SESSION_IDLE_HOURS?: string
+  SESSION_MAX_DAYS?: string
+  // Days a removed member or event stays restorable before it is purged
+  TRASH_RETENTION_DAYS?: string
 }
 
 type Variables = {
-  user: { id: number; name: string; email: string; school: string; role: string }
+  // role is the role in the current organization (org_id); system_admin comes from users.role
+  user: {
+    id: number; name: string; email: string; school: string; role: string; must_change_password: number
+    org_id: number | null; org_name: string; status: MembershipStatus; system_admin: boolean; permissions: Permission[]
+  }
+  sessionToken: string
 }
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>()
@@ -14,12 +35,64 @@ const app = new Hono<{ Bindings: Bindings; Variables: Variables }>()
 app.use('/api/*', cors())
 
 // ========== Utility ==========
+// Stored as 'pbkdf2-sha256$<iterations>$<salt b64>$<hash b64>'.
+// 100,000 is the highest PBKDF2 iteration count Workers' Web Crypto accepts.
+const PBKDF2_ITERATIONS = 100000
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = ''
+  for (const b of bytes) bin += String.fromCharCode(b)
+  return btoa(bin)
+}
+
+function fromBase64(s: string): Uint8Array {
+  const bin = atob(s)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
 async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(password + '_shakaika_salt_2026')
+  const salt = new Uint8Array(16)
+  crypto.getRandomValues(salt)
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS)
+  return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`
+}
+
+// Pre-PBKDF2 scheme: one SHA-256 pass with a fixed salt, kept only to verify old hashes
+async function legacyHashPassword(password: string): Promise<string> {
+  const data = new TextEncoder().encode(password + '_shakaika_salt_2026')
   const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function verifyPassword(password: string, stored: string): Promise<{ ok: boolean; needsRehash: boolean }> {
+  const parts = (stored || '').split('$')
+  if (parts[0] === 'pbkdf2-sha256' && parts.length === 4) {
+    const iterations = parseInt(parts[1])
+    if (!Number.isFinite(iterations) || iterations <= 0) return { ok: false, needsRehash: false }
+    const hash = await pbkdf2(password, fromBase64(parts[2]), iterations)
+    const ok = timingSafeEqual(toBase64(hash), parts[3])
+    return { ok, needsRehash: ok && iterations < PBKDF2_ITERATIONS }
+  }
+  if (/^[0-9a-f]{64}$/.test(stored || '')) {
+    const ok = timingSafeEqual(await legacyHashPassword(password), stored)
+    return { ok, needsRehash: ok }
+  }
+  return { ok: false, needsRehash: false }
 }
 
 function generateToken(): string {
@@ -28,1671 +101,6806 @@ function generateToken(): string {
   return Array.from(arr).map(b => b.toString(16).padStart(2, '0')).join('')
 }
 
-// Token store using D1 for production persistence
-async function setToken(db: D1Database, token: string, userId: number) {
-  const expires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ========== Mail ==========
+type MailMessage = { to: string; subject: string; text: string }
+
+interface MailSender {
+  send(message: MailMessage): Promise<void>
+}
+
+// Local/dev stub (MAIL_CONSOLE): prints the message (including any reset link) to the worker log
+const consoleMailSender: MailSender = {
+  async send(message) {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`)
+  }
+}
+
+function httpMailSender(url: string, apiKey: string | undefined, from: string): MailSender {
+  return {
+    async send(message) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text })
+      })
+      if (!res.ok) throw new Error(`mail send failed: ${res.status}`)
+    }
+  }
+}
+
+// Set only by the tests (test/helpers.ts); nothing in the env can reach it
+let testMailSender: MailSender | null = null
+
+export function setTestMailSender(sender: MailSender | null) {
+  testMailSender = sender
+}
+
+function mailConfigured(env: Bindings): boolean {
+  return !!(testMailSender || env.MAIL_API_URL || env.MAIL_CONSOLE)
+}
+
+// A deployment without a mail provider must not look as if reset links and invitations went out
+function getMailSender(env: Bindings): MailSender {
+  if (testMailSender) return testMailSender
+  if (env.MAIL_API_URL) return httpMailSender(env.MAIL_API_URL, env.MAIL_API_KEY, env.MAIL_FROM || 'noreply@example.com')
+  if (env.MAIL_CONSOLE) return consoleMailSender
+  throw new Error('MAIL_API_URL is not set (set MAIL_CONSOLE=1 to log mail in local development)')
+}
+
+function appOrigin(c: any): string {
+  return c.env.APP_ORIGIN || new URL(c.req.url).origin
+}
+
+// ========== Password Reset Tokens ==========
+// Only the SHA-256 of a reset token is stored, so a DB dump cannot be used to reset passwords
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000
+
+// Links handed out by an admin live longer, since they are often passed on in person
+const ADMIN_RESET_TOKEN_TTL_MS = 72 * 60 * 60 * 1000
+
+async function createPasswordResetToken(db: D1Database, userId: number, ttlMs: number = RESET_TOKEN_TTL_MS): Promise<string> {
+  const token = generateToken()
+  const expires = new Date(Date.now() + ttlMs).toISOString()
   await db.prepare(
-    'INSERT OR REPLACE INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)'
-  ).bind(token, userId, expires).run()
+    "INSERT INTO password_resets (user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, datetime('now'))"
+  ).bind(userId, await sha256Hex(token), expires).run()
+  return token
 }
 
-async function getUserIdFromToken(db: D1Database, token: string): Promise<number | null> {
+// Returns the user id when the token is valid, unused and unexpired
+async function findPasswordResetUser(db: D1Database, token: string): Promise<number | null> {
   const row = await db.prepare(
-    'SELECT user_id, expires_at FROM sessions WHERE token = ?'
-  ).bind(token).first() as any
-  if (!row) return null
-  if (new Date(row.expires_at) < new Date()) {
-    await db.prepare('DELETE FROM sessions WHERE token = ?').bind(token).run()
-    return null
-  }
+    'SELECT user_id, expires_at, used_at FROM password_resets WHERE token_hash = ?'
+  ).bind(await sha256Hex(token)).first() as any
+  if (!row || row.used_at) return null
+  if (new Date(row.expires_at) < new Date()) return null
   return row.user_id
 }
 
-// ========== Auth Middleware ==========
-async function authMiddleware(c: any, next: any) {
-  const authHeader = c.req.header('Authorization')
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return c.json({ error: 'ログインが必要です' }, 401)
+// Readable one-off password for admins to hand over in person (no 0/O, 1/I/l)
+function generateTemporaryPassword(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789'
+  const arr = new Uint8Array(10)
+  crypto.getRandomValues(arr)
+  let out = ''
+  for (let i = 0; i < arr.length; i++) out += chars[arr[i] % chars.length]
+  return out
+}
+
+// Token store using D1 for production persistence.
+// Each session also gets a short public id so it can be listed and revoked without exposing the token.
+type SessionMeta = { userAgent: string; ip: string }
+
+function sessionMeta(c: any): SessionMeta {
+  return {
+    userAgent: (c.req.header('User-Agent') || '').slice(0, 300),
+    ip: c.req.header('CF-Connecting-IP') || ''
   }
-  const token = authHeader.replace('Bearer ', '')
-  const userId = await getUserIdFromToken(c.env.DB, token)
-  if (!userId) {
-    return c.json({ error: 'セッションが無効です。再ログインしてください' }, 401)
+}
+
+// Sliding expiration: every use pushes expires_at out by the idle timeout,
+// but never past created_at + the absolute maximum lifetime.
+type SessionPolicy = { idleMs: number; maxMs: number }
+
+const DEFAULT_SESSION_IDLE_HOURS = 14 * 24
+const DEFAULT_SESSION_MAX_DAYS = 90
+
+function sessionPolicy(env: Bindings): SessionPolicy {
+  const idleHours = parseFloat(env.SESSION_IDLE_HOURS || '')
+  const maxDays = parseFloat(env.SESSION_MAX_DAYS || '')
+  return {
+    idleMs: (idleHours > 0 ? idleHours : DEFAULT_SESSION_IDLE_HOURS) * 60 * 60 * 1000,
+    maxMs: (maxDays > 0 ? maxDays : DEFAULT_SESSION_MAX_DAYS) * 24 * 60 * 60 * 1000
   }
-  const user = await c.env.DB.prepare('SELECT id, name, email, school, role FROM users WHERE id = ?').bind(userId).first()
-  if (!user) {
-    return c.json({ error: 'ユーザーが見つかりません' }, 401)
+}
+
+function sessionExpiry(createdAt: string | null, policy: SessionPolicy): string {
+  const idle = Date.now() + policy.idleMs
+  const created = createdAt ? new Date(createdAt).getTime() : NaN
+  if (isNaN(created)) return new Date(idle).toISOString()
+  return new Date(Math.min(idle, created + policy.maxMs)).toISOString()
+}
+
+async function setToken(db: D1Database, token: string, userId: number, policy: SessionPolicy, meta?: SessionMeta): Promise<string> {
+  const now = new Date().toISOString()
+  const expires = sessionExpiry(now, policy)
+  await db.prepare(
+    'INSERT OR REPLACE INTO sessions (token, id, user_id, expires_at, created_at, last_seen_at, user_agent, ip) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(token, generateToken().slice(0, 16), userId, expires, now, now, meta?.userAgent || '', meta?.ip || '').run()
+  return expires
+}
+
+// last_seen_at/expires_at are only rewritten when this stale, to avoid a write on every request
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+async function getSessionFromToken(db: D1Database, token: string, policy: SessionPolicy): Promise<{ userId: number; orgId: number | null } | null> {
+  // SELECT * so sessions without org_id (before the organizations migration) still resolve
+  const row = await db.prepare('SELECT * FROM sessions WHERE token = ?').bind(token).first() as any
+  if (!row) return null
+  const now = Date.now()
+  const tooOld = row.created_at && now - new Date(row.created_at).getTime() > policy.maxMs
+  if (new Date(row.expires_at).getTime() < now || tooOld) {
+    await db.prepare('DELETE FROM sessions WHERE token = ?').bind(token).run()
+    return null
   }
-  c.set('user', user)
-  await next()
+  if (!row.last_seen_at || now - new Date(row.last_seen_at).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await db.prepare('UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE token = ?')
+      .bind(new Date(now).toISOString(), sessionExpiry(row.created_at, policy), token).run()
+  }
+  return { userId: row.user_id, orgId: row.org_id ?? null }
 }
 
-async function adminMiddleware(c: any, next: any) {
-  const user = c.get('user')
-  if (user.role !== 'admin') {
-    return c.json({ error: '管理者権限が必要です' }, 403)
+// Extend a session by a full idle period right away (still capped by the absolute limit).
+// The token itself is kept so other open tabs sharing localStorage stay logged in.
+async function renewSession(db: D1Database, token: string, policy: SessionPolicy): Promise<string | null> {
+  const row = await db.prepare('SELECT created_at FROM sessions WHERE token = ?').bind(token).first() as any
+  if (!row) return null
+  const expires = sessionExpiry(row.created_at, policy)
+  await db.prepare('UPDATE sessions SET expires_at = ?, last_seen_at = ? WHERE token = ?')
+    .bind(expires, new Date().toISOString(), token).run()
+  return expires
+}
+
+// Log a user out everywhere (optionally keeping the session making the request)
+async function revokeSessions(db: D1Database, userId: number, exceptToken?: string) {
+  if (exceptToken) {
+    await db.prepare('DELETE FROM sessions WHERE user_id = ? AND token != ?').bind(userId, exceptToken).run()
+  } else {
+    await db.prepare('DELETE FROM sessions WHERE user_id = ?').bind(userId).run()
   }
-  await next()
 }
 
-// ========== DB Init ==========
-app.get('/api/init', async (c) => {
-  const db = c.env.DB
-  await db.prepare(`CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL,
-    email TEXT UNIQUE NOT NULL,
-    school TEXT NOT NULL DEFAULT '',
-    password_hash TEXT NOT NULL,
-    role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('member', 'admin')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )`).run()
+// ========== Login Throttling ==========
+// Failed logins are counted per email and per IP. Past the free attempts each further
+// failure locks the key for twice as long as the previous one, up to LOGIN_LOCK_MAX_MS.
+// Password reset requests are counted the same way under their own scopes, so asking for
+// reset mails never locks the login (and a locked-out member can still ask for one).
+type ThrottleScope = 'email' | 'ip' | 'reset_email' | 'reset_ip'
+
+const LOGIN_FREE_ATTEMPTS: Record<ThrottleScope, number> = { email: 5, ip: 20, reset_email: 3, reset_ip: 10 }
+const LOGIN_LOCK_BASE_MS = 60 * 1000
+const LOGIN_LOCK_MAX_MS = 60 * 60 * 1000
+// Counters reset after this long without a failure
+const LOGIN_FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+async function loginLockRemaining(db: D1Database, scope: ThrottleScope, key: string): Promise<number> {
+  if (!key) return 0
+  const row = await db.prepare('SELECT locked_until FROM login_throttle WHERE scope = ? AND key = ?').bind(scope, key).first() as any
+  if (!row?.locked_until) return 0
+  return Math.max(0, new Date(row.locked_until).getTime() - Date.now())
+}
 
-  // Add 'school' column if missing (for existing DBs)
-  try {
-    const { results: cols } = (await db.prepare("PRAGMA table_info(users)").all()) as any
-    const hasSchool = Array.isArray(cols) && cols.some((c: any) => c.name === 'school')
-    if (!hasSchool) {
-      await db.prepare("ALTER TABLE users ADD COLUMN school TEXT NOT NULL DEFAULT ''").run()
-    }
-  } catch (e) {
-    // ignore
-  }
-
-  await db.prepare(`CREATE TABLE IF NOT EXISTS selections (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    viewpoint TEXT NOT NULL,
-    step INTEGER NOT NULL CHECK(step BETWEEN 1 AND 4),
-    memo TEXT DEFAULT '',
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-    UNIQUE(user_id, viewpoint)
-  )`).run()
+async function recordLoginFailure(db: D1Database, scope: ThrottleScope, key: string) {
+  if (!key) return
+  const row = await db.prepare('SELECT failures, last_failed_at FROM login_throttle WHERE scope = ? AND key = ?').bind(scope, key).first() as any
+  const now = Date.now()
+  const stale = !row || !row.last_failed_at || now - new Date(row.last_failed_at).getTime() > LOGIN_FAILURE_WINDOW_MS
+  const failures = (stale ? 0 : row.failures) + 1
+  const over = failures - LOGIN_FREE_ATTEMPTS[scope]
+  const lockedUntil = over > 0
+    ? new Date(now + Math.min(LOGIN_LOCK_BASE_MS * 2 ** (over - 1), LOGIN_LOCK_MAX_MS)).toISOString()
+    : null
+  await db.prepare(
+    'INSERT OR REPLACE INTO login_throttle (scope, key, failures, last_failed_at, locked_until) VALUES (?, ?, ?, ?, ?)'
+  ).bind(scope, key, failures, new Date(now).toISOString(), lockedUntil).run()
+}
 
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_selections_user_id ON selections(user_id)').run()
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)').run()
+async function clearLoginFailures(db: D1Database, scope: ThrottleScope, key: string) {
+  await db.prepare('DELETE FROM login_throttle WHERE scope = ? AND key = ?').bind(scope, key).run()
+}
 
-  // Event tables
-  await db.prepare(`CREATE TABLE IF NOT EXISTS events (
-    id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, description TEXT DEFAULT '',
-    event_date TEXT NOT NULL, event_code TEXT UNIQUE NOT NULL, is_active INTEGER DEFAULT 1,
-    created_by INTEGER NOT NULL, created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (created_by) REFERENCES users(id)
-  )`).run()
-  await db.prepare(`CREATE TABLE IF NOT EXISTS attendances (
-    id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
-    attended_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, UNIQUE(event_id, user_id)
-  )`).run()
-  await db.prepare(`CREATE TABLE IF NOT EXISTS survey_questions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, question_text TEXT NOT NULL,
-    question_type TEXT NOT NULL CHECK(question_type IN ('text','radio','rating')),
-    options TEXT DEFAULT '', sort_order INTEGER DEFAULT 0,
-    FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE
-  )`).run()
-  await db.prepare(`CREATE TABLE IF NOT EXISTS survey_answers (
-    id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
-    satisfaction INTEGER CHECK(satisfaction BETWEEN 1 AND 5), comment TEXT DEFAULT '',
-    answered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, UNIQUE(event_id, user_id)
-  )`).run()
-  await db.prepare(`CREATE TABLE IF NOT EXISTS custom_answers (
-    id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
-    question_id INTEGER NOT NULL, answer_text TEXT DEFAULT '',
-    FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-    FOREIGN KEY (question_id) REFERENCES survey_questions(id) ON DELETE CASCADE,
-    UNIQUE(event_id, user_id, question_id)
-  )`).run()
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_attendances_event ON attendances(event_id)').run()
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_events_code ON events(event_code)').run()
-
-  // Sessions table for persistent auth tokens
-  await db.prepare(`CREATE TABLE IF NOT EXISTS sessions (
-    token TEXT PRIMARY KEY,
-    user_id INTEGER NOT NULL,
-    expires_at TEXT NOT NULL,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-  )`).run()
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)').run()
-  // Clean up expired sessions
-  await db.prepare("DELETE FROM sessions WHERE expires_at < datetime('now')").run()
-
-
-  // Annual notes (goal/reflection) per fiscal year
-  await db.prepare(`CREATE TABLE IF NOT EXISTS annual_notes (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    fiscal_year INTEGER NOT NULL,
-    goal TEXT DEFAULT '',
-    reflection TEXT DEFAULT '',
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-    UNIQUE(user_id, fiscal_year)
-  )`).run()
-  await db.prepare('CREATE INDEX IF NOT EXISTS idx_annual_notes_user_year ON annual_notes(user_id, fiscal_year)').run()
+function normalizeEmail(email: unknown): string {
+  return (email ?? '').toString().trim().toLowerCase()
+}
 
-  // Create default admin if not exists
-  const adminHash = await hashPassword('admin123')
-  await db.prepare(
-    'INSERT OR IGNORE INTO users (name, email, school, password_hash, role) VALUES (?, ?, ?, ?, ?)'
-  ).bind('管理者', 'admin@example.com', '（管理者）', adminHash, 'admin').run()
+// ========== Session Cookies ==========
+// Browser pages keep the session token in an HttpOnly cookie so page scripts never see it.
+// Unsafe requests must echo the readable CSRF cookie in a header (double-submit).
+const SESSION_COOKIE = 'sid'
+const CSRF_COOKIE = 'csrf_token'
+const CSRF_HEADER = 'X-CSRF-Token'
+
+function setSessionCookies(c: any, token: string) {
+  const secure = new URL(c.req.url).protocol === 'https:'
+  const maxAge = Math.floor(sessionPolicy(c.env).maxMs / 1000)
+  setCookie(c, SESSION_COOKIE, token, { path: '/', httpOnly: true, secure, sameSite: 'Lax', maxAge })
+  setCookie(c, CSRF_COOKIE, generateToken().slice(0, 32), { path: '/', secure, sameSite: 'Lax', maxAge })
+}
 
-  return c.json({ message: 'データベースを初期化しました' })
-})
+function clearSessionCookies(c: any) {
+  deleteCookie(c, SESSION_COOKIE, { path: '/' })
+  deleteCookie(c, CSRF_COOKIE, { path: '/' })
+}
 
-// ========== Auth API ==========
-app.post('/api/auth/register', async (c) => {
-  const { name, school, email, password } = await c.req.json()
-  if (!name || !school || !email || !password) {
-    return c.json({ error: '名前・学校名・メールアドレス・パスワードは必須です' }, 400)
-  }
-  if (password.length < 4) {
-    return c.json({ error: 'パスワードは4文字以上にしてください' }, 400)
+function bearerToken(c: any): string | null {
+  const authHeader = c.req.header('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null
+  return authHeader.replace('Bearer ', '')
+}
+
+// The membership a request acts under: the session's chosen organization if the user still
+// belongs to it, otherwise their oldest approved membership (or a pending one if that is all
+// they have). Null when the user has none or the organizations migration has not run yet.
+async function resolveMembership(db: D1Database, userId: number, orgId: number | null) {
+  try {
+    return await findMembership(db, userId, orgId)
+  } catch (e) {
+    return null
   }
-  const existing = await c.env.DB.prepare('SELECT id FROM users WHERE email = ?').bind(email).first()
-  if (existing) {
-    return c.json({ error: 'このメールアドレスは既に登録されています' }, 400)
+}
+
+async function findMembership(db: D1Database, userId: number, orgId: number | null) {
+  // m.* rather than m.deleted_at so this still works before the soft_delete migration
+  const { results } = await db.prepare(
+    'SELECT m.*, o.name as org_name FROM memberships m JOIN organizations o ON o.id = m.org_id WHERE m.user_id = ? ORDER BY m.id'
+  ).bind(userId).all() as any
+  const active = (results || []).filter((m: any) => !m.deleted_at)
+  return active.find((m: any) => m.org_id === orgId) || active.find((m: any) => m.status !== 'pending') || active[0] || null
+}
+
+async function effectiveRole(db: D1Database, membership: any, accountRole: string): Promise<string> {
+  // Nothing beyond the waiting page until a club admin approves the registration
+  if (membership?.status === 'pending') return 'member'
+  if (membership) return membership.role
+  // Before the organizations migration the account-wide role still applies, so an admin can run it
+  return accountRole === 'admin' && !(await defaultOrgId(db)) ? 'admin' : 'member'
+}
+
+async function loadSessionUser(c: any, token: string) {
+  const session = await getSessionFromToken(c.env.DB, token, sessionPolicy(c.env))
+  if (!session) return null
+  const row = await c.env.DB.prepare('SELECT id, name, email, school, role, must_change_password FROM users WHERE id = ?').bind(session.userId).first() as any
+  if (!row) return null
+  const membership = await resolveMembership(c.env.DB, row.id, session.orgId)
+  // Removed from every club: the account is suspended until a club restores it
+  if (!membership && await defaultOrgId(c.env.DB)) return null
+  const role = await effectiveRole(c.env.DB, membership, row.role)
+  return {
+    ...row,
+    role,
+    org_id: membership?.org_id ?? null,
+    org_name: membership?.org_name || '',
+    status: membershipStatus(membership),
+    system_admin: row.role === 'admin',
+    permissions: rolePermissions(role)
   }
-  const passwordHash = await hashPassword(password)
-  const result = await c.env.DB.prepare(
-    'INSERT INTO users (name, email, school, password_hash, role) VALUES (?, ?, ?, ?, ?)'
-  ).bind(name, email, school, passwordHash, 'member').run()
+}
 
-  const userId = result.meta.last_row_id as number
-  const token = generateToken()
-  await setToken(c.env.DB, token, userId)
+// Clubs with require_approval put self-registered members in 'pending' until an admin approves
+type MembershipStatus = 'active' | 'pending'
 
-  return c.json({ token, user: { id: userId, name, school, email, role: 'member' } })
-})
+function membershipStatus(membership: any): MembershipStatus {
+  return membership?.status === 'pending' ? 'pending' : 'active'
+}
 
-app.post('/api/auth/login', async (c) => {
-  const { email, password } = await c.req.json()
-  if (!email || !password) {
-    return c.json({ error: 'メールアドレスとパスワードを入力してください' }, 400)
+async function defaultOrgId(db: D1Database): Promise<number | null> {
+  try {
+    const org = await db.prepare('SELECT id FROM organizations ORDER BY id LIMIT 1').first() as any
+    return org?.id ?? null
+  } catch (e) {
+    return null // schema not initialised yet
   }
-  const passwordHash = await hashPassword(password)
-  const user = await c.env.DB.prepare(
-    'SELECT id, name, email, school, role FROM users WHERE email = ? AND password_hash = ?'
-  ).bind(email, passwordHash).first()
+}
+
+// Organization for endpoints that also serve anonymous visitors: the caller's club when signed in
+async function requestOrgId(c: any): Promise<number | null> {
+  const token = bearerToken(c) || getCookie(c, SESSION_COOKIE)
+  const user = token ? await loadSessionUser(c, token).catch(() => null) : null
+  return user?.org_id ?? await defaultOrgId(c.env.DB)
+}
+
+// ========== Auth Middleware ==========
+const PASSWORD_CHANGE_ALLOWED_PATHS = ['/api/auth/me', '/api/auth/refresh', '/api/auth/cookie', '/api/me/password']
+// What a member awaiting approval may still do: look after their own account and switch clubs
+const PENDING_ALLOWED_PATHS = [
+  ...PASSWORD_CHANGE_ALLOWED_PATHS, '/api/me/profile', '/api/me/sessions', '/api/me/organizations', '/api/me/organization'
+]
+const CSRF_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Accepts either an Authorization: Bearer header (API clients) or the session cookie (browser pages)
+async function authMiddleware(c: any, next: any) {
+  let token = bearerToken(c)
+  if (!token) {
+    token = getCookie(c, SESSION_COOKIE) || null
+    if (!token) {
+      return c.json({ error: 'ログインが必要です' }, 401)
+    }
+    if (!CSRF_SAFE_METHODS.includes(c.req.method)) {
+      const expected = getCookie(c, CSRF_COOKIE) || ''
+      const given = c.req.header(CSRF_HEADER) || ''
+      if (!expected || !timingSafeEqual(expected, given)) {
+        return c.json({ error: '不正なリクエストです。ページを再読み込みしてください' }, 403)
+      }
+    }
+  }
+  const user = await loadSessionUser(c, token)
   if (!user) {
-    return c.json({ error: 'メールアドレスまたはパスワードが正しくありません' }, 401)
+    return c.json({ error: 'セッションが無効です。再ログインしてください' }, 401)
   }
-  const token = generateToken()
-  await setToken(c.env.DB, token, user.id as number)
+  // After an admin-issued temporary password, only the password change itself is allowed
+  if (user.must_change_password && !PASSWORD_CHANGE_ALLOWED_PATHS.includes(c.req.path)) {
+    return c.json({ error: 'パスワードの変更が必要です', code: 'password_change_required' }, 403)
+  }
+  if (user.status === 'pending' && !PENDING_ALLOWED_PATHS.some((p) => c.req.path === p || c.req.path.startsWith(p + '/'))) {
+    return c.json({ error: 'クラブの管理者による承認待ちです', code: 'approval_pending' }, 403)
+  }
+  c.set('user', user)
+  c.set('sessionToken', token)
+  await next()
+}
 
-  return c.json({ token, user: { id: user.id, name: user.name, school: (user as any).school || '', email: user.email, role: user.role } })
-})
+// ========== Roles & Permissions ==========
+// Roles are per club (memberships.role); each grants a fixed set of permissions
+type Permission =
+  | 'members.read'    // member list with steps and memos, CSV export
+  | 'members.manage'  // add/remove members, roles, password resets, sessions, login locks
+  | 'events.read'     // event list, attendance and survey results
+  | 'events.manage'   // create and delete events
+  | 'rubric.manage'   // edit and publish the rubric
+  | 'schema.migrate'  // apply database migrations
+  | 'audit.read'      // view and download the audit log
+
+const ROLES = ['member', 'viewer', 'event_manager', 'admin'] as const
+type Role = typeof ROLES[number]
+
+const ROLE_LABELS: Record<Role, string> = {
+  member: '会員',
+  viewer: '閲覧者',
+  event_manager: 'イベント担当',
+  admin: '管理者'
+}
 
-app.get('/api/auth/me', authMiddleware, async (c) => {
-  return c.json({ user: c.get('user') })
-})
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  member: [],
+  viewer: ['members.read', 'events.read'],
+  event_manager: ['events.read', 'events.manage'],
+  admin: ['members.read', 'members.manage', 'events.read', 'events.manage', 'rubric.manage', 'schema.migrate', 'audit.read']
+}
 
-// ========== Selections API ==========
-app.get('/api/selections', authMiddleware, async (c) => {
-  const user = c.get('user')
-  const { results } = await c.env.DB.prepare(
-    'SELECT viewpoint, step, memo, updated_at FROM selections WHERE user_id = ?'
-  ).bind(user.id).all()
-  return c.json({ selections: results })
-})
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
 
-app.post('/api/selections', authMiddleware, async (c) => {
-  const user = c.get('user')
-  const { viewpoint, step, memo } = await c.req.json()
+function rolePermissions(role: string): Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : []
+}
 
-  if (!viewpoint || !step || step < 1 || step > 4) {
-    return c.json({ error: '不正な選択です' }, 400)
+function hasPermission(user: { role: string }, permission: Permission): boolean {
+  return rolePermissions(user.role).includes(permission)
+}
+
+// Use after authMiddleware
+function requirePermission(permission: Permission) {
+  return async (c: any, next: any) => {
+    if (!hasPermission(c.get('user'), permission)) {
+      return c.json({ error: 'この操作を行う権限がありません' }, 403)
+    }
+    await next()
   }
+}
 
-  const validViewpoints = ['lesson_plan', 'lesson_practice', 'student_eval', 'connection', 'research']
-  if (!validViewpoints.includes(viewpoint)) {
-    return c.json({ error: '不正な視点です' }, 400)
+// Where a user lands after login: the most useful page their role can open
+function homePath(user: { role: string; status?: string }): string {
+  if (user.status === 'pending') return '/pending'
+  if (hasPermission(user, 'members.read')) return '/admin'
+  if (hasPermission(user, 'events.read')) return '/admin/events'
+  return '/mypage'
+}
+
+// Server-side gate for HTML pages: redirect before any markup is sent
+function pageAuth(options: { permission?: Permission } = {}) {
+  return async (c: any, next: any) => {
+    const token = getCookie(c, SESSION_COOKIE)
+    const user = token ? await loadSessionUser(c, token) : null
+    if (!user) {
+      return c.redirect('/login?redirect=' + encodeURIComponent(c.req.path))
+    }
+    if (user.must_change_password && c.req.path !== '/change-password') {
+      return c.redirect('/change-password')
+    }
+    if (user.status === 'pending' && c.req.path !== '/pending' && c.req.path !== '/change-password') {
+      return c.redirect('/pending')
+    }
+    if (options.permission && !hasPermission(user, options.permission)) {
+      return c.redirect('/mypage')
+    }
+    c.set('user', user)
+    c.set('sessionToken', token)
+    await next()
   }
+}
 
-  await c.env.DB.prepare(`
-    INSERT INTO selections (user_id, viewpoint, step, memo, updated_at)
-    VALUES (?, ?, ?, ?, datetime('now'))
-    ON CONFLICT(user_id, viewpoint) DO UPDATE SET
-      step = excluded.step,
-      memo = excluded.memo,
-      updated_at = datetime('now')
-  `).bind(user.id, viewpoint, step, memo || '').run()
+// ========== Audit Log ==========
+// One row per admin mutation or export. Actor and target names are copied in so entries stay
+// readable after the member or event is deleted.
+type AuditTarget = { type: string; id?: number | string | null; label?: string }
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'member.add': '会員を追加',
+  'member.approve': '登録を承認',
+  'member.reject': '登録を却下',
+  'member.role': '役割を変更',
+  'member.delete': '会員をゴミ箱へ移動',
+  'member.restore': '会員を復元',
+  'member.purge': '会員を完全に削除',
+  'member.reset_password': 'パスワードを再発行',
+  'member.logout_all': '全端末からログアウト',
+  'member.school_history': '学校の異動履歴を変更',
+  'lockout.clear': 'ログインロックを解除',
+  'members.export': '会員CSVを出力',
+  'event.create': 'イベントを作成',
+  'event.delete': 'イベントをゴミ箱へ移動',
+  'event.restore': 'イベントを復元',
+  'event.purge': 'イベントを完全に削除',
+  'event.export': 'イベントCSVを出力',
+  'rubric.draft_save': 'ルーブリック下書きを保存',
+  'rubric.draft_discard': 'ルーブリック下書きを破棄',
+  'rubric.publish': 'ルーブリックを公開',
+  'organization.create': 'クラブを作成',
+  'registration.settings': '登録の承認設定を変更',
+  'registration.invite_code': '招待コードを変更',
+  'invitation.create': '招待リンクを発行',
+  'invitation.revoke': '招待リンクを取り消し',
+  'invitation.accept': '招待リンクで参加',
+  'members.import': '会員を一括登録',
+  'school.create': '学校を登録',
+  'school.update': '学校を編集',
+  'school.delete': '学校を削除',
+  'school.merge': '学校を統合',
+  'schema.migrate': 'データベースを更新'
+}
 
-  return c.json({ success: true })
-})
+type AuditEntry = {
+  orgId: number | null; actorId: number | null; actorName: string; ip: string
+  action: string; target: AuditTarget; before?: unknown; after?: unknown
+}
 
-app.delete('/api/selections/:viewpoint', authMiddleware, async (c) => {
+async function insertAudit(db: D1Database, e: AuditEntry) {
+  await db.prepare(
+    `INSERT INTO audit_log (org_id, actor_id, actor_name, action, target_type, target_id, target_label, before_json, after_json, ip)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    e.orgId,
+    e.actorId,
+    e.actorName,
+    e.action,
+    e.target.type,
+    e.target.id == null ? null : String(e.target.id),
+    e.target.label || '',
+    e.before === undefined ? null : JSON.stringify(e.before),
+    e.after === undefined ? null : JSON.stringify(e.after),
+    e.ip
+  ).run()
+}
+
+// Records an action taken by the signed-in user in their current club
+async function recordAudit(c: any, action: string, target: AuditTarget, before?: unknown, after?: unknown) {
   const user = c.get('user')
-  const viewpoint = c.req.param('viewpoint')
-  await c.env.DB.prepare(
-    'DELETE FROM selections WHERE user_id = ? AND viewpoint = ?'
-  ).bind(user.id, viewpoint).run()
-  return c.json({ success: true })
-})
+  await insertAudit(c.env.DB, {
+    orgId: user?.org_id ?? null, actorId: user?.id ?? null, actorName: user?.name || '', ip: sessionMeta(c).ip,
+    action, target, before, after
+  })
+}
 
+// ========== Trash ==========
+// Removing a member (from a club) or an event only sets deleted_at. Rows stay restorable for
+// the retention period and are purged by purgeTrash, which /api/init and every move to the
+// trash run (never the read-only trash views).
+const DEFAULT_TRASH_RETENTION_DAYS = 30
 
-// ========== My Annual Notes & History ==========
-function getCurrentFiscalYear(): number {
-  const now = new Date()
-  const y = now.getFullYear()
-  const m = now.getMonth() + 1
-  return m >= 4 ? y : y - 1
+function trashRetentionDays(env: Bindings): number {
+  const days = parseFloat(env.TRASH_RETENTION_DAYS || '')
+  return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
 }
 
-app.get('/api/me/annual-notes', authMiddleware, async (c) => {
-  const user = c.get('user')
-  const qfy = c.req.query('fy')
-  const fy = qfy ? parseInt(qfy) : getCurrentFiscalYear()
-  const fiscalYear = Number.isFinite(fy) ? fy : getCurrentFiscalYear()
+// SQLite datetime (UTC) before which trashed rows are purged
+function trashCutoff(env: Bindings): string {
+  return new Date(Date.now() - trashRetentionDays(env) * 24 * 60 * 60 * 1000).toISOString().slice(0, 19).replace('T', ' ')
+}
 
-  const row = await c.env.DB.prepare(
-    'SELECT fiscal_year, goal, reflection, updated_at FROM annual_notes WHERE user_id = ? AND fiscal_year = ?'
-  ).bind(user.id, fiscalYear).first() as any
+// One batch, so a failure leaves the member fully in the trash rather than half deleted.
+// The account itself goes once it belongs to no club, active or trashed.
+async function purgeMember(db: D1Database, orgId: number, userId: number) {
+  const orphaned = 'NOT EXISTS (SELECT 1 FROM memberships WHERE user_id = ?)'
+  // An account still named as an event's creator has to stay (events.created_by is NOT NULL)
+  const removable = `${orphaned} AND NOT EXISTS (SELECT 1 FROM events WHERE created_by = ?)`
+  const results = await db.batch([
+    db.prepare('DELETE FROM selections WHERE org_id = ? AND user_id = ?').bind(orgId, userId),
+    db.prepare('DELETE FROM selection_history WHERE org_id = ? AND user_id = ?').bind(orgId, userId),
+    db.prepare('DELETE FROM annual_notes WHERE org_id = ? AND user_id = ?').bind(orgId, userId),
+    db.prepare('DELETE FROM memberships WHERE org_id = ? AND user_id = ?').bind(orgId, userId),
+    // The events they created move to an active admin of the event's club (or a system admin).
+    // With neither, the event keeps its creator and the account stays behind, logged out of every club.
+    db.prepare(
+      `UPDATE events SET created_by = COALESCE(
+        (SELECT m.user_id FROM memberships m WHERE m.org_id = events.org_id AND m.role = 'admin'
+          AND m.status = 'active' AND m.deleted_at IS NULL AND m.user_id != ? ORDER BY m.created_at LIMIT 1),
+        (SELECT u.id FROM users u WHERE u.role = 'admin' AND u.id != ? ORDER BY u.id LIMIT 1),
+        created_by)
+       WHERE created_by = ? AND ${orphaned}`
+    ).bind(userId, userId, userId, userId),
+    db.prepare(`DELETE FROM school_assignments WHERE user_id = ? AND ${removable}`).bind(userId, userId, userId),
+    db.prepare(`DELETE FROM users WHERE id = ? AND ${removable}`).bind(userId, userId, userId)
+  ])
+  return { account_deleted: results[results.length - 1].meta.changes > 0 }
+}
 
-  return c.json({
-    fiscal_year: fiscalYear,
-    goal: row?.goal || '',
-    reflection: row?.reflection || '',
-    updated_at: row?.updated_at || null
-  })
-})
+async function purgeEvent(db: D1Database, eventId: number) {
+  await db.batch([
+    db.prepare('DELETE FROM custom_answers WHERE event_id = ?').bind(eventId),
+    db.prepare('DELETE FROM survey_answers WHERE event_id = ?').bind(eventId),
+    db.prepare('DELETE FROM survey_questions WHERE event_id = ?').bind(eventId),
+    db.prepare('DELETE FROM attendances WHERE event_id = ?').bind(eventId),
+    db.prepare('DELETE FROM events WHERE id = ?').bind(eventId)
+  ])
+}
 
-app.post('/api/me/annual-notes', authMiddleware, async (c) => {
-  const user = c.get('user')
-  const body = await c.req.json()
-  const fiscal_year = parseInt(body?.fiscal_year)
-  const goal = (body?.goal ?? '').toString()
-  const reflection = (body?.reflection ?? '').toString()
+// For the routes that move something to the trash: the move has already succeeded, so a
+// failing purge is only logged and left for the next run
+async function sweepTrash(db: D1Database, env: Bindings) {
+  try {
+    await purgeTrash(db, env)
+  } catch (e) {
+    console.error(e)
+  }
+}
 
-  if (!Number.isFinite(fiscal_year) || fiscal_year < 2000 || fiscal_year > 3000) {
-    return c.json({ error: '年度が不正です' }, 400)
+async function purgeTrash(db: D1Database, env: Bindings) {
+  const cutoff = trashCutoff(env)
+  const system = { actorId: null, actorName: '自動削除（保存期間経過）', ip: '' }
+  const { results: members } = await db.prepare(
+    `SELECT m.org_id, m.user_id, u.name FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.deleted_at IS NOT NULL AND m.deleted_at < ?`
+  ).bind(cutoff).all() as any
+  for (const m of members || []) {
+    const after = await purgeMember(db, m.org_id, m.user_id)
+    await insertAudit(db, { ...system, orgId: m.org_id, action: 'member.purge', target: { type: 'member', id: m.user_id, label: m.name }, after })
   }
-  if (goal.length > 8000 || reflection.length > 8000) {
-    return c.json({ error: '入力が長すぎます（8000文字以内）' }, 400)
+  const { results: events } = await db.prepare(
+    'SELECT id, org_id, title FROM events WHERE deleted_at IS NOT NULL AND deleted_at < ?'
+  ).bind(cutoff).all() as any
+  for (const e of events || []) {
+    await purgeEvent(db, e.id)
+    await insertAudit(db, { ...system, orgId: e.org_id, action: 'event.purge', target: { type: 'event', id: e.id, label: e.title } })
   }
+}
 
-  await c.env.DB.prepare(`
-    INSERT INTO annual_notes (user_id, fiscal_year, goal, reflection, updated_at)
-    VALUES (?, ?, ?, ?, datetime('now'))
-    ON CONFLICT(user_id, fiscal_year) DO UPDATE SET
-      goal = excluded.goal,
-      reflection = excluded.reflection,
-      updated_at = datetime('now')
-  `).bind(user.id, fiscal_year, goal, reflection).run()
+// ========== Rubric ==========
+// Cell/action text may use **bold** and [[term]] (highlighted social-studies term) markup.
+type RubricCategory = { key: string; label: string; color: string }
+type RubricStep = { step: number; title: string; icon: string; actions: string[] }
+type RubricCell = { keyword: string; text: string }
+type RubricViewpoint = { key: string; label: string; sublabel: string; category: string; cells: RubricCell[] }
+type RubricDefinition = { categories: RubricCategory[]; steps: RubricStep[]; viewpoints: RubricViewpoint[] }
+
+const DEFAULT_RUBRIC: RubricDefinition = {
+  categories: [
+    { key: 'class', label: '授業・準備', color: '#8d6e63' },
+    { key: 'connect', label: '仲間・活動', color: '#66bb6a' },
+    { key: 'research', label: '研究・発信', color: '#42a5f5' }
+  ],
+  steps: [
+    { step: 1, title: 'まずはここから', icon: '🔰', actions: ['**若手交流会**で仲間作り', '**授業づくり講座**を聞く', '**懇親会**にとりあえず行く'] },
+    { step: 2, title: '自分で工夫する', icon: '🏃', actions: ['**スキルアップ研修**に参加', '**体験記録**を書いてみる', '**FW(フィールドワーク)**へGO!'] },
+    { step: 3, title: 'みんなと高める', icon: '🤝', actions: ['**模擬授業**をやってみる', '**FW・イベント**を企画する', '**研究部**で議論する'] },
+    { step: 4, title: '未来を創る', icon: '🌏', actions: ['**講師**として話す', '**研究紀要**をまとめる', '**全国大会**に行く・呼ぶ'] }
+  ],
+  viewpoints: [
+    {
+      key: 'lesson_plan', label: '授業をつくる', sublabel: '準備・計画', category: 'class',
+      cells: [
+        { keyword: '基本型をまねる', text: '教科書や「わたしたちのきょうど」、「あゆみ」を見て、基本的な授業の流れをつかんでみよう。' },
+        { keyword: '実態に合わせる', text: '「この子たちなら？」と想像して、名古屋のネタや身近な話題を取り入れよう。' },
+        { keyword: '深い学びを仕掛ける', text: '「なぜ？」といった[[社会的な見方]]を取り入れた、面白い単元を作ってみよう。' },
+        { keyword: '大きな学びを描く', text: '社会科を中心に、SDGsや他教科ともつながるような、広がりのある学びをデザインしよう。' }
+      ]
+    },
+    {
+      key: 'lesson_practice', label: '授業をする', sublabel: '技術・対話', category: 'class',
+      cells: [
+        { keyword: '資料で惹きつける', text: '地図や写真をドーンと見せて、子供の興味を惹きつける発問をしてみよう。' },
+        { keyword: '対話で盛り上げる', text: '子供のつぶやきを拾って、意見を戦わせる場面を作ってみよう。' },
+        { keyword: '探究を支える', text: 'ICTを使って、子供自身が調べて、考えて、まとめる時間を充実させよう。' },
+        { keyword: '技を伝える', text: '若手の授業を見て、具体的なアドバイスをし、授業力を引き上げよう。' }
+      ]
+    },
+    {
+      key: 'student_eval', label: '子供を見る', sublabel: '評価・改善', category: 'class',
+      cells: [
+        { keyword: '基礎を確認する', text: '地名や用語など、基本的なことが身についたか確認してみよう。' },
+        { keyword: '思考を見取る', text: '発言やノートから、「事実を元に考えているかな？」と頭の中をのぞいてみよう。' },
+        { keyword: '頑張りを認める', text: '粘り強く調べる姿など、点数になりにくい良さも見つけてみよう。' },
+        { keyword: '授業をより良くする', text: '評価規準を作り、子供の姿を元に自分の授業をアップデートしよう。' }
+      ]
+    },
+    {
+      key: 'connection', label: 'つながる', sublabel: '同僚性・楽しさ', category: 'connect',
+      cells: [
+        { keyword: 'まずは楽しむ', text: 'イベントに参加して楽しもう。同期や先輩と顔見知りになれたらOK！' },
+        { keyword: '弱音を吐く', text: '悩みを相談したり、失敗談を笑い合ったりできる仲間を作ろう。' },
+        { keyword: '場を盛り上げる', text: '飲み会やFWの幹事をして、若手とベテランをつなぐ架け橋になろう。' },
+        { keyword: '次世代を育てる', text: '「この会を良くするには？」と未来を語り、次のリーダーたちを育てよう。' }
+      ]
+    },
+    {
+      key: 'research', label: '深める', sublabel: '探究・理論', category: 'research',
+      cells: [
+        { keyword: '「すごい！」に触れる', text: '先輩の実践記録を読んで、「こんな授業があるんだ！」と刺激を受けよう。' },
+        { keyword: '実践を書く', text: '自分の授業を[[「体験記録」]]等の文章にまとめて、整理してみよう。' },
+        { keyword: '理論を磨く', text: 'テーマを深掘りして議論したり、自分の実践を理論づけたりしてみよう。' },
+        { keyword: '全国へ発信する', text: '全国大会などで発表して、名古屋の社会科の魅力を外に向けて発信しよう。' }
+      ]
+    }
+  ]
+}
 
-  return c.json({ success: true })
-})
+// Returns an error message, or null when the definition is usable
+function validateRubric(def: any): string | null {
+  if (!def || !Array.isArray(def.categories) || !Array.isArray(def.steps) || !Array.isArray(def.viewpoints)) {
+    return 'ルーブリックの形式が不正です'
+  }
+  if (def.steps.length !== 4) return 'ステップは4段階で定義してください'
+  const catKeys = new Set<string>()
+  for (const cat of def.categories) {
+    if (!cat || !cat.key || !cat.label) return 'カテゴリ名は必須です'
+    if (catKeys.has(cat.key)) return 'カテゴリが重複しています'
+    catKeys.add(cat.key)
+  }
+  if (def.viewpoints.length === 0) return '視点を1つ以上定義してください'
+  const vpKeys = new Set<string>()
+  for (const vp of def.viewpoints) {
+    if (!vp || !vp.key || !vp.label) return '視点名は必須です'
+    if (!/^[a-z][a-z0-9_]*$/.test(vp.key)) return '視点キーが不正です'
+    if (vpKeys.has(vp.key)) return '視点が重複しています'
+    if (!catKeys.has(vp.category)) return '視点「' + vp.label + '」のカテゴリが不正です'
+    if (!Array.isArray(vp.cells) || vp.cells.length !== def.steps.length) return '視点「' + vp.label + '」のステップ数が不正です'
+    vpKeys.add(vp.key)
+  }
+  return null
+}
 
-app.get('/api/me/history', authMiddleware, async (c) => {
-  const user = c.get('user')
-  const qfy = c.req.query('fy')
-  const fy = qfy ? parseInt(qfy) : getCurrentFiscalYear()
-  const fiscalYear = Number.isFinite(fy) ? fy : getCurrentFiscalYear()
-  const start = `${fiscalYear}-04-01`
-  const end = `${fiscalYear + 1}-03-31`
-
-  const db = c.env.DB
-  const { results: baseRows } = await db.prepare(
-    `SELECT
-      e.id as event_id,
-      e.title,
-      e.description,
-      e.event_date,
-      e.event_code,
-      a.attended_at,
-      sa.satisfaction,
-      sa.comment,
-      sa.answered_at
-    FROM attendances a
-    JOIN events e ON e.id = a.event_id
-    LEFT JOIN survey_answers sa ON sa.event_id = e.id AND sa.user_id = a.user_id
-    WHERE a.user_id = ? AND e.event_date >= ? AND e.event_date <= ?
-    ORDER BY e.event_date DESC`
-  ).bind(user.id, start, end).all() as any
-
-  const { results: qaRows } = await db.prepare(
-    `SELECT
-      e.id as event_id,
-      q.id as question_id,
-      q.question_text,
-      q.question_type,
-      q.options,
-      q.sort_order,
-      ca.answer_text
-    FROM attendances a
-    JOIN events e ON e.id = a.event_id
-    JOIN survey_questions q ON q.event_id = e.id
-    LEFT JOIN custom_answers ca ON ca.event_id = e.id AND ca.question_id = q.id AND ca.user_id = a.user_id
-    WHERE a.user_id = ? AND e.event_date >= ? AND e.event_date <= ?
-    ORDER BY e.event_date DESC, q.sort_order ASC`
-  ).bind(user.id, start, end).all() as any
+// version 0 stands for the built-in DEFAULT_RUBRIC (used before the schema has been initialised)
+type RubricVersion = { version: number; definition: RubricDefinition }
 
-  const map = new Map<number, any>()
-  for (const r of (baseRows || [])) {
-    map.set(r.event_id, {
-      event_id: r.event_id,
-      title: r.title,
-      description: r.description || '',
-      event_date: r.event_date,
-      event_code: r.event_code,
-      attended_at: r.attended_at,
-      survey: {
-        satisfaction: r.satisfaction ?? null,
-        comment: r.comment || '',
-        answered_at: r.answered_at ?? null
-      },
-      questions: [] as any[]
-    })
-  }
-  for (const q of (qaRows || [])) {
-    const ev = map.get(q.event_id)
-    if (!ev) continue
-    ev.questions.push({
-      question_id: q.question_id,
-      question_text: q.question_text,
-      question_type: q.question_type,
-      options: q.options || '',
-      answer_text: q.answer_text || ''
-    })
+// Each organization publishes its own rubric; a club without one uses DEFAULT_RUBRIC
+async function getRubricVersion(db: D1Database, orgId: number | null, version?: number): Promise<RubricVersion | null> {
+  try {
+    const row = (version
+      ? await db.prepare("SELECT id, definition FROM rubric_versions WHERE id = ? AND org_id = ? AND status = 'published'").bind(version, orgId).first()
+      : await db.prepare("SELECT id, definition FROM rubric_versions WHERE org_id = ? AND status = 'published' ORDER BY id DESC LIMIT 1").bind(orgId).first()) as any
+    if (row?.definition) {
+      const def = JSON.parse(row.definition)
+      if (!validateRubric(def)) return { version: row.id, definition: def }
+    }
+  } catch (e) {
+    // table missing or broken JSON
   }
+  return null
+}
 
-  return c.json({ fiscal_year: fiscalYear, events: Array.from(map.values()) })
-})
+async function getCurrentRubric(db: D1Database, orgId: number | null): Promise<RubricVersion> {
+  return (await getRubricVersion(db, orgId)) || { version: 0, definition: DEFAULT_RUBRIC }
+}
 
+function rubricStepLabel(rubric: RubricDefinition, step: number): string {
+  const s = rubric.steps.find(st => st.step === step)
+  return s ? `STEP${step}(${s.title})` : `STEP${step}`
+}
 
-// ========== Admin API ==========
-app.get('/api/admin/members', authMiddleware, adminMiddleware, async (c) => {
-  const { results: members } = await c.env.DB.prepare(
-    `SELECT u.id, u.name, u.school, u.email, u.role, u.created_at,
-      GROUP_CONCAT(s.viewpoint || ':' || s.step || ':' || COALESCE(s.memo,''), '||') as selections_raw
-     FROM users u
-     LEFT JOIN selections s ON u.id = s.user_id
-     GROUP BY u.id
-     ORDER BY u.created_at DESC`
-  ).all()
-
-  const parsed = members.map((m: any) => {
-    const selections: Record<string, { step: number; memo: string }> = {}
-    if (m.selections_raw) {
-      const parts = (m.selections_raw as string).split('||')
-      for (const part of parts) {
-        const [vp, stepStr, ...memoParts] = part.split(':')
-        if (vp && stepStr) {
-          selections[vp] = { step: parseInt(stepStr), memo: memoParts.join(':') }
+// ========== DB Init ==========
+async function addColumnIfMissing(db: D1Database, table: string, column: string, definition: string) {
+  const { results: cols } = (await db.prepare(`PRAGMA table_info(${table})`).all()) as any
+  if (Array.isArray(cols) && !cols.some((c: any) => c.name === column)) {
+    await db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run()
+  }
+}
+
+// ========== Migrations ==========
+// The schema is defined only here. Each step runs once (recorded in schema_migrations) and
+// is written to be idempotent, because databases created by the old /api/init already
+// contain some of these tables and columns without any recorded version.
+type Migration = { version: number; name: string; up: (db: D1Database) => Promise<void> }
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('member', 'admin')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS selections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        viewpoint TEXT NOT NULL,
+        step INTEGER NOT NULL CHECK(step BETWEEN 1 AND 4),
+        memo TEXT DEFAULT '',
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(user_id, viewpoint)
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_selections_user_id ON selections(user_id)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_users_role ON users(role)').run()
+    }
+  },
+  {
+    version: 2,
+    name: 'events_attendance_survey',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, description TEXT DEFAULT '',
+        event_date TEXT NOT NULL, event_code TEXT UNIQUE NOT NULL, is_active INTEGER DEFAULT 1,
+        created_by INTEGER NOT NULL, created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS attendances (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
+        attended_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, UNIQUE(event_id, user_id)
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS survey_questions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, question_text TEXT NOT NULL,
+        question_type TEXT NOT NULL CHECK(question_type IN ('text','radio','rating')),
+        options TEXT DEFAULT '', sort_order INTEGER DEFAULT 0,
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS survey_answers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
+        satisfaction INTEGER CHECK(satisfaction BETWEEN 1 AND 5), comment TEXT DEFAULT '',
+        answered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE, UNIQUE(event_id, user_id)
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS custom_answers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, event_id INTEGER NOT NULL, user_id INTEGER NOT NULL,
+        question_id INTEGER NOT NULL, answer_text TEXT DEFAULT '',
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (question_id) REFERENCES survey_questions(id) ON DELETE CASCADE,
+        UNIQUE(event_id, user_id, question_id)
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_attendances_event ON attendances(event_id)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_events_code ON events(event_code)').run()
+    }
+  },
+  {
+    version: 3,
+    name: 'users_school',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'users', 'school', "TEXT NOT NULL DEFAULT ''")
+    }
+  },
+  {
+    version: 4,
+    name: 'sessions',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS sessions (
+        token TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)').run()
+    }
+  },
+  {
+    version: 5,
+    name: 'annual_notes',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS annual_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        fiscal_year INTEGER NOT NULL,
+        goal TEXT DEFAULT '',
+        reflection TEXT DEFAULT '',
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(user_id, fiscal_year)
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_annual_notes_user_year ON annual_notes(user_id, fiscal_year)').run()
+    }
+  },
+  {
+    version: 6,
+    name: 'selection_history',
+    up: async (db) => {
+      // One row per step/memo change (step is NULL when a selection is cleared)
+      await db.prepare(`CREATE TABLE IF NOT EXISTS selection_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        viewpoint TEXT NOT NULL,
+        step INTEGER CHECK(step BETWEEN 1 AND 4),
+        memo TEXT DEFAULT '',
+        action TEXT NOT NULL CHECK(action IN ('save', 'delete')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_selection_history_user ON selection_history(user_id, viewpoint, created_at)').run()
+      // Existing selections start their history as a save at their last update
+      await db.prepare(`INSERT INTO selection_history (user_id, viewpoint, step, memo, action, created_at)
+        SELECT s.user_id, s.viewpoint, s.step, COALESCE(s.memo, ''), 'save', COALESCE(s.updated_at, CURRENT_TIMESTAMP) FROM selections s
+        WHERE NOT EXISTS (SELECT 1 FROM selection_history h WHERE h.user_id = s.user_id AND h.viewpoint = s.viewpoint)`).run()
+    }
+  },
+  {
+    version: 7,
+    name: 'rubric_versions',
+    up: async (db) => {
+      // The newest 'published' row is current; at most one 'draft' is being edited
+      await db.prepare(`CREATE TABLE IF NOT EXISTS rubric_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        definition TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'published')),
+        note TEXT DEFAULT '',
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        published_at DATETIME,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )`).run()
+      const published = await db.prepare("SELECT id FROM rubric_versions WHERE status = 'published' LIMIT 1").first()
+      if (!published) {
+        // Carry over the single-row rubric table from earlier deployments, if present
+        let definition = JSON.stringify(DEFAULT_RUBRIC)
+        try {
+          const legacy = await db.prepare('SELECT definition FROM rubric WHERE id = 1').first() as any
+          if (legacy?.definition) definition = legacy.definition
+        } catch (e) {
+          // ignore
         }
+        await db.prepare(
+          "INSERT INTO rubric_versions (definition, status, note, published_at) VALUES (?, 'published', '初版', datetime('now'))"
+        ).bind(definition).run()
+      }
+      await db.prepare('DROP TABLE IF EXISTS rubric').run()
+
+      // Selections remember the rubric version they were made against
+      await addColumnIfMissing(db, 'selections', 'rubric_version_id', 'INTEGER')
+      await addColumnIfMissing(db, 'selection_history', 'rubric_version_id', 'INTEGER')
+      for (const table of ['selections', 'selection_history']) {
+        await db.prepare(
+          `UPDATE ${table} SET rubric_version_id = (SELECT MIN(id) FROM rubric_versions WHERE status = 'published') WHERE rubric_version_id IS NULL`
+        ).run()
       }
     }
-    return {
-      id: m.id,
-      name: m.name,
-      school: m.school || '',
-      email: m.email,
-      role: m.role,
-      created_at: m.created_at,
-      selections
+  },
+  {
+    version: 8,
+    name: 'password_resets',
+    up: async (db) => {
+      // One-time password reset tokens (hashed)
+      await db.prepare(`CREATE TABLE IF NOT EXISTS password_resets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        expires_at TEXT NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_password_resets_user ON password_resets(user_id)').run()
+      await addColumnIfMissing(db, 'users', 'must_change_password', 'INTEGER NOT NULL DEFAULT 0')
     }
-  })
-
-  return c.json({ members: parsed })
-})
-
-app.put('/api/admin/members/:id/role', authMiddleware, adminMiddleware, async (c) => {
-  const id = parseInt(c.req.param('id'))
-  const { role } = await c.req.json()
-  if (!['member', 'admin'].includes(role)) {
-    return c.json({ error: '不正な役割です' }, 400)
-  }
-  await c.env.DB.prepare('UPDATE users SET role = ? WHERE id = ?').bind(role, id).run()
-  return c.json({ success: true })
-})
+  },
+  {
+    version: 9,
+    name: 'session_metadata',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'sessions', 'id', 'TEXT')
+      await addColumnIfMissing(db, 'sessions', 'created_at', 'TEXT')
+      await addColumnIfMissing(db, 'sessions', 'last_seen_at', 'TEXT')
+      await addColumnIfMissing(db, 'sessions', 'user_agent', "TEXT DEFAULT ''")
+      await addColumnIfMissing(db, 'sessions', 'ip', "TEXT DEFAULT ''")
+      await db.prepare('UPDATE sessions SET id = lower(hex(randomblob(8))) WHERE id IS NULL').run()
+      await db.prepare('CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_id ON sessions(id)').run()
+    }
+  },
+  {
+    version: 10,
+    name: 'login_throttle',
+    up: async (db) => {
+      // Failed login counters (scope = 'email' | 'ip')
+      await db.prepare(`CREATE TABLE IF NOT EXISTS login_throttle (
+        scope TEXT NOT NULL,
+        key TEXT NOT NULL,
+        failures INTEGER NOT NULL DEFAULT 0,
+        last_failed_at TEXT,
+        locked_until TEXT,
+        PRIMARY KEY (scope, key)
+      )`).run()
+    }
+  },
+  {
+    version: 11,
+    name: 'retire_default_admin',
+    up: async (db) => {
+      // Installs bootstrapped before /setup still have admin@example.com / admin123. Clearing the
+      // hash makes it unusable (and no longer counted by hasAdmin), so the operator goes through
+      // /setup or a reset; a forced password change would still let admin123 log in once.
+      const legacyAdmin = await db.prepare("SELECT id, password_hash FROM users WHERE lower(email) = 'admin@example.com'").first() as any
+      if (legacyAdmin && (await verifyPassword('admin123', legacyAdmin.password_hash)).ok) {
+        await db.prepare("UPDATE users SET password_hash = '', must_change_password = 0, updated_at = datetime('now') WHERE id = ?")
+          .bind(legacyAdmin.id).run()
+        await revokeSessions(db, legacyAdmin.id)
+      }
+    }
+  },
+  {
+    version: 12,
+    name: 'organizations',
+    up: async (db) => {
+      // Each club is an organization; users join one or more of them with a per-club role
+      await db.prepare(`CREATE TABLE IF NOT EXISTS organizations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        slug TEXT UNIQUE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`).run()
+      await db.prepare(`CREATE TABLE IF NOT EXISTS memberships (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('member', 'admin')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(org_id, user_id)
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id)').run()
+
+      // Everything that existed before becomes the first club
+      let org = await db.prepare('SELECT id FROM organizations ORDER BY id LIMIT 1').first() as any
+      if (!org) {
+        await db.prepare("INSERT INTO organizations (name, slug) VALUES ('社会科同好会', 'shakaika')").run()
+        org = await db.prepare('SELECT id FROM organizations ORDER BY id LIMIT 1').first() as any
+      }
+      // Keep the original sign-up date so join dates and cohorts stay correct
+      await db.prepare(`INSERT OR IGNORE INTO memberships (org_id, user_id, role, created_at)
+        SELECT ?, id, role, COALESCE(created_at, CURRENT_TIMESTAMP) FROM users`).bind(org.id).run()
+
+      // Selections and annual notes are unique per club, so their tables are rebuilt
+      const { results: selectionCols } = await db.prepare('PRAGMA table_info(selections)').all() as any
+      if (!selectionCols.some((col: any) => col.name === 'org_id')) {
+        await db.batch([
+          db.prepare(`CREATE TABLE selections_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            org_id INTEGER NOT NULL,
+            user_id INTEGER NOT NULL,
+            viewpoint TEXT NOT NULL,
+            step INTEGER NOT NULL CHECK(step BETWEEN 1 AND 4),
+            memo TEXT DEFAULT '',
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            rubric_version_id INTEGER,
+            FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            UNIQUE(org_id, user_id, viewpoint)
+          )`),
+          db.prepare(`INSERT INTO selections_new (id, org_id, user_id, viewpoint, step, memo, updated_at, rubric_version_id)
+            SELECT id, ?, user_id, viewpoint, step, memo, updated_at, rubric_version_id FROM selections`).bind(org.id),
+          db.prepare('DROP TABLE selections'),
+          db.prepare('ALTER TABLE selections_new RENAME TO selections'),
+          db.prepare('CREATE INDEX IF NOT EXISTS idx_selections_user_id ON selections(user_id)'),
+          db.prepare('CREATE INDEX IF NOT EXISTS idx_selections_org ON selections(org_id, user_id)')
+        ])
+      }
+      const { results: noteCols } = await db.prepare('PRAGMA table_info(annual_notes)').all() as any
+      if (!noteCols.some((col: any) => col.name === 'org_id')) {
+        await db.batch([
+          db.prepare(`CREATE TABLE annual_notes_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            org_id INTEGER NOT NULL,
+            user_id INTEGER NOT NULL,
+            fiscal_year INTEGER NOT NULL,
+            goal TEXT DEFAULT '',
+            reflection TEXT DEFAULT '',
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            UNIQUE(org_id, user_id, fiscal_year)
+          )`),
+          db.prepare(`INSERT INTO annual_notes_new (id, org_id, user_id, fiscal_year, goal, reflection, updated_at)
+            SELECT id, ?, user_id, fiscal_year, goal, reflection, updated_at FROM annual_notes`).bind(org.id),
+          db.prepare('DROP TABLE annual_notes'),
+          db.prepare('ALTER TABLE annual_notes_new RENAME TO annual_notes'),
+          db.prepare('CREATE INDEX IF NOT EXISTS idx_annual_notes_user_year ON annual_notes(org_id, user_id, fiscal_year)')
+        ])
+      }
 
-app.delete('/api/admin/members/:id', authMiddleware, adminMiddleware, async (c) => {
-  const id = parseInt(c.req.param('id'))
-  const user = c.get('user')
-  if (user.id === id) {
-    return c.json({ error: '自分自身は削除できません' }, 400)
+      // The remaining per-club tables just gain a column
+      for (const table of ['selection_history', 'events', 'rubric_versions']) {
+        await addColumnIfMissing(db, table, 'org_id', 'INTEGER REFERENCES organizations(id) ON DELETE CASCADE')
+        await db.prepare(`UPDATE ${table} SET org_id = ? WHERE org_id IS NULL`).bind(org.id).run()
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_${table}_org ON ${table}(org_id)`).run()
+      }
+      // The club a session is currently working in (NULL = the user's first club)
+      await addColumnIfMissing(db, 'sessions', 'org_id', 'INTEGER')
+    }
+  },
+  {
+    version: 13,
+    name: 'membership_roles',
+    up: async (db) => {
+      // SQLite cannot alter a CHECK constraint, so the table is rebuilt with the wider role list
+      await db.batch([
+        db.prepare(`CREATE TABLE memberships_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          org_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('member', 'viewer', 'event_manager', 'admin')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE(org_id, user_id)
+        )`),
+        db.prepare('INSERT INTO memberships_new (id, org_id, user_id, role, created_at) SELECT id, org_id, user_id, role, created_at FROM memberships'),
+        db.prepare('DROP TABLE memberships'),
+        db.prepare('ALTER TABLE memberships_new RENAME TO memberships'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id)')
+      ])
+    }
+  },
+  {
+    version: 14,
+    name: 'audit_log',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id INTEGER,
+        actor_id INTEGER,
+        actor_name TEXT NOT NULL DEFAULT '',
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id TEXT,
+        target_label TEXT NOT NULL DEFAULT '',
+        before_json TEXT,
+        after_json TEXT,
+        ip TEXT DEFAULT '',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_audit_log_org ON audit_log(org_id, created_at)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action)').run()
+    }
+  },
+  {
+    version: 15,
+    name: 'soft_delete',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'memberships', 'deleted_at', 'DATETIME')
+      await addColumnIfMissing(db, 'memberships', 'deleted_by', 'INTEGER')
+      await addColumnIfMissing(db, 'events', 'deleted_at', 'DATETIME')
+      await addColumnIfMissing(db, 'events', 'deleted_by', 'INTEGER')
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_memberships_deleted ON memberships(deleted_at)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_events_deleted ON events(deleted_at)').run()
+    }
+  },
+  {
+    version: 16,
+    name: 'registration_approval',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'organizations', 'require_approval', 'INTEGER NOT NULL DEFAULT 0')
+      await addColumnIfMissing(db, 'organizations', 'invite_code', 'TEXT')
+      // Existing members were all let in directly
+      await addColumnIfMissing(db, 'memberships', 'status', "TEXT NOT NULL DEFAULT 'active'")
+      await db.prepare('CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_invite_code ON organizations(invite_code)').run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_memberships_status ON memberships(org_id, status)').run()
+    }
+  },
+  {
+    version: 17,
+    name: 'invitations',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS invitations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id INTEGER NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        email TEXT NOT NULL DEFAULT '',
+        school TEXT NOT NULL DEFAULT '',
+        role TEXT NOT NULL DEFAULT 'member',
+        expires_at TEXT NOT NULL,
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        used_at DATETIME,
+        used_by INTEGER,
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_invitations_org ON invitations(org_id, created_at)').run()
+    }
+  },
+  {
+    version: 18,
+    name: 'schools',
+    up: async (db) => {
+      await db.prepare(`CREATE TABLE IF NOT EXISTS schools (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        ward TEXT NOT NULL DEFAULT '',
+        school_type TEXT NOT NULL DEFAULT '',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+        UNIQUE(org_id, name)
+      )`).run()
+      // Other spellings merged into a school, so later registrations with them are linked too
+      await db.prepare(`CREATE TABLE IF NOT EXISTS school_aliases (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        alias TEXT NOT NULL,
+        FOREIGN KEY (school_id) REFERENCES schools(id) ON DELETE CASCADE,
+        UNIQUE(org_id, alias)
+      )`).run()
+      // users.school stays as the display name. A club's master links its memberships, not the
+      // account every club shares, once an admin has sorted the school out
+      await addColumnIfMissing(db, 'memberships', 'school_id', 'INTEGER')
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_memberships_school ON memberships(school_id)').run()
+    }
+  },
+  {
+    version: 19,
+    name: 'school_history',
+    up: async (db) => {
+      // One row per move; the school a member was at on a date is the latest row started on or before it
+      await db.prepare(`CREATE TABLE IF NOT EXISTS school_assignments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        school TEXT NOT NULL DEFAULT '',
+        started_on TEXT NOT NULL,
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`).run()
+      await db.prepare('CREATE INDEX IF NOT EXISTS idx_school_assignments_user ON school_assignments(user_id, started_on)').run()
+      // Without earlier history, the current school is taken to date from registration
+      await db.prepare(`INSERT INTO school_assignments (user_id, school, started_on)
+        SELECT id, school, date(COALESCE(created_at, 'now'), '${JST_OFFSET}') FROM users
+        WHERE TRIM(school) != '' AND id NOT IN (SELECT user_id FROM school_assignments)`).run()
+      for (const table of ['attendances', 'annual_notes']) {
+        await addColumnIfMissing(db, table, 'school', "TEXT NOT NULL DEFAULT ''")
+        await addColumnIfMissing(db, table, 'school_id', 'INTEGER')
+        // school_id stays NULL: the masters were only just created, so nothing is linked yet
+        await db.prepare(`UPDATE ${table} SET school = COALESCE((SELECT u.school FROM users u WHERE u.id = ${table}.user_id), '')
+          WHERE school = ''`).run()
+      }
+    }
   }
-  await c.env.DB.prepare('DELETE FROM selections WHERE user_id = ?').bind(id).run()
-  await c.env.DB.prepare('DELETE FROM users WHERE id = ?').bind(id).run()
-  return c.json({ success: true })
-})
+]
 
-// ========== CSV Export ==========
-app.get('/api/admin/export', authMiddleware, adminMiddleware, async (c) => {
-  const { results: members } = await c.env.DB.prepare(
-    'SELECT id, name, school, email, role, created_at FROM users ORDER BY created_at'
-  ).all()
+const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
 
-  const { results: allSelections } = await c.env.DB.prepare(
-    'SELECT user_id, viewpoint, step, memo FROM selections'
-  ).all()
+async function appliedMigrations(db: D1Database): Promise<{ version: number; name: string; applied_at: string }[]> {
+  await db.prepare(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`).run()
+  const { results } = await db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as any
+  return results || []
+}
 
-  const selMap = new Map<number, Record<string, { step: number; memo: string }>>()
-  for (const s of allSelections as any[]) {
-    if (!selMap.has(s.user_id)) selMap.set(s.user_id, {})
-    selMap.get(s.user_id)![s.viewpoint] = { step: s.step, memo: s.memo || '' }
+// Applies every pending migration in order and returns the ones that ran
+async function runMigrations(db: D1Database): Promise<Migration[]> {
+  const done = new Set((await appliedMigrations(db)).map(m => m.version))
+  const ran: Migration[] = []
+  for (const m of MIGRATIONS) {
+    if (done.has(m.version)) continue
+    await m.up(db)
+    await db.prepare('INSERT OR IGNORE INTO schema_migrations (version, name) VALUES (?, ?)').bind(m.version, m.name).run()
+    ran.push(m)
   }
+  return ran
+}
 
-  const vpLabels: Record<string, string> = {
-    lesson_plan: '授業をつくる',
-    lesson_practice: '授業をする',
-    student_eval: '子供を見る',
-    connection: 'つながる',
-    research: '深める'
-  }
-  const stepLabels: Record<number, string> = {
-    1: 'STEP1(まずはここから)',
-    2: 'STEP2(自分で工夫する)',
-    3: 'STEP3(みんなと高める)',
-    4: 'STEP4(未来を創る)'
-  }
-  const vps = ['lesson_plan', 'lesson_practice', 'student_eval', 'connection', 'research']
+// Housekeeping that runs with every /api/init
+async function pruneExpired(db: D1Database) {
+  const now = new Date().toISOString()
+  await db.prepare('DELETE FROM sessions WHERE expires_at < ?').bind(now).run()
+  await db.prepare('DELETE FROM password_resets WHERE expires_at < ?').bind(now).run()
+}
 
-  // BOM for Excel
-  const BOM = '\uFEFF'
-  let csv = BOM
-  // Header
-  const headers = ['名前', '学校名', 'メールアドレス', '役割', '登録日']
-  for (const vp of vps) {
-    headers.push(vpLabels[vp] + '(ステップ)')
-    headers.push(vpLabels[vp] + '(メモ)')
+async function hasAdmin(db: D1Database): Promise<boolean> {
+  try {
+    return !!(await db.prepare("SELECT id FROM users WHERE role = 'admin' AND password_hash != '' LIMIT 1").first())
+  } catch {
+    // users table not created yet
+    return false
   }
-  csv += headers.map(h => `"${h}"`).join(',') + '\n'
+}
 
-  // Rows
-  for (const m of members as any[]) {
-    const sels = selMap.get(m.id) || {}
-    const row = [
-      m.name,
-      m.school || '',
-      m.email,
-      m.role === 'admin' ? '管理者' : '会員',
-      m.created_at || ''
-    ]
-    for (const vp of vps) {
-      if (sels[vp]) {
-        row.push(stepLabels[sels[vp].step] || `STEP${sels[vp].step}`)
-        row.push(sels[vp].memo || '')
-      } else {
-        row.push('未選択')
-        row.push('')
-      }
+// Deploy steps authenticate with the SETUP_TOKEN binding in X-Setup-Token; otherwise an admin session is required
+async function initAuthMiddleware(c: any, next: any) {
+  const setupToken = c.req.header('X-Setup-Token')
+  if (setupToken) {
+    if (!c.env.SETUP_TOKEN || !timingSafeEqual(setupToken, c.env.SETUP_TOKEN)) {
+      return c.json({ error: 'セットアップトークンが正しくありません' }, 403)
     }
-    csv += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\n'
+    return next()
   }
-
-  return new Response(csv, {
-    headers: {
-      'Content-Type': 'text/csv; charset=utf-8',
-      'Content-Disposition': 'attachment; filename="shakaika_members_export.csv"'
-    }
-  })
-})
-
-// ========== Events API ==========
-function generateEventCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
-  let code = ''
-  const arr = new Uint8Array(8)
-  crypto.getRandomValues(arr)
-  for (let i = 0; i < 8; i++) code += chars[arr[i] % chars.length]
-  return code
+  return authMiddleware(c, () => requirePermission('schema.migrate')(c, next))
 }
 
-app.post('/api/admin/events', authMiddleware, adminMiddleware, async (c) => {
-  const { title, description, event_date, custom_questions } = await c.req.json()
-  if (!title || !event_date) return c.json({ error: 'タイトルと日付は必須です' }, 400)
-  const db = c.env.DB
-  const code = generateEventCode()
-  const user = c.get('user')
-  const res = await db.prepare(
-    'INSERT INTO events (title, description, event_date, event_code, created_by) VALUES (?,?,?,?,?)'
-  ).bind(title, description || '', event_date, code, user.id).run()
-  const eventId = res.meta.last_row_id as number
-  if (custom_questions && Array.isArray(custom_questions)) {
-    for (let i = 0; i < custom_questions.length; i++) {
-      const q = custom_questions[i]
-      await db.prepare(
-        'INSERT INTO survey_questions (event_id, question_text, question_type, options, sort_order) VALUES (?,?,?,?,?)'
-      ).bind(eventId, q.question_text, q.question_type || 'text', q.options || '', i).run()
-    }
+app.post('/api/init', initAuthMiddleware, async (c) => {
+  const ran = await runMigrations(c.env.DB)
+  await pruneExpired(c.env.DB)
+  await purgeTrash(c.env.DB, c.env)
+  if (ran.length) {
+    await recordAudit(c, 'schema.migrate', { type: 'schema', id: LATEST_SCHEMA_VERSION, label: 'v' + LATEST_SCHEMA_VERSION },
+      undefined, { applied: ran.map(m => m.version) })
   }
-  return c.json({ id: eventId, event_code: code })
-})
-
-app.get('/api/admin/events', authMiddleware, adminMiddleware, async (c) => {
-  const db = c.env.DB
-  const { results: events } = await db.prepare(
-    'SELECT e.*, (SELECT COUNT(*) FROM attendances a WHERE a.event_id = e.id) as attendance_count, (SELECT COUNT(*) FROM survey_answers sa WHERE sa.event_id = e.id) as survey_count FROM events e ORDER BY e.event_date DESC'
-  ).all()
-  return c.json({ events })
+  return c.json({
+    message: ran.length ? 'データベースを更新しました' : 'データベースは最新です',
+    applied: ran.map(m => ({ version: m.version, name: m.name })),
+    schema_version: LATEST_SCHEMA_VERSION
+  })
 })
 
-app.get('/api/admin/events/:id', authMiddleware, adminMiddleware, async (c) => {
-  const id = parseInt(c.req.param('id'))
-  const db = c.env.DB
-  const event = await db.prepare('SELECT * FROM events WHERE id = ?').bind(id).first()
-  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
-  const { results: questions } = await db.prepare(
-    'SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order'
-  ).bind(id).all()
-  const { results: attendances } = await db.prepare(
-    'SELECT a.*, u.name, u.email FROM attendances a JOIN users u ON a.user_id = u.id WHERE a.event_id = ? ORDER BY a.attended_at'
-  ).bind(id).all()
-  const { results: answers } = await db.prepare(
-    'SELECT sa.*, u.name, u.email FROM survey_answers sa JOIN users u ON sa.user_id = u.id WHERE sa.event_id = ?'
-  ).bind(id).all()
-  const { results: customAnswers } = await db.prepare(
-    'SELECT ca.*, u.name FROM custom_answers ca JOIN users u ON ca.user_id = u.id WHERE ca.event_id = ?'
-  ).bind(id).all()
-  return c.json({ event, questions, attendances, answers, customAnswers })
+app.get('/api/admin/migrations', authMiddleware, requirePermission('schema.migrate'), async (c) => {
+  const applied = await appliedMigrations(c.env.DB)
+  const done = new Set(applied.map(m => m.version))
+  return c.json({
+    current_version: applied.length ? Math.max(...applied.map(m => m.version)) : 0,
+    latest_version: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: MIGRATIONS.filter(m => !done.has(m.version)).map(m => ({ version: m.version, name: m.name }))
+  })
 })
 
-app.delete('/api/admin/events/:id', authMiddleware, adminMiddleware, async (c) => {
-  const id = parseInt(c.req.param('id'))
-  const db = c.env.DB
-  await db.prepare('DELETE FROM custom_answers WHERE event_id = ?').bind(id).run()
-  await db.prepare('DELETE FROM survey_answers WHERE event_id = ?').bind(id).run()
-  await db.prepare('DELETE FROM survey_questions WHERE event_id = ?').bind(id).run()
-  await db.prepare('DELETE FROM attendances WHERE event_id = ?').bind(id).run()
-  await db.prepare('DELETE FROM events WHERE id = ?').bind(id).run()
-  return c.json({ success: true })
+// ========== First-run Setup ==========
+// Until an admin exists, /setup creates the schema and the first admin account.
+// It requires the SETUP_TOKEN binding, and is closed for good once an admin exists.
+app.get('/api/setup/status', async (c) => {
+  return c.json({ needs_setup: !(await hasAdmin(c.env.DB)), token_configured: !!c.env.SETUP_TOKEN })
 })
 
-app.get('/api/admin/events/:id/export', authMiddleware, adminMiddleware, async (c) => {
-  const id = parseInt(c.req.param('id'))
+app.post('/api/setup', async (c) => {
   const db = c.env.DB
-  const event = await db.prepare('SELECT * FROM events WHERE id = ?').bind(id).first() as any
-  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
-  const { results: questions } = await db.prepare('SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order').bind(id).all() as any
-  const { results: attendances } = await db.prepare('SELECT a.*, u.name, u.email FROM attendances a JOIN users u ON a.user_id = u.id WHERE a.event_id = ?').bind(id).all() as any
-  const { results: answers } = await db.prepare('SELECT sa.*, u.name, u.email FROM survey_answers sa JOIN users u ON sa.user_id = u.id WHERE sa.event_id = ?').bind(id).all() as any
-  const { results: customAnswers } = await db.prepare('SELECT * FROM custom_answers WHERE event_id = ?').bind(id).all() as any
-  const caMap = new Map<number, Record<number, string>>()
-  for (const ca of customAnswers) {
-    if (!caMap.has(ca.user_id)) caMap.set(ca.user_id, {})
-    caMap.get(ca.user_id)![ca.question_id] = ca.answer_text
+  if (await hasAdmin(db)) {
+    return c.json({ error: 'セットアップは完了しています' }, 409)
   }
-  const ansMap = new Map<number, any>()
-  for (const a of answers) ansMap.set(a.user_id, a)
-  const BOM = '\uFEFF'
-  const headers = ['名前', 'メール', '出席時刻', '満足度', '感想']
-  for (const q of questions) headers.push(q.question_text)
-  let csv = BOM + headers.map((h: string) => `"${h}"`).join(',') + '\n'
-  for (const att of attendances) {
-    const ans = ansMap.get(att.user_id)
-    const ca = caMap.get(att.user_id) || {}
-    const row = [att.name, att.email, att.attended_at, ans ? ans.satisfaction : '', ans ? (ans.comment || '') : '']
-    for (const q of questions) row.push(ca[q.id as number] || '')
-    csv += row.map((v: any) => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\n'
+  if (!c.env.SETUP_TOKEN) {
+    return c.json({ error: 'SETUP_TOKEN が設定されていません' }, 503)
   }
-  return new Response(csv, { headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': `attachment; filename="${event.title}_export.csv"` } })
+  const { setup_token, name, school, email, password } = await c.req.json()
+  if (!setup_token || !timingSafeEqual(String(setup_token), c.env.SETUP_TOKEN)) {
+    return c.json({ error: 'セットアップトークンが正しくありません' }, 403)
+  }
+  if (!name || !email || !password) {
+    return c.json({ error: '名前・メールアドレス・パスワードは必須です' }, 400)
+  }
+  if (String(password).length < 8) {
+    return c.json({ error: '管理者のパスワードは8文字以上にしてください' }, 400)
+  }
+  await runMigrations(db)
+  const existing = await findUserByEmail(db, email)
+  let adminId: number
+  if (existing) {
+    adminId = existing.id as number
+    await db.prepare("UPDATE users SET role = 'admin', password_hash = ?, must_change_password = 0 WHERE id = ?")
+      .bind(await hashPassword(password), adminId).run()
+  } else {
+    const result = await db.prepare('INSERT INTO users (name, email, school, password_hash, role) VALUES (?, ?, ?, ?, ?)')
+      .bind(name, email, school || '', await hashPassword(password), 'admin').run()
+    adminId = result.meta.last_row_id as number
+    if (school) await addSchoolAssignment(db, adminId, school, todayJst(), null)
+  }
+  const org = await db.prepare('SELECT id FROM organizations ORDER BY id LIMIT 1').first() as any
+  await db.prepare(
+    "INSERT INTO memberships (org_id, user_id, role) VALUES (?, ?, 'admin') ON CONFLICT(org_id, user_id) DO UPDATE SET role = 'admin', deleted_at = NULL"
+  ).bind(org.id, adminId).run()
+  await linkMembershipSchools(db, adminId)
+  return c.json({ success: true })
 })
 
-// ========== Attendance & Survey (Member) ==========
-app.get('/api/events/:code', authMiddleware, async (c) => {
-  const code = c.req.param('code')
-  const db = c.env.DB
-  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1').bind(code).first()
-  if (!event) return c.json({ error: 'イベントが見つからないか、受付が終了しています' }, 404)
-  const { results: questions } = await db.prepare('SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order').bind(event.id).all()
-  const user = c.get('user')
-  const attendance = await db.prepare('SELECT * FROM attendances WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).first()
-  const survey = await db.prepare('SELECT * FROM survey_answers WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).first()
-  const { results: myCustom } = await db.prepare('SELECT * FROM custom_answers WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).all()
-  return c.json({ event, questions, attendance, survey, customAnswers: myCustom })
+// ========== Registration Validation ==========
+// Self-registration and the bulk import accept the same member data
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+type MemberFields = { name: string; school: string; email: string }
+
+function memberFieldsError(f: MemberFields): string | null {
+  if (!f.name || !f.school || !f.email) return '名前・学校名・メールアドレスは必須です'
+  if (!EMAIL_PATTERN.test(f.email)) return 'メールアドレスの形式が正しくありません'
+  return null
+}
+
+async function findUserByEmail(db: D1Database, email: string) {
+  return await db.prepare('SELECT id, name FROM users WHERE lower(email) = ?').bind(normalizeEmail(email)).first() as any
+}
+
+// Matches a typed school name against the club's school master (its name or a merged-in spelling).
+// Known schools are stored under their canonical name; anything else is kept as typed and left unlinked.
+async function resolveSchool(db: D1Database, orgId: number, text: string): Promise<{ school_id: number | null; school: string }> {
+  const school = text.trim()
+  const row = await db.prepare(
+    `SELECT id, name FROM schools WHERE org_id = ? AND (name = ? OR id = (SELECT school_id FROM school_aliases WHERE org_id = ? AND alias = ?))`
+  ).bind(orgId, school, orgId, school).first() as any
+  return row ? { school_id: row.id, school: row.name } : { school_id: null, school }
+}
+
+// Re-links each of the member's clubs after they join one or their school changes: the school
+// in each membership's club that the member's school name matches
+async function linkMembershipSchools(db: D1Database, userId: number) {
+  await db.prepare(
+    `UPDATE memberships SET school_id = (SELECT sc.id FROM users u JOIN schools sc ON sc.org_id = memberships.org_id
+      WHERE u.id = memberships.user_id AND (sc.name = TRIM(u.school)
+        OR sc.id = (SELECT sa.school_id FROM school_aliases sa WHERE sa.org_id = memberships.org_id AND sa.alias = TRIM(u.school)))
+      LIMIT 1)
+     WHERE user_id = ?`
+  ).bind(userId).run()
+}
+
+// ========== School History ==========
+// users.school is the current school; school_assignments keeps every move with the date it took
+// effect, and attendances / annual_notes copy the school (and the club's link) when they are written.
+function todayJst(): string {
+  return new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function isPlainDate(v: unknown): v is string {
+  return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(v))
+}
+
+async function addSchoolAssignment(db: D1Database, userId: number, school: string, startedOn: string, actorId: number | null) {
+  await db.prepare('INSERT INTO school_assignments (user_id, school, started_on, created_by) VALUES (?, ?, ?, ?)')
+    .bind(userId, school, startedOn, actorId).run()
+}
+
+// The school a member was at on a date; before the first recorded move, the earliest one known
+async function schoolOn(db: D1Database, userId: number, date: string): Promise<string> {
+  const row = (await db.prepare(
+    'SELECT school FROM school_assignments WHERE user_id = ? AND started_on <= ? ORDER BY started_on DESC, id DESC LIMIT 1'
+  ).bind(userId, date).first() || await db.prepare(
+    'SELECT school FROM school_assignments WHERE user_id = ? ORDER BY started_on, id LIMIT 1'
+  ).bind(userId).first()) as any
+  if (row) return row.school
+  const user = await db.prepare('SELECT school FROM users WHERE id = ?').bind(userId).first() as any
+  return user?.school || ''
+}
+
+// Keeps users.school (and every club's link) in step with the latest assignment after the history is edited
+async function syncCurrentSchool(db: D1Database, userId: number) {
+  const latest = await db.prepare(
+    'SELECT school FROM school_assignments WHERE user_id = ? ORDER BY started_on DESC, id DESC LIMIT 1'
+  ).bind(userId).first() as any
+  if (!latest) return
+  await db.prepare("UPDATE users SET school = ?, updated_at = datetime('now') WHERE id = ?").bind(latest.school, userId).run()
+  await linkMembershipSchools(db, userId)
+}
+
+// The school name for a snapshot row: the master's current name when linked, otherwise the text as typed
+function snapshotSchoolSql(alias: string): string {
+  return `COALESCE((SELECT sc.name FROM schools sc WHERE sc.id = ${alias}.school_id), ${alias}.school, '')`
+}
+
+// A member's school as the club sees it: the master's current name when the membership is linked
+function memberSchoolSql(membership = 'm', user = 'u'): string {
+  return `COALESCE((SELECT sc.name FROM schools sc WHERE sc.id = ${membership}.school_id), ${user}.school, '')`
+}
+
+// The club's name for a school typed as text (an entry of the school history), through its master and merged-in spellings
+function clubSchoolNameSql(text: string, orgId: string): string {
+  return `COALESCE((SELECT sc.name FROM schools sc WHERE sc.org_id = ${orgId} AND (sc.name = TRIM(${text})
+    OR sc.id = (SELECT sa.school_id FROM school_aliases sa WHERE sa.org_id = ${orgId} AND sa.alias = TRIM(${text})))), ${text}, '')`
+}
+
+// ========== Auth API ==========
+// Pass session: 'cookie' to get an HttpOnly session cookie instead of a token in the response body
+app.post('/api/auth/register', async (c) => {
+  const { name, school, email, password, session, org_id, invite_code, invitation } = await c.req.json()
+  if (!name || !school || !email || !password) {
+    return c.json({ error: '名前・学校名・メールアドレス・パスワードは必須です' }, 400)
+  }
+  const fieldsError = memberFieldsError({ name, school, email })
+  if (fieldsError) return c.json({ error: fieldsError }, 400)
+  const db = c.env.DB
+  // An admin's invitation fixes the club and role, an invite code the club; both skip the approval queue
+  const invite = invitation ? await findInvitation(db, invitation) : null
+  if (invitation && !invite) return c.json({ error: INVITATION_INVALID_MESSAGE }, 400)
+  if (invite?.email && normalizeEmail(invite.email) !== normalizeEmail(email)) {
+    return c.json({ error: 'この招待は別のメールアドレス宛てです。招待されたメールアドレスで登録してください' }, 403)
+  }
+  const inviteCode = typeof invite_code === 'string' ? invite_code.trim().toUpperCase() : ''
+  const org = (invite
+    ? await db.prepare('SELECT id, name, require_approval FROM organizations WHERE id = ?').bind(invite.org_id).first()
+    : inviteCode
+      ? await db.prepare('SELECT id, name, require_approval FROM organizations WHERE invite_code = ?').bind(inviteCode).first()
+      : org_id
+        ? await db.prepare('SELECT id, name, require_approval FROM organizations WHERE id = ?').bind(org_id).first()
+        : await db.prepare('SELECT id, name, require_approval FROM organizations ORDER BY id LIMIT 1').first()) as any
+  if (!org) {
+    return c.json({ error: inviteCode ? '招待コードが正しくありません' : '所属するクラブを選んでください' }, 400)
+  }
+  if (password.length < 4) {
+    return c.json({ error: 'パスワードは4文字以上にしてください' }, 400)
+  }
+  if (await findUserByEmail(db, email)) {
+    return c.json({ error: 'このメールアドレスは既に登録されています' }, 400)
+  }
+  const passwordHash = await hashPassword(password)
+  const linked = await resolveSchool(db, org.id, school)
+  const result = await db.prepare(
+    'INSERT INTO users (name, email, school, password_hash, role) VALUES (?, ?, ?, ?, ?)'
+  ).bind(name, email, linked.school, passwordHash, 'member').run()
+
+  const userId = result.meta.last_row_id as number
+  await addSchoolAssignment(db, userId, linked.school, todayJst(), userId)
+  const role: Role = invite && isRole(invite.role) ? invite.role : 'member'
+  const status: MembershipStatus = org.require_approval && !inviteCode && !invite ? 'pending' : 'active'
+  await db.prepare('INSERT INTO memberships (org_id, user_id, role, status, school_id) VALUES (?, ?, ?, ?, ?)')
+    .bind(org.id, userId, role, status, linked.school_id).run()
+  if (invite) await useInvitation(c, invite, { id: userId, name })
+  const token = generateToken()
+  const expiresAt = await setToken(db, token, userId, sessionPolicy(c.env), sessionMeta(c))
+  const userJson = { id: userId, name, school: linked.school, email, role, org_id: org.id, org_name: org.name, status, permissions: rolePermissions(role) }
+
+  if (session === 'cookie') {
+    setSessionCookies(c, token)
+    return c.json({ expires_at: expiresAt, user: userJson })
+  }
+  return c.json({ token, expires_at: expiresAt, user: userJson })
 })
 
-app.post('/api/events/:code/attend', authMiddleware, async (c) => {
-  const code = c.req.param('code')
+app.post('/api/auth/login', async (c) => {
+  const { email, password, session } = await c.req.json()
+  if (!email || !password) {
+    return c.json({ error: 'メールアドレスとパスワードを入力してください' }, 400)
+  }
+  const emailKey = normalizeEmail(email)
+  const ip = c.req.header('CF-Connecting-IP') || ''
+  const wait = Math.max(
+    await loginLockRemaining(c.env.DB, 'email', emailKey),
+    await loginLockRemaining(c.env.DB, 'ip', ip)
+  )
+  if (wait > 0) {
+    c.header('Retry-After', String(Math.ceil(wait / 1000)))
+    return c.json({ error: `ログインの試行回数が多すぎます。${Math.ceil(wait / 60000)}分後にもう一度お試しください` }, 429)
+  }
+  const user = await c.env.DB.prepare(
+    'SELECT id, name, email, school, role, password_hash, must_change_password FROM users WHERE lower(email) = ?'
+  ).bind(emailKey).first() as any
+  const check = user ? await verifyPassword(password, user.password_hash) : { ok: false, needsRehash: false }
+  if (!user || !check.ok) {
+    await recordLoginFailure(c.env.DB, 'email', emailKey)
+    await recordLoginFailure(c.env.DB, 'ip', ip)
+    return c.json({ error: 'メールアドレスまたはパスワードが正しくありません' }, 401)
+  }
+  // Only the account's counter is cleared; the IP keeps counting failures against other accounts
+  await clearLoginFailures(c.env.DB, 'email', emailKey)
+  const membership = await resolveMembership(c.env.DB, user.id, null)
+  if (!membership && await defaultOrgId(c.env.DB)) {
+    return c.json({ error: 'このアカウントは現在利用できません。クラブの管理者にお問い合わせください' }, 403)
+  }
+  // Upgrade legacy / weaker hashes now that we have the plaintext
+  if (check.needsRehash) {
+    await c.env.DB.prepare("UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?")
+      .bind(await hashPassword(password), user.id).run()
+  }
+  const token = generateToken()
+  const expiresAt = await setToken(c.env.DB, token, user.id as number, sessionPolicy(c.env), sessionMeta(c))
+  const role = await effectiveRole(c.env.DB, membership, user.role)
+  const userJson = {
+    id: user.id, name: user.name, school: user.school || '', email: user.email,
+    role, must_change_password: user.must_change_password || 0,
+    org_id: membership?.org_id ?? null, org_name: membership?.org_name || '',
+    status: membershipStatus(membership),
+    permissions: rolePermissions(role)
+  }
+
+  if (session === 'cookie') {
+    setSessionCookies(c, token)
+    return c.json({ expires_at: expiresAt, user: userJson })
+  }
+  return c.json({ token, expires_at: expiresAt, user: userJson })
+})
+
+app.post('/api/auth/forgot', async (c) => {
+  const { email } = await c.req.json()
+  if (!email) {
+    return c.json({ error: 'メールアドレスを入力してください' }, 400)
+  }
+  const emailKey = normalizeEmail(email)
+  const ip = c.req.header('CF-Connecting-IP') || ''
+  const wait = Math.max(
+    await loginLockRemaining(c.env.DB, 'reset_email', emailKey),
+    await loginLockRemaining(c.env.DB, 'reset_ip', ip)
+  )
+  if (wait > 0) {
+    c.header('Retry-After', String(Math.ceil(wait / 1000)))
+    return c.json({ error: `再設定の申請が多すぎます。${Math.ceil(wait / 60000)}分後にもう一度お試しください` }, 429)
+  }
+  // Every request counts, registered address or not, so the limit reveals nothing either
+  await recordLoginFailure(c.env.DB, 'reset_email', emailKey)
+  await recordLoginFailure(c.env.DB, 'reset_ip', ip)
+  if (!mailConfigured(c.env)) {
+    console.error('POST /api/auth/forgot: MAIL_API_URL is not set')
+    return c.json({ error: 'メールを送信できない設定になっています。クラブの管理者にお問い合わせください' }, 503)
+  }
+  const user = await c.env.DB.prepare('SELECT id, name, email FROM users WHERE lower(email) = ?').bind(emailKey).first() as any
+  if (user) {
+    const token = await createPasswordResetToken(c.env.DB, user.id)
+    const link = `${appOrigin(c)}/reset-password?token=${token}`
+    try {
+      await getMailSender(c.env).send({
+        to: user.email,
+        subject: '【社会科同好会】パスワード再設定のご案内',
+        text: `${user.name} さん\n\n以下のリンクから新しいパスワードを設定してください（1時間有効）。\n${link}\n\nお心当たりがない場合は、このメールを破棄してください。`
+      })
+    } catch (e) {
+      console.error(e)
+      return c.json({ error: 'メールの送信に失敗しました。時間をおいて再度お試しください' }, 500)
+    }
+  }
+  // Same answer whether or not the address is registered
+  return c.json({ success: true, message: '登録されているメールアドレスであれば、再設定用のリンクを送信しました' })
+})
+
+app.post('/api/auth/reset', async (c) => {
+  const { token, password } = await c.req.json()
+  if (!token || !password) {
+    return c.json({ error: '新しいパスワードを入力してください' }, 400)
+  }
+  if (password.length < 4) {
+    return c.json({ error: 'パスワードは4文字以上にしてください' }, 400)
+  }
   const db = c.env.DB
-  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1').bind(code).first() as any
-  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  const userId = await findPasswordResetUser(db, token)
+  if (!userId) {
+    return c.json({ error: 'リンクが無効か、有効期限が切れています。もう一度お手続きください' }, 400)
+  }
+  await db.prepare("UPDATE users SET password_hash = ?, must_change_password = 0, updated_at = datetime('now') WHERE id = ?")
+    .bind(await hashPassword(password), userId).run()
+  // Burn every outstanding token for this user and log out existing sessions
+  await db.prepare("UPDATE password_resets SET used_at = datetime('now') WHERE user_id = ? AND used_at IS NULL").bind(userId).run()
+  await revokeSessions(db, userId)
+  // Proving ownership of the mailbox also lifts a lockout on the account
+  const resetUser = await db.prepare('SELECT email FROM users WHERE id = ?').bind(userId).first() as any
+  if (resetUser) await clearLoginFailures(db, 'email', normalizeEmail(resetUser.email))
+  return c.json({ success: true })
+})
+
+app.get('/api/auth/me', authMiddleware, async (c) => {
+  return c.json({ user: c.get('user') })
+})
+
+app.post('/api/auth/refresh', authMiddleware, async (c) => {
+  const token = c.get('sessionToken')
+  const expiresAt = await renewSession(c.env.DB, token, sessionPolicy(c.env))
+  if (!expiresAt) return c.json({ error: 'セッションが無効です。再ログインしてください' }, 401)
+  // Cookie sessions never hand the token to page scripts
+  return c.json(bearerToken(c) ? { token, expires_at: expiresAt } : { expires_at: expiresAt })
+})
+
+// Move an existing Bearer session (e.g. a token left in localStorage) into the session cookie
+app.post('/api/auth/cookie', authMiddleware, async (c) => {
+  if (!bearerToken(c)) return c.json({ error: 'ログインが必要です' }, 401)
+  setSessionCookies(c, c.get('sessionToken'))
+  return c.json({ user: c.get('user') })
+})
+
+app.put('/api/me/profile', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const body = await c.req.json()
+  const name = (body?.name ?? '').toString().trim()
+  const school = (body?.school ?? '').toString().trim()
+  const email = (body?.email ?? '').toString().trim()
+  if (!name || !school || !email) {
+    return c.json({ error: '名前・学校名・メールアドレスは必須です' }, 400)
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return c.json({ error: 'メールアドレスの形式が正しくありません' }, 400)
+  }
+  const db = c.env.DB
+  if (normalizeEmail(email) !== normalizeEmail(user.email)) {
+    const existing = await db.prepare('SELECT id FROM users WHERE lower(email) = ? AND id != ?').bind(normalizeEmail(email), user.id).first()
+    if (existing) {
+      return c.json({ error: 'このメールアドレスは既に登録されています' }, 400)
+    }
+    // Password resets go to this address, so a session alone must not be enough to change it
+    const row = await db.prepare('SELECT password_hash FROM users WHERE id = ?').bind(user.id).first() as any
+    if (!body?.current_password || !row || !(await verifyPassword(String(body.current_password), row.password_hash)).ok) {
+      return c.json({ error: 'メールアドレスを変更するには現在のパスワードを正しく入力してください' }, 400)
+    }
+  }
+  const linked = await resolveSchool(db, user.org_id, school)
+  // A new school is a move dated school_since (default today) unless it only fixes how the name was typed
+  const latest = linked.school === user.school ? null : await db.prepare(
+    'SELECT id, started_on FROM school_assignments WHERE user_id = ? ORDER BY started_on DESC, id DESC LIMIT 1'
+  ).bind(user.id).first() as any
+  const correction = !!body?.school_correction && !!latest
+  const since = body?.school_since ? String(body.school_since) : todayJst()
+  if (linked.school !== user.school && !correction) {
+    if (!isPlainDate(since) || since > todayJst()) return c.json({ error: '異動した日が正しくありません' }, 400)
+    if (latest && since < latest.started_on) {
+      return c.json({ error: `異動した日は前の学校に移った日（${latest.started_on}）より後にしてください` }, 400)
+    }
+  }
+  await db.prepare("UPDATE users SET name = ?, school = ?, email = ?, updated_at = datetime('now') WHERE id = ?")
+    .bind(name, linked.school, email, user.id).run()
+  if (correction) {
+    await db.prepare('UPDATE school_assignments SET school = ? WHERE id = ?').bind(linked.school, latest.id).run()
+  } else if (linked.school !== user.school) {
+    await addSchoolAssignment(db, user.id, linked.school, since, user.id)
+  }
+  if (linked.school !== user.school) await linkMembershipSchools(db, user.id)
+  return c.json({ user: { ...user, name, school: linked.school, email } })
+})
+
+app.get('/api/me/school-history', authMiddleware, async (c) => {
+  const { results: assignments } = await c.env.DB.prepare(
+    `SELECT a.id, a.school, a.started_on FROM school_assignments a
+     WHERE a.user_id = ? ORDER BY a.started_on DESC, a.id DESC`
+  ).bind(c.get('user').id).all()
+  return c.json({ assignments })
+})
+
+app.put('/api/me/password', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const { current_password, new_password } = await c.req.json()
+  if (!current_password || !new_password) {
+    return c.json({ error: '現在のパスワードと新しいパスワードを入力してください' }, 400)
+  }
+  if (new_password.length < 4) {
+    return c.json({ error: 'パスワードは4文字以上にしてください' }, 400)
+  }
+  const db = c.env.DB
+  const row = await db.prepare('SELECT password_hash FROM users WHERE id = ?').bind(user.id).first() as any
+  if (!row || !(await verifyPassword(current_password, row.password_hash)).ok) {
+    return c.json({ error: '現在のパスワードが正しくありません' }, 400)
+  }
+  if (current_password === new_password) {
+    return c.json({ error: '新しいパスワードは現在と異なるものにしてください' }, 400)
+  }
+  await db.prepare("UPDATE users SET password_hash = ?, must_change_password = 0, updated_at = datetime('now') WHERE id = ?")
+    .bind(await hashPassword(new_password), user.id).run()
+  // Other devices have to log in again with the new password
+  await revokeSessions(db, user.id, c.get('sessionToken'))
+  return c.json({ success: true })
+})
+
+app.get('/api/me/sessions', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const current = c.get('sessionToken')
+  const { results } = await c.env.DB.prepare(
+    'SELECT token, id, created_at, last_seen_at, expires_at, user_agent, ip FROM sessions WHERE user_id = ? ORDER BY last_seen_at DESC'
+  ).bind(user.id).all() as any
+  const sessions = (results || []).map((r: any) => ({
+    id: r.id,
+    created_at: r.created_at,
+    last_seen_at: r.last_seen_at,
+    expires_at: r.expires_at,
+    user_agent: r.user_agent || '',
+    ip: r.ip || '',
+    current: r.token === current
+  }))
+  return c.json({ sessions })
+})
+
+app.delete('/api/me/sessions/:id', authMiddleware, async (c) => {
   const user = c.get('user')
-  await db.prepare("INSERT OR IGNORE INTO attendances (event_id, user_id, attended_at) VALUES (?,?,datetime('now'))").bind(event.id, user.id).run()
+  const result = await c.env.DB.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?')
+    .bind(c.req.param('id'), user.id).run()
+  if (!result.meta.changes) return c.json({ error: 'セッションが見つかりません' }, 404)
   return c.json({ success: true })
 })
 
-app.post('/api/events/:code/survey', authMiddleware, async (c) => {
-  const code = c.req.param('code')
+// ========== Organizations API ==========
+// Public: the registration form lets newcomers pick their club
+app.get('/api/organizations', async (c) => {
+  const { results: organizations } = await c.env.DB.prepare('SELECT id, name FROM organizations ORDER BY id').all()
+  return c.json({ organizations })
+})
+
+// Public too: the school picker on the registration and profile forms
+app.get('/api/organizations/:id/schools', async (c) => {
+  const { results: schools } = await c.env.DB.prepare(
+    'SELECT id, name, ward, school_type FROM schools WHERE org_id = ? ORDER BY ward, name'
+  ).bind(c.req.param('id')).all()
+  return c.json({ schools })
+})
+
+app.get('/api/me/organizations', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const { results } = await c.env.DB.prepare(
+    `SELECT o.id, o.name, o.slug, m.role, m.status FROM memberships m JOIN organizations o ON o.id = m.org_id
+     WHERE m.user_id = ? AND m.deleted_at IS NULL ORDER BY m.id`
+  ).bind(user.id).all() as any
+  const organizations = (results || []).map((o: any) => ({ ...o, current: o.id === user.org_id }))
+  return c.json({ organizations })
+})
+
+// Switches the club this session works in
+app.post('/api/me/organization', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const { org_id } = await c.req.json()
+  const orgId = parseInt(org_id)
+  // Pending memberships count here so the member can look at that club's waiting page
+  const membership = await c.env.DB.prepare('SELECT 1 FROM memberships WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL').bind(orgId, user.id).first()
+  if (!membership) {
+    return c.json({ error: 'このクラブには所属していません' }, 403)
+  }
+  await c.env.DB.prepare('UPDATE sessions SET org_id = ? WHERE token = ?').bind(orgId, c.get('sessionToken')).run()
+  return c.json({ success: true })
+})
+
+app.post('/api/admin/organizations', authMiddleware, async (c) => {
+  const user = c.get('user')
+  if (!user.system_admin) {
+    return c.json({ error: 'システム管理者のみクラブを作成できます' }, 403)
+  }
+  const { name, slug } = await c.req.json()
+  if (!name || !slug) return c.json({ error: 'クラブ名と識別子は必須です' }, 400)
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(slug)) {
+    return c.json({ error: '識別子は半角英小文字・数字・ハイフンで入力してください' }, 400)
+  }
   const db = c.env.DB
-  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1').bind(code).first() as any
-  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  if (await db.prepare('SELECT id FROM organizations WHERE slug = ?').bind(slug).first()) {
+    return c.json({ error: 'この識別子はすでに使われています' }, 409)
+  }
+  const result = await db.prepare('INSERT INTO organizations (name, slug) VALUES (?, ?)').bind(name, slug).run()
+  const orgId = result.meta.last_row_id as number
+  // The creator runs the new club until they hand it over
+  await db.prepare("INSERT INTO memberships (org_id, user_id, role) VALUES (?, ?, 'admin')").bind(orgId, user.id).run()
+  await recordAudit(c, 'organization.create', { type: 'organization', id: orgId, label: name }, undefined, { name, slug })
+  return c.json({ success: true, id: orgId })
+})
+
+// ========== Rubric API ==========
+app.get('/api/rubric', async (c) => {
+  const qv = c.req.query('version')
+  if (qv) {
+    const found = await getRubricVersion(c.env.DB, await requestOrgId(c), parseInt(qv))
+    if (!found) return c.json({ error: 'ルーブリックの版が見つかりません' }, 404)
+    return c.json({ version: found.version, rubric: found.definition })
+  }
+  const current = await getCurrentRubric(c.env.DB, await requestOrgId(c))
+  return c.json({ version: current.version, rubric: current.definition })
+})
+
+app.get('/api/admin/rubric/versions', authMiddleware, requirePermission('rubric.manage'), async (c) => {
   const user = c.get('user')
-  const { satisfaction, comment, custom_answers } = await c.req.json()
-  await db.prepare(`INSERT INTO survey_answers (event_id, user_id, satisfaction, comment, answered_at) VALUES (?,?,?,?,datetime('now')) ON CONFLICT(event_id, user_id) DO UPDATE SET satisfaction=excluded.satisfaction, comment=excluded.comment, answered_at=datetime('now')`).bind(event.id, user.id, satisfaction || null, comment || '').run()
-  if (custom_answers && Array.isArray(custom_answers)) {
-    for (const ca of custom_answers) {
-      await db.prepare('INSERT INTO custom_answers (event_id, user_id, question_id, answer_text) VALUES (?,?,?,?) ON CONFLICT(event_id, user_id, question_id) DO UPDATE SET answer_text=excluded.answer_text').bind(event.id, user.id, ca.question_id, ca.answer_text || '').run()
-    }
+  const { results: versions } = await c.env.DB.prepare(
+    `SELECT r.id as version, r.status, r.note, r.created_at, r.published_at, u.name as created_by_name,
+      (SELECT COUNT(*) FROM selections s WHERE s.rubric_version_id = r.id) as selection_count
+     FROM rubric_versions r
+     LEFT JOIN users u ON u.id = r.created_by
+     WHERE r.org_id = ?
+     ORDER BY r.id DESC`
+  ).bind(user.org_id).all()
+  return c.json({ versions })
+})
+
+app.get('/api/admin/rubric/draft', authMiddleware, requirePermission('rubric.manage'), async (c) => {
+  const user = c.get('user')
+  const draft = await c.env.DB.prepare(
+    "SELECT id, definition, note, created_at FROM rubric_versions WHERE org_id = ? AND status = 'draft' ORDER BY id DESC LIMIT 1"
+  ).bind(user.org_id).first() as any
+  if (draft) {
+    return c.json({ draft: true, note: draft.note || '', updated_at: draft.created_at, rubric: JSON.parse(draft.definition) })
+  }
+  const current = await getCurrentRubric(c.env.DB, user.org_id)
+  return c.json({ draft: false, note: '', updated_at: null, rubric: current.definition })
+})
+
+app.put('/api/admin/rubric/draft', authMiddleware, requirePermission('rubric.manage'), async (c) => {
+  const user = c.get('user')
+  const { rubric, note } = await c.req.json()
+  const error = validateRubric(rubric)
+  if (error) return c.json({ error }, 400)
+  const db = c.env.DB
+  const definition = JSON.stringify(rubric)
+  const draft = await db.prepare("SELECT id FROM rubric_versions WHERE org_id = ? AND status = 'draft' LIMIT 1").bind(user.org_id).first() as any
+  if (draft) {
+    await db.prepare(
+      "UPDATE rubric_versions SET definition = ?, note = ?, created_by = ?, created_at = datetime('now') WHERE id = ?"
+    ).bind(definition, note || '', user.id, draft.id).run()
+  } else {
+    await db.prepare(
+      "INSERT INTO rubric_versions (org_id, definition, status, note, created_by) VALUES (?, ?, 'draft', ?, ?)"
+    ).bind(user.org_id, definition, note || '', user.id).run()
   }
+  // The definition itself stays in rubric_versions; the log only notes the edit
+  await recordAudit(c, 'rubric.draft_save', { type: 'rubric', id: draft?.id ?? null, label: note || '' })
   return c.json({ success: true })
 })
 
-// ========== Health ==========
-app.get('/api/health', (c) => c.json({ status: 'ok' }))
+app.delete('/api/admin/rubric/draft', authMiddleware, requirePermission('rubric.manage'), async (c) => {
+  const user = c.get('user')
+  const result = await c.env.DB.prepare("DELETE FROM rubric_versions WHERE org_id = ? AND status = 'draft'").bind(user.org_id).run()
+  if (result.meta.changes) await recordAudit(c, 'rubric.draft_discard', { type: 'rubric' })
+  return c.json({ success: true })
+})
 
-// ========== HTML Pages ==========
+app.post('/api/admin/rubric/publish', authMiddleware, requirePermission('rubric.manage'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const draft = await db.prepare(
+    "SELECT id, definition FROM rubric_versions WHERE org_id = ? AND status = 'draft' ORDER BY id DESC LIMIT 1"
+  ).bind(user.org_id).first() as any
+  if (!draft) return c.json({ error: '公開する下書きがありません' }, 400)
+  const error = validateRubric(JSON.parse(draft.definition))
+  if (error) return c.json({ error }, 400)
+  // Read before publishing; afterwards the draft itself is the current version
+  const previous = await getRubricVersion(db, user.org_id)
+  await db.prepare(
+    "UPDATE rubric_versions SET status = 'published', published_at = datetime('now') WHERE id = ?"
+  ).bind(draft.id).run()
+  await recordAudit(c, 'rubric.publish', { type: 'rubric', id: draft.id, label: '版 ' + draft.id },
+    { version: previous ? previous.version : null }, { version: draft.id })
+  return c.json({ success: true, version: draft.id })
+})
 
-const commonHead = `
-<meta charset="UTF-8">
-<meta name="viewport" content="width=device-width, initial-scale=1.0">
-<link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css" rel="stylesheet">
-<style>
-  @import url('https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;500;700&family=Zen+Maru+Gothic:wght@500;700&display=swap');
-  :root {
-    --bg-color: #fffaf0;
-    --header-line: #d84315;
-    --text-main: #444;
-    --cat-class: #8d6e63;
-    --cat-connect: #66bb6a;
-    --cat-research: #42a5f5;
+// ========== Selections API ==========
+app.get('/api/selections', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const { results } = await c.env.DB.prepare(
+    'SELECT viewpoint, step, memo, rubric_version_id, updated_at FROM selections WHERE org_id = ? AND user_id = ?'
+  ).bind(user.org_id, user.id).all()
+  return c.json({ selections: results })
+})
+
+app.post('/api/selections', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const { viewpoint, step, memo } = await c.req.json()
+
+  const db = c.env.DB
+  const { version, definition: rubric } = await getCurrentRubric(db, user.org_id)
+  if (!viewpoint || !step || step < 1 || step > rubric.steps.length) {
+    return c.json({ error: '不正な選択です' }, 400)
   }
-  * { box-sizing: border-box; }
-  body { font-family: 'Noto Sans JP', sans-serif; color: var(--text-main); background-color: var(--bg-color); padding: 0; margin: 0; line-height: 1.5; }
-</style>`
 
-// --- Login / Register Page ---
-app.get('/login', (c) => {
-  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
-<title>ログイン - 社会科同好会</title>
-<style>
-  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
-  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; }
-  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 22px; text-align: center; margin: 0 0 8px; }
-  .auth-card .sub { text-align: center; color: #888; font-size: 13px; margin-bottom: 28px; }
-  .form-group { margin-bottom: 18px; }
-  .form-group label { display: block; font-weight: 500; margin-bottom: 5px; font-size: 13px; color: #555; }
-  .form-group input { width: 100%; padding: 10px 14px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 15px; font-family: inherit; transition: border-color 0.2s; outline: none; }
-  .form-group input:focus { border-color: var(--header-line); }
-  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; transition: all 0.2s; }
-  .btn-primary { background: var(--header-line); color: #fff; }
-  .btn-primary:hover { background: #bf360c; }
-  .btn-secondary { background: #fff; color: var(--header-line); border: 2px solid var(--header-line); margin-top: 10px; }
-  .btn-secondary:hover { background: #fff3e0; }
-  .tabs { display: flex; margin-bottom: 24px; border-radius: 10px; overflow: hidden; border: 2px solid #e0d6c8; }
-  .tab { flex: 1; padding: 10px; text-align: center; cursor: pointer; font-weight: 700; font-size: 14px; background: #fafafa; color: #999; transition: all 0.2s; }
-  .tab.active { background: var(--header-line); color: #fff; }
-  .error-msg { background: #ffebee; color: #c62828; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
-  .success-msg { background: #e8f5e9; color: #2e7d32; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
-  .logo { text-align: center; margin-bottom: 20px; }
-  .logo span { display: block; font-size: 10px; letter-spacing: 2px; color: #999; }
-  .logo strong { font-family: 'Zen Maru Gothic', sans-serif; font-size: 18px; color: var(--header-line); }
-</style>
-</head><body>
-<div class="auth-container">
-  <div class="auth-card">
-    <div class="logo"><span>NAGOYA SHAKAIKA</span><strong>社会科同好会</strong></div>
-    <div class="tabs">
-      <div class="tab active" onclick="switchTab('login')">ログイン</div>
-      <div class="tab" onclick="switchTab('register')">新規登録</div>
-    </div>
-    <div id="error" class="error-msg"></div>
-    <div id="success" class="success-msg"></div>
+  if (!rubric.viewpoints.some(vp => vp.key === viewpoint)) {
+    return c.json({ error: '不正な視点です' }, 400)
+  }
 
-    <form id="loginForm" onsubmit="return handleLogin(event)">
-      <div class="form-group">
-        <label><i class="fas fa-envelope"></i> メールアドレス</label>
-        <input type="email" id="loginEmail" required placeholder="example@email.com">
-      </div>
-      <div class="form-group">
-        <label><i class="fas fa-lock"></i> パスワード</label>
-        <input type="password" id="loginPassword" required placeholder="パスワードを入力">
-      </div>
-      <button type="submit" class="btn btn-primary"><i class="fas fa-sign-in-alt"></i> ログイン</button>
-    </form>
+  const current = await db.prepare(
+    'SELECT step, memo FROM selections WHERE org_id = ? AND user_id = ? AND viewpoint = ?'
+  ).bind(user.org_id, user.id, viewpoint).first() as any
+
+  // An unchanged re-save keeps the rubric version the step was originally chosen under
+  await db.prepare(`
+    INSERT INTO selections (org_id, user_id, viewpoint, step, memo, rubric_version_id, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(org_id, user_id, viewpoint) DO UPDATE SET
+      rubric_version_id = CASE WHEN selections.step = excluded.step AND COALESCE(selections.memo, '') = excluded.memo
+        THEN selections.rubric_version_id ELSE excluded.rubric_version_id END,
+      step = excluded.step,
+      memo = excluded.memo,
+      updated_at = datetime('now')
+  `).bind(user.org_id, user.id, viewpoint, step, memo || '', version || null).run()
 
-    <form id="registerForm" style="display:none" onsubmit="return handleRegister(event)">
-      <div class="form-group">
-        <label><i class="fas fa-user"></i> お名前</label>
-        <input type="text" id="regName" required placeholder="山田 太郎">
+  // The mypage re-posts every viewpoint on save, so only log actual changes
+  if (!current || current.step !== step || (current.memo || '') !== (memo || '')) {
+    await db.prepare(
+      "INSERT INTO selection_history (org_id, user_id, viewpoint, step, memo, action, rubric_version_id, created_at) VALUES (?, ?, ?, ?, ?, 'save', ?, datetime('now'))"
+    ).bind(user.org_id, user.id, viewpoint, step, memo || '', version || null).run()
+  }
+
+  return c.json({ success: true })
+})
+
+app.delete('/api/selections/:viewpoint', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const viewpoint = c.req.param('viewpoint')
+  const result = await c.env.DB.prepare(
+    'DELETE FROM selections WHERE org_id = ? AND user_id = ? AND viewpoint = ?'
+  ).bind(user.org_id, user.id, viewpoint).run()
+  if (result.meta.changes > 0) {
+    await c.env.DB.prepare(
+      "INSERT INTO selection_history (org_id, user_id, viewpoint, step, memo, action, created_at) VALUES (?, ?, ?, NULL, '', 'delete', datetime('now'))"
+    ).bind(user.org_id, user.id, viewpoint).run()
+  }
+  return c.json({ success: true })
+})
+
+app.get('/api/me/selections/history', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const viewpoint = c.req.query('viewpoint')
+  let sql = 'SELECT viewpoint, step, memo, action, rubric_version_id, created_at FROM selection_history WHERE org_id = ? AND user_id = ?'
+  const params: any[] = [user.org_id, user.id]
+  if (viewpoint) {
+    sql += ' AND viewpoint = ?'
+    params.push(viewpoint)
+  }
+  sql += ' ORDER BY created_at, id'
+  const { results } = await c.env.DB.prepare(sql).bind(...params).all()
+  return c.json({ history: results })
+})
+
+
+// ========== My Annual Notes & History ==========
+function getCurrentFiscalYear(): number {
+  const now = new Date()
+  const y = now.getFullYear()
+  const m = now.getMonth() + 1
+  return m >= 4 ? y : y - 1
+}
+
+app.get('/api/me/annual-notes', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const qfy = c.req.query('fy')
+  const fy = qfy ? parseInt(qfy) : getCurrentFiscalYear()
+  const fiscalYear = Number.isFinite(fy) ? fy : getCurrentFiscalYear()
+
+  const row = await c.env.DB.prepare(
+    'SELECT fiscal_year, goal, reflection, updated_at FROM annual_notes WHERE org_id = ? AND user_id = ? AND fiscal_year = ?'
+  ).bind(user.org_id, user.id, fiscalYear).first() as any
+
+  return c.json({
+    fiscal_year: fiscalYear,
+    goal: row?.goal || '',
+    reflection: row?.reflection || '',
+    updated_at: row?.updated_at || null
+  })
+})
+
+app.post('/api/me/annual-notes', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const body = await c.req.json()
+  const fiscal_year = parseInt(body?.fiscal_year)
+  const goal = (body?.goal ?? '').toString()
+  const reflection = (body?.reflection ?? '').toString()
+
+  if (!Number.isFinite(fiscal_year) || fiscal_year < 2000 || fiscal_year > 3000) {
+    return c.json({ error: '年度が不正です' }, 400)
+  }
+  if (goal.length > 8000 || reflection.length > 8000) {
+    return c.json({ error: '入力が長すぎます（8000文字以内）' }, 400)
+  }
+  // The note keeps the school of its year (as of today for the current year), set when first written
+  const yearEnd = `${fiscal_year + 1}-03-31`
+  const school = await resolveSchool(c.env.DB, user.org_id, await schoolOn(c.env.DB, user.id, yearEnd < todayJst() ? yearEnd : todayJst()))
+
+  await c.env.DB.prepare(`
+    INSERT INTO annual_notes (org_id, user_id, fiscal_year, goal, reflection, updated_at, school, school_id)
+    VALUES (?, ?, ?, ?, ?, datetime('now'), ?, ?)
+    ON CONFLICT(org_id, user_id, fiscal_year) DO UPDATE SET
+      goal = excluded.goal,
+      reflection = excluded.reflection,
+      updated_at = datetime('now')
+  `).bind(user.org_id, user.id, fiscal_year, goal, reflection, school.school, school.school_id).run()
+
+  return c.json({ success: true })
+})
+
+app.get('/api/me/history', authMiddleware, async (c) => {
+  const user = c.get('user')
+  const qfy = c.req.query('fy')
+  const fy = qfy ? parseInt(qfy) : getCurrentFiscalYear()
+  const fiscalYear = Number.isFinite(fy) ? fy : getCurrentFiscalYear()
+  const start = `${fiscalYear}-04-01`
+  const end = `${fiscalYear + 1}-03-31`
+
+  const db = c.env.DB
+  const { results: baseRows } = await db.prepare(
+    `SELECT
+      e.id as event_id,
+      e.title,
+      e.description,
+      e.event_date,
+      e.event_code,
+      a.attended_at,
+      sa.satisfaction,
+      sa.comment,
+      sa.answered_at
+    FROM attendances a
+    JOIN events e ON e.id = a.event_id
+    LEFT JOIN survey_answers sa ON sa.event_id = e.id AND sa.user_id = a.user_id
+    WHERE a.user_id = ? AND e.org_id = ? AND e.deleted_at IS NULL AND e.event_date >= ? AND e.event_date <= ?
+    ORDER BY e.event_date DESC`
+  ).bind(user.id, user.org_id, start, end).all() as any
+
+  const { results: qaRows } = await db.prepare(
+    `SELECT
+      e.id as event_id,
+      q.id as question_id,
+      q.question_text,
+      q.question_type,
+      q.options,
+      q.sort_order,
+      ca.answer_text
+    FROM attendances a
+    JOIN events e ON e.id = a.event_id
+    JOIN survey_questions q ON q.event_id = e.id
+    LEFT JOIN custom_answers ca ON ca.event_id = e.id AND ca.question_id = q.id AND ca.user_id = a.user_id
+    WHERE a.user_id = ? AND e.org_id = ? AND e.deleted_at IS NULL AND e.event_date >= ? AND e.event_date <= ?
+    ORDER BY e.event_date DESC, q.sort_order ASC`
+  ).bind(user.id, user.org_id, start, end).all() as any
+
+  const map = new Map<number, any>()
+  for (const r of (baseRows || [])) {
+    map.set(r.event_id, {
+      event_id: r.event_id,
+      title: r.title,
+      description: r.description || '',
+      event_date: r.event_date,
+      event_code: r.event_code,
+      attended_at: r.attended_at,
+      survey: {
+        satisfaction: r.satisfaction ?? null,
+        comment: r.comment || '',
+        answered_at: r.answered_at ?? null
+      },
+      questions: [] as any[]
+    })
+  }
+  for (const q of (qaRows || [])) {
+    const ev = map.get(q.event_id)
+    if (!ev) continue
+    ev.questions.push({
+      question_id: q.question_id,
+      question_text: q.question_text,
+      question_type: q.question_type,
+      options: q.options || '',
+      answer_text: q.answer_text || ''
+    })
+  }
+
+  return c.json({ fiscal_year: fiscalYear, events: Array.from(map.values()) })
+})
+
+
+// ========== Admin API ==========
+// ========== Member List ==========
+// /api/admin/members pages through the club with keyset cursors. Rows come from member_rows,
+// where progress is how many of the current rubric's viewpoints have a selection (as on the
+// stat cards: complete = all, partial = some, none = zero).
+const MEMBER_PAGE_SIZE = 50
+const MEMBER_PAGE_MAX = 200
+
+const MEMBER_SORTS: Record<string, string> = {
+  created_at: 'created_at',
+  name: 'name',
+  school: 'school',
+  progress: 'progress'
+}
+
+function memberRowsSql(viewpointCount: number): string {
+  const vpList = viewpointCount ? Array(viewpointCount).fill('?').join(', ') : 'NULL'
+  return `WITH member_rows AS (
+    SELECT u.id, u.name, ${memberSchoolSql()} as school, u.email, m.role, m.created_at,
+      (SELECT COUNT(DISTINCT s.viewpoint) FROM selections s
+        WHERE s.user_id = u.id AND s.org_id = m.org_id AND s.viewpoint IN (${vpList})) as progress
+    FROM memberships m JOIN users u ON u.id = m.user_id
+    WHERE m.org_id = ? AND m.deleted_at IS NULL AND m.status = 'active'
+  )`
+}
+
+function memberFilter(c: any, viewpoints: string[]): { where: string; params: any[] } | { error: string } {
+  const clauses: string[] = []
+  const params: any[] = []
+  const q = (c.req.query('q') || '').trim()
+  if (q) {
+    clauses.push('(name LIKE ? OR school LIKE ? OR email LIKE ?)')
+    params.push('%' + q + '%', '%' + q + '%', '%' + q + '%')
+  }
+  const role = c.req.query('role')
+  if (role) {
+    if (!isRole(role)) return { error: '不正な役割です' }
+    clauses.push('role = ?')
+    params.push(role)
+  }
+  const school = c.req.query('school')
+  if (school) {
+    clauses.push('school = ?')
+    params.push(school)
+  }
+  // step=<viewpoint>:<1-4>, repeatable; step 0 means nothing selected for that viewpoint
+  for (const spec of c.req.queries('step') || []) {
+    const [vp, stepStr] = String(spec).split(':')
+    const step = parseInt(stepStr)
+    if (!viewpoints.includes(vp) || !(step >= 0 && step <= 4)) return { error: '不正な絞り込み条件です' }
+    if (step === 0) {
+      clauses.push('NOT EXISTS (SELECT 1 FROM selections s WHERE s.user_id = member_rows.id AND s.org_id = ? AND s.viewpoint = ?)')
+      params.push(c.get('user').org_id, vp)
+    } else {
+      clauses.push('EXISTS (SELECT 1 FROM selections s WHERE s.user_id = member_rows.id AND s.org_id = ? AND s.viewpoint = ? AND s.step = ?)')
+      params.push(c.get('user').org_id, vp, step)
+    }
+  }
+  const status = c.req.query('status')
+  if (status === 'complete') {
+    clauses.push('progress = ?')
+    params.push(viewpoints.length)
+  } else if (status === 'partial') {
+    clauses.push('progress > 0 AND progress < ?')
+    params.push(viewpoints.length)
+  } else if (status === 'none') {
+    clauses.push('progress = 0')
+  } else if (status) {
+    return { error: '不正な絞り込み条件です' }
+  }
+  return { where: clauses.length ? clauses.join(' AND ') : '1 = 1', params }
+}
+
+function encodeCursor(values: unknown[]): string {
+  return btoa(encodeURIComponent(JSON.stringify(values)))
+}
+
+function decodeCursor(cursor: string): unknown[] | null {
+  try {
+    const values = JSON.parse(decodeURIComponent(atob(cursor)))
+    return Array.isArray(values) && values.length === 2 ? values : null
+  } catch (e) {
+    return null
+  }
+}
+
+app.get('/api/admin/members', authMiddleware, requirePermission('members.read'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const { definition: rubric } = await getCurrentRubric(db, user.org_id)
+  const viewpoints = rubric.viewpoints.map((vp) => vp.key)
+  const filter = memberFilter(c, viewpoints)
+  if ('error' in filter) return c.json({ error: filter.error }, 400)
+  const sortKey = c.req.query('sort') || 'created_at'
+  const sort = MEMBER_SORTS[sortKey]
+  if (!sort) return c.json({ error: '不正な並び順です' }, 400)
+  const desc = (c.req.query('order') || (sortKey === 'created_at' ? 'desc' : 'asc')) === 'desc'
+  const limit = Math.min(MEMBER_PAGE_MAX, Math.max(1, parseInt(c.req.query('limit') || '') || MEMBER_PAGE_SIZE))
+  const base = memberRowsSql(viewpoints.length)
+  const baseParams = [...viewpoints, user.org_id]
+
+  // Keyset pagination on (sort column, id) so pages stay stable while members are added
+  let where = filter.where
+  const params = [...filter.params]
+  const cursorParam = c.req.query('cursor')
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam)
+    if (!cursor) return c.json({ error: '不正なカーソルです' }, 400)
+    const op = desc ? '<' : '>'
+    where += ` AND (${sort} ${op} ? OR (${sort} = ? AND id ${op} ?))`
+    params.push(cursor[0], cursor[0], cursor[1])
+  }
+  const dir = desc ? 'DESC' : 'ASC'
+  const { results: rows } = await db.prepare(
+    `${base}
+     SELECT member_rows.*,
+      (SELECT json_group_object(s.viewpoint, json_object('step', s.step, 'memo', COALESCE(s.memo, '')))
+        FROM selections s WHERE s.user_id = member_rows.id AND s.org_id = ?) as selections_json
+     FROM member_rows WHERE ${where}
+     ORDER BY ${sort} ${dir}, id ${dir} LIMIT ?`
+  ).bind(...baseParams, user.org_id, ...params, limit + 1).all() as any
+  const page = (rows || []).slice(0, limit)
+  const last = page[page.length - 1]
+  const nextCursor = rows.length > limit ? encodeCursor([last[sort], last.id]) : null
+
+  const matched = await db.prepare(`${base} SELECT COUNT(*) as n FROM member_rows WHERE ${filter.where}`)
+    .bind(...baseParams, ...filter.params).first() as any
+  // Stat cards cover the whole club regardless of filters; admins are not counted
+  const stats = await db.prepare(
+    `${base} SELECT COUNT(*) as total,
+      COALESCE(SUM(progress = ?), 0) as complete,
+      COALESCE(SUM(progress > 0 AND progress < ?), 0) as partial,
+      COALESCE(SUM(progress = 0), 0) as none
+     FROM member_rows WHERE role != 'admin'`
+  ).bind(...baseParams, viewpoints.length, viewpoints.length).first()
+  const { results: schools } = await db.prepare(
+    `${base} SELECT school, COUNT(*) as count FROM member_rows WHERE school != '' GROUP BY school ORDER BY school`
+  ).bind(...baseParams).all()
+
+  // Selections arrive as one JSON object per member, so memos may contain any characters
+  const members = page.map((m: any) => {
+    const selections: Record<string, { step: number; memo: string }> = m.selections_json ? JSON.parse(m.selections_json) : {}
+    return {
+      id: m.id,
+      name: m.name,
+      school: m.school,
+      email: m.email,
+      role: m.role,
+      created_at: m.created_at,
+      progress: m.progress,
+      selections
+    }
+  })
+
+  return c.json({ members, next_cursor: nextCursor, total: matched.n, stats, schools })
+})
+
+// Club admins can only act on members of the club they are currently working in
+async function isOrgMember(db: D1Database, orgId: number | null, userId: number): Promise<boolean> {
+  return !!(await db.prepare("SELECT 1 FROM memberships WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL AND status = 'active'").bind(orgId, userId).first())
+}
+
+// Member as seen by this club, for audit snapshots
+async function memberSnapshot(db: D1Database, orgId: number | null, userId: number) {
+  return await db.prepare(
+    `SELECT u.id, u.name, u.email, ${memberSchoolSql()} as school, m.role FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.user_id = ? AND m.deleted_at IS NULL AND m.status = 'active'`
+  ).bind(orgId, userId).first() as any
+}
+
+// Actions on the account itself (password, sessions, school history) reach beyond this club, so they
+// are refused for system admins and, unless a system admin acts, for people who are in another club too
+async function accountActionError(c: any, userId: number): Promise<string | null> {
+  const db = c.env.DB
+  const target = await db.prepare('SELECT role FROM users WHERE id = ?').bind(userId).first() as any
+  if (target?.role === 'admin') return 'システム管理者のアカウントはここからは操作できません'
+  if (c.get('user').system_admin) return null
+  const other = await db.prepare('SELECT 1 FROM memberships WHERE user_id = ? AND org_id != ? LIMIT 1').bind(userId, c.get('user').org_id).first()
+  return other ? '他のクラブにも所属している会員のアカウントはここからは操作できません' : null
+}
+
+app.post('/api/admin/members', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  const { email, role } = await c.req.json()
+  if (!email) return c.json({ error: 'メールアドレスは必須です' }, 400)
+  if (role && !isRole(role)) {
+    return c.json({ error: '不正な役割です' }, 400)
+  }
+  const db = c.env.DB
+  const target = await db.prepare('SELECT id, name, email FROM users WHERE lower(email) = ?').bind(normalizeEmail(email)).first() as any
+  if (!target) return c.json({ error: 'このメールアドレスの登録者が見つかりません' }, 404)
+  if (await isOrgMember(db, user.org_id, target.id)) {
+    return c.json({ error: 'すでにこのクラブの会員です' }, 409)
+  }
+  const existing = await db.prepare('SELECT status FROM memberships WHERE org_id = ? AND user_id = ?').bind(user.org_id, target.id).first() as any
+  if (existing?.status === 'pending') {
+    return c.json({ error: 'この方の登録は承認待ちです。承認待ちの一覧から承認してください' }, 409)
+  }
+  if (existing) {
+    return c.json({ error: 'この会員はゴミ箱にあります。ゴミ箱から復元してください' }, 409)
+  }
+  // The account joins only when its owner accepts, so the club gets no say over it before then
+  const invitation = await createInvitation(c, { email: target.email, school: '', role: role || 'member', days: INVITATION_DEFAULT_DAYS })
+  const mailed = await mailInvitation(c, target.email, target.name, invitation.url, INVITATION_DEFAULT_DAYS)
+  return c.json({ success: true, invited: true, mailed, url: invitation.url, expires_at: invitation.expires_at })
+})
+
+app.put('/api/admin/members/:id/role', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const { role } = await c.req.json()
+  if (!isRole(role)) {
+    return c.json({ error: '不正な役割です' }, 400)
+  }
+  const before = await memberSnapshot(c.env.DB, user.org_id, id)
+  if (!before) return c.json({ error: '会員が見つかりません' }, 404)
+  await c.env.DB.prepare('UPDATE memberships SET role = ? WHERE org_id = ? AND user_id = ?').bind(role, user.org_id, id).run()
+  // Force a fresh login so the new permissions apply everywhere at once
+  await revokeSessions(c.env.DB, id)
+  await recordAudit(c, 'member.role', { type: 'member', id, label: before.name }, { role: before.role }, { role })
+  return c.json({ success: true })
+})
+
+app.post('/api/admin/members/:id/reset-password', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const { mode } = await c.req.json()
+  const db = c.env.DB
+  const target = await db.prepare('SELECT id, name, email FROM users WHERE id = ?').bind(id).first() as any
+  if (!target || !(await isOrgMember(db, c.get('user').org_id, id))) return c.json({ error: '会員が見つかりません' }, 404)
+  const refused = await accountActionError(c, id)
+  if (refused) return c.json({ error: refused }, 403)
+
+  if (mode === 'temporary') {
+    const temporaryPassword = generateTemporaryPassword()
+    await db.prepare("UPDATE users SET password_hash = ?, must_change_password = 1, updated_at = datetime('now') WHERE id = ?")
+      .bind(await hashPassword(temporaryPassword), id).run()
+    await revokeSessions(db, id)
+    await recordAudit(c, 'member.reset_password', { type: 'member', id, label: target.name }, undefined, { mode })
+    return c.json({ success: true, temporary_password: temporaryPassword })
+  }
+  if (mode === 'link') {
+    const token = await createPasswordResetToken(db, id, ADMIN_RESET_TOKEN_TTL_MS)
+    await db.prepare("UPDATE users SET must_change_password = 1, updated_at = datetime('now') WHERE id = ?").bind(id).run()
+    await recordAudit(c, 'member.reset_password', { type: 'member', id, label: target.name }, undefined, { mode })
+    return c.json({ success: true, reset_url: `${appOrigin(c)}/reset-password?token=${token}` })
+  }
+  return c.json({ error: '不正な指定です' }, 400)
+})
+
+// Club admins see and clear only their own members' email locks; IP locks and everyone else's are
+// left to system admins
+const CLUB_LOCKOUT_SQL = `scope = 'email' AND key IN (
+  SELECT lower(u.email) FROM memberships m JOIN users u ON u.id = m.user_id WHERE m.org_id = ?)`
+
+app.get('/api/admin/lockouts', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  const { results } = await c.env.DB.prepare(
+    `SELECT scope, key, failures, last_failed_at, locked_until FROM login_throttle
+     WHERE locked_until > ? AND scope IN ('email', 'ip')${user.system_admin ? '' : ` AND ${CLUB_LOCKOUT_SQL}`} ORDER BY locked_until DESC`
+  ).bind(new Date().toISOString(), ...(user.system_admin ? [] : [user.org_id])).all() as any
+  const rows = results || []
+  // Attach member names to email locks
+  const users = new Map<string, any>()
+  for (const r of rows) {
+    if (r.scope !== 'email' || users.has(r.key)) continue
+    const u = await c.env.DB.prepare('SELECT id, name FROM users WHERE lower(email) = ?').bind(r.key).first()
+    users.set(r.key, u || null)
+  }
+  const lockouts = rows.map((r: any) => {
+    const u = r.scope === 'email' ? users.get(r.key) : null
+    return { ...r, user_id: u?.id ?? null, user_name: u?.name ?? null }
+  })
+  return c.json({ lockouts })
+})
+
+app.delete('/api/admin/lockouts', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const scope = c.req.query('scope')
+  const key = c.req.query('key') || ''
+  if (scope !== 'email' && scope !== 'ip') {
+    return c.json({ error: '不正な種別です' }, 400)
+  }
+  const user = c.get('user')
+  const before = await c.env.DB.prepare(
+    `SELECT failures, locked_until FROM login_throttle WHERE scope = ? AND key = ?${user.system_admin ? '' : ` AND ${CLUB_LOCKOUT_SQL}`}`
+  ).bind(scope, key, ...(user.system_admin ? [] : [user.org_id])).first()
+  if (!before) return c.json({ error: 'ロックが見つかりません' }, 404)
+  await clearLoginFailures(c.env.DB, scope, key)
+  await recordAudit(c, 'lockout.clear', { type: 'lockout_' + scope, id: key, label: key }, before)
+  return c.json({ success: true })
+})
+
+app.post('/api/admin/members/:id/logout-all', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const target = await memberSnapshot(c.env.DB, c.get('user').org_id, id)
+  if (!target) return c.json({ error: '会員が見つかりません' }, 404)
+  const refused = await accountActionError(c, id)
+  if (refused) return c.json({ error: refused }, 403)
+  await revokeSessions(c.env.DB, id)
+  await recordAudit(c, 'member.logout_all', { type: 'member', id, label: target.name })
+  return c.json({ success: true })
+})
+
+app.get('/api/admin/members/:id/school-history', authMiddleware, requirePermission('members.read'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  if (!(await memberSnapshot(db, c.get('user').org_id, id))) return c.json({ error: '会員が見つかりません' }, 404)
+  const { results: assignments } = await db.prepare(
+    `SELECT a.id, a.school, a.started_on, a.created_at, u.name as created_by_name
+     FROM school_assignments a LEFT JOIN users u ON u.id = a.created_by
+     WHERE a.user_id = ? ORDER BY a.started_on DESC, a.id DESC`
+  ).bind(id).all()
+  return c.json({ assignments })
+})
+
+// Records a move an admin knows about (possibly back-dated); the latest entry becomes the current school
+app.post('/api/admin/members/:id/school-history', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const db = c.env.DB
+  const target = await memberSnapshot(db, user.org_id, id)
+  if (!target) return c.json({ error: '会員が見つかりません' }, 404)
+  const refused = await accountActionError(c, id)
+  if (refused) return c.json({ error: refused }, 403)
+  const body = await c.req.json()
+  const school = (body?.school ?? '').toString().trim()
+  const startedOn = body?.started_on
+  if (!school) return c.json({ error: '学校名は必須です' }, 400)
+  if (!isPlainDate(startedOn) || startedOn > todayJst()) return c.json({ error: '異動した日が正しくありません' }, 400)
+  const linked = await resolveSchool(db, user.org_id, school)
+  await addSchoolAssignment(db, id, linked.school, startedOn, user.id)
+  await syncCurrentSchool(db, id)
+  await recordAudit(c, 'member.school_history', { type: 'member', id, label: target.name }, undefined, { school: linked.school, started_on: startedOn })
+  return c.json({ success: true })
+})
+
+app.delete('/api/admin/members/:id/school-history/:entryId', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const db = c.env.DB
+  const target = await memberSnapshot(db, user.org_id, id)
+  if (!target) return c.json({ error: '会員が見つかりません' }, 404)
+  const refused = await accountActionError(c, id)
+  if (refused) return c.json({ error: refused }, 403)
+  const entry = await db.prepare('SELECT id, school, started_on FROM school_assignments WHERE id = ? AND user_id = ?')
+    .bind(c.req.param('entryId'), id).first() as any
+  if (!entry) return c.json({ error: '履歴が見つかりません' }, 404)
+  const count = await db.prepare('SELECT COUNT(*) as n FROM school_assignments WHERE user_id = ?').bind(id).first() as any
+  if (count.n <= 1) return c.json({ error: '最後の1件は削除できません' }, 400)
+  await db.prepare('DELETE FROM school_assignments WHERE id = ?').bind(entry.id).run()
+  await syncCurrentSchool(db, id)
+  await recordAudit(c, 'member.school_history', { type: 'member', id, label: target.name }, { school: entry.school, started_on: entry.started_on })
+  return c.json({ success: true })
+})
+
+app.delete('/api/admin/members/:id', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  if (user.id === id) {
+    return c.json({ error: '自分自身は削除できません' }, 400)
+  }
+  // Moves the member to this club's trash; their records stay until the retention period ends
+  const db = c.env.DB
+  const before = await memberSnapshot(db, user.org_id, id)
+  if (!before) return c.json({ error: '会員が見つかりません' }, 404)
+  await db.prepare("UPDATE memberships SET deleted_at = datetime('now'), deleted_by = ? WHERE org_id = ? AND user_id = ?")
+    .bind(user.id, user.org_id, id).run()
+  // Sessions are useless once the member belongs to no active club
+  if (!(await resolveMembership(db, id, null))) await revokeSessions(db, id)
+  await recordAudit(c, 'member.delete', { type: 'member', id, label: before.name }, before)
+  await sweepTrash(db, c.env)
+  return c.json({ success: true })
+})
+
+app.get('/api/admin/members/trash', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  const { results: members } = await c.env.DB.prepare(
+    `SELECT u.id, u.name, ${memberSchoolSql()} as school, u.email, m.role, m.deleted_at, d.name as deleted_by_name,
+      datetime(m.deleted_at, '+' || ? || ' days') as purge_at
+     FROM memberships m JOIN users u ON u.id = m.user_id LEFT JOIN users d ON d.id = m.deleted_by
+     WHERE m.org_id = ? AND m.deleted_at IS NOT NULL ORDER BY m.deleted_at DESC`
+  ).bind(trashRetentionDays(c.env), user.org_id).all()
+  return c.json({ members, retention_days: trashRetentionDays(c.env) })
+})
+
+app.post('/api/admin/members/:id/restore', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const result = await c.env.DB.prepare(
+    'UPDATE memberships SET deleted_at = NULL, deleted_by = NULL WHERE org_id = ? AND user_id = ? AND deleted_at IS NOT NULL'
+  ).bind(user.org_id, id).run()
+  if (!result.meta.changes) return c.json({ error: 'ゴミ箱に見つかりません' }, 404)
+  const restored = await memberSnapshot(c.env.DB, user.org_id, id)
+  await recordAudit(c, 'member.restore', { type: 'member', id, label: restored.name }, undefined, restored)
+  return c.json({ success: true })
+})
+
+// Empties one member out of the trash without waiting for the retention period
+app.delete('/api/admin/members/:id/purge', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const db = c.env.DB
+  const target = await db.prepare(
+    `SELECT u.id, u.name, u.email, m.role FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.user_id = ? AND m.deleted_at IS NOT NULL`
+  ).bind(user.org_id, id).first() as any
+  if (!target) return c.json({ error: 'ゴミ箱に見つかりません' }, 404)
+  const after = await purgeMember(db, user.org_id as number, id)
+  await recordAudit(c, 'member.purge', { type: 'member', id, label: target.name }, target, after)
+  return c.json({ success: true })
+})
+
+// ========== Registration Approval ==========
+async function pendingMember(db: D1Database, orgId: number | null, userId: number) {
+  return await db.prepare(
+    `SELECT u.id, u.name, u.email, u.school, m.created_at FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.user_id = ? AND m.status = 'pending' AND m.deleted_at IS NULL`
+  ).bind(orgId, userId).first() as any
+}
+
+app.get('/api/admin/members/pending', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const { results: members } = await c.env.DB.prepare(
+    `SELECT u.id, u.name, u.school, u.email, m.created_at FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.status = 'pending' AND m.deleted_at IS NULL ORDER BY m.created_at`
+  ).bind(c.get('user').org_id).all()
+  return c.json({ members })
+})
+
+app.post('/api/admin/members/:id/approve', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const target = await pendingMember(c.env.DB, user.org_id, id)
+  if (!target) return c.json({ error: '承認待ちの登録が見つかりません' }, 404)
+  await c.env.DB.prepare("UPDATE memberships SET status = 'active' WHERE org_id = ? AND user_id = ?").bind(user.org_id, id).run()
+  await recordAudit(c, 'member.approve', { type: 'member', id, label: target.name }, target)
+  return c.json({ success: true })
+})
+
+// A rejected registration leaves nothing behind; the account goes too unless another club has it
+app.post('/api/admin/members/:id/reject', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+  const db = c.env.DB
+  const target = await pendingMember(db, user.org_id, id)
+  if (!target) return c.json({ error: '承認待ちの登録が見つかりません' }, 404)
+  const after = await purgeMember(db, user.org_id as number, id)
+  if (after.account_deleted) await revokeSessions(db, id)
+  await recordAudit(c, 'member.reject', { type: 'member', id, label: target.name }, target, after)
+  return c.json({ success: true })
+})
+
+app.get('/api/admin/registration', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const org = await c.env.DB.prepare('SELECT require_approval, invite_code FROM organizations WHERE id = ?').bind(c.get('user').org_id).first() as any
+  if (!org) return c.json({ error: 'クラブが見つかりません' }, 404)
+  return c.json({ require_approval: !!org.require_approval, invite_code: org.invite_code || null })
+})
+
+app.put('/api/admin/registration', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const { require_approval } = await c.req.json()
+  if (typeof require_approval !== 'boolean') return c.json({ error: 'require_approval は true か false で指定してください' }, 400)
+  const user = c.get('user')
+  const before = await c.env.DB.prepare('SELECT require_approval FROM organizations WHERE id = ?').bind(user.org_id).first() as any
+  await c.env.DB.prepare('UPDATE organizations SET require_approval = ? WHERE id = ?').bind(require_approval ? 1 : 0, user.org_id).run()
+  await recordAudit(c, 'registration.settings', { type: 'organization', id: user.org_id, label: user.org_name },
+    { require_approval: !!before?.require_approval }, { require_approval })
+  return c.json({ success: true })
+})
+
+// Issues a new invite code (the old one stops working)
+app.post('/api/admin/registration/invite-code', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  const code = generateShortCode()
+  await c.env.DB.prepare('UPDATE organizations SET invite_code = ? WHERE id = ?').bind(code, user.org_id).run()
+  await recordAudit(c, 'registration.invite_code', { type: 'organization', id: user.org_id, label: user.org_name }, undefined, { enabled: true })
+  return c.json({ invite_code: code })
+})
+
+app.delete('/api/admin/registration/invite-code', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  await c.env.DB.prepare('UPDATE organizations SET invite_code = NULL WHERE id = ?').bind(user.org_id).run()
+  await recordAudit(c, 'registration.invite_code', { type: 'organization', id: user.org_id, label: user.org_name }, undefined, { enabled: false })
+  return c.json({ success: true })
+})
+
+// ========== Invitations ==========
+// Single-use links an admin hands to a new member. They fix the club and role and pre-fill the
+// school (and address). As with reset tokens, only the SHA-256 of the token is stored.
+const INVITATION_DEFAULT_DAYS = 14
+const INVITATION_MAX_DAYS = 90
+const INVITATION_INVALID_MESSAGE = '招待リンクが無効か、有効期限が切れています'
+
+// The invitation when the token is valid, unused and unexpired
+async function findInvitation(db: D1Database, token: unknown) {
+  const row = await db.prepare(
+    'SELECT i.*, o.name as org_name FROM invitations i JOIN organizations o ON o.id = i.org_id WHERE i.token_hash = ?'
+  ).bind(await sha256Hex(String(token))).first() as any
+  if (!row || row.used_at) return null
+  if (new Date(row.expires_at) < new Date()) return null
+  return row
+}
+
+async function useInvitation(c: any, invite: any, member: { id: number; name: string }) {
+  await c.env.DB.prepare("UPDATE invitations SET used_at = datetime('now'), used_by = ? WHERE id = ?").bind(member.id, invite.id).run()
+  await insertAudit(c.env.DB, {
+    orgId: invite.org_id, actorId: member.id, actorName: member.name, ip: sessionMeta(c).ip,
+    action: 'invitation.accept', target: { type: 'invitation', id: invite.id, label: member.name }, after: { role: invite.role }
+  })
+}
+
+type InvitationFields = { email: string; school: string; role: Role; days: number }
+
+// The insert is returned unrun so the bulk import can write it in its own batch
+async function prepareInvitation(c: any, fields: InvitationFields) {
+  const user = c.get('user')
+  const token = generateToken()
+  const expiresAt = new Date(Date.now() + fields.days * 24 * 60 * 60 * 1000).toISOString()
+  const statement = c.env.DB.prepare(
+    'INSERT INTO invitations (org_id, token_hash, email, school, role, expires_at, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).bind(user.org_id, await sha256Hex(token), fields.email, fields.school, fields.role, expiresAt, user.id) as D1PreparedStatement
+  return { statement, url: `${appOrigin(c)}/login?invitation=${token}`, expires_at: expiresAt }
+}
+
+// Stores a new invitation for the current club; the link is only available from the return value
+async function createInvitation(c: any, fields: InvitationFields) {
+  const { statement, url, expires_at } = await prepareInvitation(c, fields)
+  const id = (await statement.run()).meta.last_row_id as number
+  await recordAudit(c, 'invitation.create', { type: 'invitation', id, label: fields.email || fields.school }, undefined,
+    { email: fields.email, school: fields.school, role: fields.role, expires_at })
+  return { id, url, expires_at }
+}
+
+// Existing accounts only ever join a club by accepting an invitation themselves
+function invitationMail(c: any, to: string, name: string, url: string, days: number): MailMessage {
+  return {
+    to,
+    subject: `【社会科同好会】${c.get('user').org_name}への招待`,
+    text: `${name} さん\n\n${c.get('user').org_name}から会員として招待されています。以下のリンクを開き、お持ちのアカウントでログインして参加してください（${days}日間有効）。\n${url}\n\n心当たりがない場合は、このメールは無視してください。`
+  }
+}
+
+async function mailInvitation(c: any, to: string, name: string, url: string, days: number): Promise<boolean> {
+  try {
+    await getMailSender(c.env).send(invitationMail(c, to, name, url, days))
+    return true
+  } catch (e) {
+    console.error(e)
+    return false
+  }
+}
+
+app.get('/api/admin/invitations', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const { results } = await c.env.DB.prepare(
+    `SELECT i.id, i.email, i.school, i.role, i.expires_at, i.created_at, i.used_at,
+      cb.name as created_by_name, ub.name as used_by_name
+     FROM invitations i LEFT JOIN users cb ON cb.id = i.created_by LEFT JOIN users ub ON ub.id = i.used_by
+     WHERE i.org_id = ? ORDER BY i.id DESC LIMIT 100`
+  ).bind(c.get('user').org_id).all() as any
+  const now = new Date()
+  const invitations = (results || []).map((i: any) => ({
+    ...i,
+    status: i.used_at ? 'used' : new Date(i.expires_at) < now ? 'expired' : 'open'
+  }))
+  return c.json({ invitations })
+})
+
+// The link is only returned here; afterwards the token cannot be recovered
+app.post('/api/admin/invitations', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const body = await c.req.json()
+  const school = (body?.school ?? '').toString().trim()
+  const email = (body?.email ?? '').toString().trim()
+  const role = body?.role || 'member'
+  const days = body?.expires_in_days === undefined ? INVITATION_DEFAULT_DAYS : parseInt(body.expires_in_days)
+  if (!isRole(role)) return c.json({ error: '不正な役割です' }, 400)
+  if (!(days >= 1 && days <= INVITATION_MAX_DAYS)) {
+    return c.json({ error: `有効期限は1〜${INVITATION_MAX_DAYS}日で指定してください` }, 400)
+  }
+  if (email && !EMAIL_PATTERN.test(email)) return c.json({ error: 'メールアドレスの形式が正しくありません' }, 400)
+  return c.json(await createInvitation(c, { email, school, role, days }))
+})
+
+app.delete('/api/admin/invitations/:id', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  const invite = await db.prepare(
+    'SELECT id, email, school, role, expires_at FROM invitations WHERE id = ? AND org_id = ? AND used_at IS NULL'
+  ).bind(id, c.get('user').org_id).first() as any
+  if (!invite) return c.json({ error: '取り消せる招待が見つかりません' }, 404)
+  await db.prepare('DELETE FROM invitations WHERE id = ?').bind(id).run()
+  await recordAudit(c, 'invitation.revoke', { type: 'invitation', id, label: invite.email || invite.school }, invite)
+  return c.json({ success: true })
+})
+
+// Public: what the invitation offers, for the registration form
+app.get('/api/invitations/:token', async (c) => {
+  const invite = await findInvitation(c.env.DB, c.req.param('token'))
+  if (!invite) return c.json({ error: INVITATION_INVALID_MESSAGE }, 404)
+  return c.json({
+    org_id: invite.org_id, org_name: invite.org_name, school: invite.school, email: invite.email,
+    role: invite.role, role_label: ROLE_LABELS[invite.role as Role] || invite.role, expires_at: invite.expires_at
+  })
+})
+
+// Joins the invitation's club with the signed-in account (for people who already have one)
+app.post('/api/invitations/:token/accept', authMiddleware, async (c) => {
+  const db = c.env.DB
+  const user = c.get('user')
+  const invite = await findInvitation(db, c.req.param('token'))
+  if (!invite) return c.json({ error: INVITATION_INVALID_MESSAGE }, 404)
+  if (invite.email && normalizeEmail(invite.email) !== normalizeEmail(user.email)) {
+    return c.json({ error: 'この招待は別のメールアドレス宛てです。招待されたアカウントでログインしてください' }, 403)
+  }
+  const existing = await db.prepare('SELECT status, deleted_at FROM memberships WHERE org_id = ? AND user_id = ?').bind(invite.org_id, user.id).first() as any
+  if (existing?.deleted_at) {
+    return c.json({ error: 'このクラブではゴミ箱に移動されています。クラブの管理者にお問い合わせください' }, 409)
+  }
+  if (existing?.status === 'active') return c.json({ error: 'すでにこのクラブの会員です' }, 409)
+  if (existing) {
+    await db.prepare("UPDATE memberships SET status = 'active', role = ? WHERE org_id = ? AND user_id = ?").bind(invite.role, invite.org_id, user.id).run()
+  } else {
+    await db.prepare("INSERT INTO memberships (org_id, user_id, role, status) VALUES (?, ?, ?, 'active')").bind(invite.org_id, user.id, invite.role).run()
+    await linkMembershipSchools(db, user.id)
+  }
+  await useInvitation(c, invite, user)
+  await db.prepare('UPDATE sessions SET org_id = ? WHERE token = ?').bind(invite.org_id, c.get('sessionToken')).run()
+  return c.json({ success: true, org_id: invite.org_id, org_name: invite.org_name })
+})
+
+// ========== Bulk Import ==========
+// Rosters are CSV or TSV (pasted, or a file read by the admin page) with 名前・学校名・メール
+// columns. The header row is optional. A dry run reports every row; the real run only goes
+// ahead when no row has an error and writes the whole roster in one batch, so a roster is
+// never half imported.
+const IMPORT_MAX_ROWS = 500
+// Welcome links for imported accounts, which start without a password
+const IMPORT_WELCOME_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+const IMPORT_HEADERS: Record<string, keyof MemberFields> = {
+  '名前': 'name', '氏名': 'name', 'name': 'name',
+  '学校名': 'school', '学校': 'school', 'school': 'school',
+  'メール': 'email', 'メールアドレス': 'email', 'email': 'email'
+}
+
+// RFC 4180-style: quoted cells may contain the delimiter, doubled quotes and newlines
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"' && cell === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      record.push(cell); cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      record.push(cell); records.push(record); record = []; cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || record.length) { record.push(cell); records.push(record) }
+  return records
+}
+
+// Existing accounts are sent an invitation rather than added, as with POST /api/admin/members
+type ImportRow = MemberFields & { row: number; action: 'create' | 'invite' | null; errors: string[] }
+
+function parseRoster(text: string): ImportRow[] {
+  const body = text.replace(/^\uFEFF/, '')
+  const firstLine = body.split(/\r?\n/, 1)[0]
+  const records = parseDelimited(body, firstLine.includes('\t') ? '\t' : ',')
+    .map((cells, i) => ({ line: i + 1, cells: cells.map((v) => v.trim()) }))
+    .filter((r) => r.cells.some((v) => v !== ''))
+  let columns: (keyof MemberFields | undefined)[] = ['name', 'school', 'email']
+  const header = records[0]?.cells.map((v) => IMPORT_HEADERS[v.toLowerCase()])
+  if (header && header.includes('name') && header.includes('school') && header.includes('email')) {
+    columns = header
+    records.shift()
+  }
+  return records.map(({ line, cells }) => {
+    const fields: MemberFields = { name: '', school: '', email: '' }
+    columns.forEach((key, i) => { if (key) fields[key] = cells[i] || '' })
+    return { row: line, ...fields, action: null, errors: [] }
+  })
+}
+
+// Fills in action/errors for each row against the club as it is now
+async function checkRoster(db: D1Database, orgId: number | null, rows: ImportRow[]) {
+  const seen = new Map<string, number>()
+  for (const r of rows) {
+    const fieldsError = memberFieldsError(r)
+    if (fieldsError) { r.errors.push(fieldsError); continue }
+    const key = normalizeEmail(r.email)
+    if (seen.has(key)) {
+      r.errors.push(`メールアドレスが${seen.get(key)}行目と重複しています`)
+      continue
+    }
+    seen.set(key, r.row)
+    const existing = await findUserByEmail(db, r.email)
+    if (!existing) { r.action = 'create'; continue }
+    const membership = await db.prepare('SELECT status, deleted_at FROM memberships WHERE org_id = ? AND user_id = ?').bind(orgId, existing.id).first() as any
+    if (!membership) r.action = 'invite'
+    else if (membership.deleted_at) r.errors.push('ゴミ箱にある会員です。ゴミ箱から復元してください')
+    else if (membership.status === 'pending') r.errors.push('承認待ちの登録があります。承認待ちの一覧から承認してください')
+    else r.errors.push('すでにこのクラブの会員です')
+  }
+}
+
+app.post('/api/admin/members/import', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const { text, role, dry_run } = await c.req.json()
+  if (typeof text !== 'string' || !text.trim()) return c.json({ error: '名簿の内容を入力してください' }, 400)
+  const memberRole = role || 'member'
+  if (!isRole(memberRole)) return c.json({ error: '不正な役割です' }, 400)
+  const rows = parseRoster(text)
+  if (!rows.length) return c.json({ error: '登録する行がありません' }, 400)
+  if (rows.length > IMPORT_MAX_ROWS) return c.json({ error: `一度に登録できるのは${IMPORT_MAX_ROWS}人までです` }, 400)
+  const user = c.get('user')
+  const db = c.env.DB
+  await checkRoster(db, user.org_id, rows)
+  const summary = {
+    total: rows.length,
+    create: rows.filter((r) => r.action === 'create').length,
+    invite: rows.filter((r) => r.action === 'invite').length,
+    errors: rows.filter((r) => r.errors.length).length
+  }
+  if (dry_run !== false) return c.json({ dry_run: true, summary, rows })
+  if (summary.errors) {
+    return c.json({ error: '取り込めない行があります。名簿を直してからもう一度確認してください', summary, rows }, 400)
+  }
+
+  // Accounts created here can only log in through the welcome mail
+  if (!mailConfigured(c.env)) {
+    return c.json({ error: 'メールを送信できない設定になっているため取り込めません（MAIL_API_URL を設定してください）' }, 503)
+  }
+  // Every row is written in one batch, and mail only goes out once it has gone through
+  const statements: D1PreparedStatement[] = []
+  const mails: (MailMessage & { row: number })[] = []
+  const welcomeExpires = new Date(Date.now() + IMPORT_WELCOME_TOKEN_TTL_MS).toISOString()
+  const today = todayJst()
+  for (const r of rows) {
+    if (r.action === 'invite') {
+      const existing = await findUserByEmail(db, r.email)
+      const invitation = await prepareInvitation(c, { email: r.email, school: r.school, role: memberRole, days: INVITATION_DEFAULT_DAYS })
+      statements.push(invitation.statement)
+      mails.push({ row: r.row, ...invitationMail(c, r.email, existing.name, invitation.url, INVITATION_DEFAULT_DAYS) })
+      continue
+    }
+    // No usable password until the member follows the welcome link
+    const linked = await resolveSchool(db, user.org_id, r.school)
+    const token = generateToken()
+    // checkRoster ruled out any other account with this address, whatever its case
+    const newUserId = '(SELECT id FROM users WHERE email = ?)'
+    statements.push(
+      db.prepare("INSERT INTO users (name, email, school, password_hash, role) VALUES (?, ?, ?, '', 'member')")
+        .bind(r.name, r.email, linked.school),
+      db.prepare(`INSERT INTO school_assignments (user_id, school, started_on, created_by) VALUES (${newUserId}, ?, ?, ?)`)
+        .bind(r.email, linked.school, today, user.id),
+      db.prepare(`INSERT INTO memberships (org_id, user_id, role, status, school_id) VALUES (?, ${newUserId}, ?, 'active', ?)`)
+        .bind(user.org_id, r.email, memberRole, linked.school_id),
+      db.prepare(`INSERT INTO password_resets (user_id, token_hash, expires_at, created_at) VALUES (${newUserId}, ?, ?, datetime('now'))`)
+        .bind(r.email, await sha256Hex(token), welcomeExpires)
+    )
+    mails.push({
+      row: r.row,
+      to: r.email,
+      subject: '【社会科同好会】会員登録のお知らせ',
+      text: `${r.name} さん\n\n${user.org_name}の会員として登録されました。以下のリンクからパスワードを設定してください（7日間有効）。\n${appOrigin(c)}/reset-password?token=${token}\n\n期限が切れた場合は、ログイン画面の「パスワードをお忘れの方」から設定できます。`
+    })
+  }
+  try {
+    await db.batch(statements)
+  } catch (e) {
+    // Most likely someone registered one of the addresses since the check; nothing was written
+    console.error(e)
+    return c.json({ error: '登録中に名簿の内容と合わない変更があったため、誰も登録していません。もう一度確認してください' }, 409)
+  }
+
+  const mailer = getMailSender(c.env)
+  const mailFailed: number[] = []
+  for (const { row, ...message } of mails) {
+    try {
+      await mailer.send(message)
+    } catch (e) {
+      console.error(e)
+      mailFailed.push(row)
+    }
+  }
+  await recordAudit(c, 'members.import', { type: 'members', label: `${rows.length}人` }, undefined,
+    { created: summary.create, invited: summary.invite, invited_emails: rows.filter((r) => r.action === 'invite').map((r) => r.email),
+      role: memberRole, mail_failed_rows: mailFailed })
+  return c.json({ success: true, summary, mail_failed_rows: mailFailed })
+})
+
+// ========== Audit Log API ==========
+const AUDIT_PAGE_SIZE = 50
+const AUDIT_EXPORT_LIMIT = 10000
+
+// Shared by the list and the CSV download: ?action=&q=&from=YYYY-MM-DD&to=YYYY-MM-DD
+function auditFilter(c: any): { where: string; params: any[] } {
+  const clauses = ['org_id = ?']
+  const params: any[] = [c.get('user').org_id]
+  const action = c.req.query('action')
+  if (action) {
+    clauses.push('action = ?')
+    params.push(action)
+  }
+  const q = (c.req.query('q') || '').trim()
+  if (q) {
+    clauses.push('(actor_name LIKE ? OR target_label LIKE ?)')
+    params.push('%' + q + '%', '%' + q + '%')
+  }
+  const from = c.req.query('from')
+  if (from && /^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    clauses.push('created_at >= ?')
+    params.push(from)
+  }
+  const to = c.req.query('to')
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    clauses.push("created_at < date(?, '+1 day')")
+    params.push(to)
+  }
+  return { where: clauses.join(' AND '), params }
+}
+
+app.get('/api/admin/audit', authMiddleware, requirePermission('audit.read'), async (c) => {
+  const { where, params } = auditFilter(c)
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1)
+  const total = (await c.env.DB.prepare(`SELECT COUNT(*) as n FROM audit_log WHERE ${where}`).bind(...params).first() as any).n
+  const { results } = await c.env.DB.prepare(
+    `SELECT id, actor_id, actor_name, action, target_type, target_id, target_label, before_json, after_json, ip, created_at
+     FROM audit_log WHERE ${where} ORDER BY id DESC LIMIT ? OFFSET ?`
+  ).bind(...params, AUDIT_PAGE_SIZE, (page - 1) * AUDIT_PAGE_SIZE).all() as any
+  const entries = (results || []).map((r: any) => ({
+    ...r,
+    before_json: undefined,
+    after_json: undefined,
+    before: r.before_json ? JSON.parse(r.before_json) : null,
+    after: r.after_json ? JSON.parse(r.after_json) : null
+  }))
+  return c.json({ entries, total, page, per_page: AUDIT_PAGE_SIZE })
+})
+
+app.get('/api/admin/audit/export', authMiddleware, requirePermission('audit.read'), async (c) => {
+  const { where, params } = auditFilter(c)
+  const { results } = await c.env.DB.prepare(
+    `SELECT created_at, actor_name, action, target_type, target_id, target_label, before_json, after_json, ip
+     FROM audit_log WHERE ${where} ORDER BY id DESC LIMIT ?`
+  ).bind(...params, AUDIT_EXPORT_LIMIT).all() as any
+
+  const BOM = '\uFEFF'
+  const headers = ['日時(UTC)', '実行者', '操作', '対象種別', '対象ID', '対象', '変更前', '変更後', 'IPアドレス']
+  let csv = BOM + headers.map(h => `"${h}"`).join(',') + '\n'
+  for (const r of (results || []) as any[]) {
+    const row = [
+      r.created_at, r.actor_name, AUDIT_ACTION_LABELS[r.action] || r.action, r.target_type, r.target_id ?? '',
+      r.target_label, r.before_json || '', r.after_json || '', r.ip || ''
+    ]
+    csv += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\n'
+  }
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="shakaika_audit_log.csv"'
+    }
+  })
+})
+
+// ========== CSV Export ==========
+// ?school=current (default) lists today's schools; ?school=at_time&fiscal_year=YYYY the school each
+// member was at when that fiscal year ended (or today, for the current year)
+app.get('/api/admin/export', authMiddleware, requirePermission('members.read'), async (c) => {
+  const user = c.get('user')
+  const schoolMode = c.req.query('school') || 'current'
+  if (schoolMode !== 'current' && schoolMode !== 'at_time') return c.json({ error: '学校名の指定が正しくありません' }, 400)
+  const fiscalYear = parseInt(c.req.query('fiscal_year') || '') || getCurrentFiscalYear()
+  const yearEnd = `${fiscalYear + 1}-03-31`
+  const schoolDate = yearEnd < todayJst() ? yearEnd : todayJst()
+  const schoolColumn = schoolMode === 'current' ? memberSchoolSql() : `COALESCE((SELECT ${clubSchoolNameSql('a.school', 'm.org_id')} FROM school_assignments a
+       WHERE a.user_id = u.id AND a.started_on <= ? ORDER BY a.started_on DESC, a.id DESC LIMIT 1), '')`
+  const { results: members } = await c.env.DB.prepare(
+    `SELECT u.id, u.name, ${schoolColumn} as school, u.email, m.role, m.created_at
+     FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.deleted_at IS NULL AND m.status = 'active' ORDER BY m.created_at`
+  ).bind(...(schoolMode === 'current' ? [] : [schoolDate]), user.org_id).all()
+
+  const { results: allSelections } = await c.env.DB.prepare(
+    'SELECT user_id, viewpoint, step, memo, rubric_version_id FROM selections WHERE org_id = ?'
+  ).bind(user.org_id).all()
+
+  const selMap = new Map<number, Record<string, { step: number; memo: string; version: number | null }>>()
+  for (const s of allSelections as any[]) {
+    if (!selMap.has(s.user_id)) selMap.set(s.user_id, {})
+    selMap.get(s.user_id)![s.viewpoint] = { step: s.step, memo: s.memo || '', version: s.rubric_version_id }
+  }
+
+  // Step labels follow the rubric version each selection was made against
+  const { version: currentVersion, definition: rubric } = await getCurrentRubric(c.env.DB, user.org_id)
+  const versionDefs = new Map<number, RubricDefinition>([[currentVersion, rubric]])
+  for (const s of allSelections as any[]) {
+    const v = s.rubric_version_id
+    if (v && !versionDefs.has(v)) {
+      versionDefs.set(v, (await getRubricVersion(c.env.DB, user.org_id, v))?.definition || rubric)
+    }
+  }
+
+  // BOM for Excel
+  const BOM = '\uFEFF'
+  let csv = BOM
+  // Header
+  const headers = ['名前', schoolMode === 'current' ? '学校名' : `学校名（${fiscalYear}年度）`, 'メールアドレス', '役割', '登録日']
+  for (const vp of rubric.viewpoints) {
+    headers.push(vp.label + '(ステップ)')
+    headers.push(vp.label + '(メモ)')
+  }
+  csv += headers.map(h => `"${h}"`).join(',') + '\n'
+
+  // Rows
+  for (const m of members as any[]) {
+    const sels = selMap.get(m.id) || {}
+    const row = [
+      m.name,
+      m.school || '',
+      m.email,
+      isRole(m.role) ? ROLE_LABELS[m.role] : m.role,
+      m.created_at || ''
+    ]
+    for (const { key: vp } of rubric.viewpoints) {
+      if (sels[vp]) {
+        row.push(rubricStepLabel(versionDefs.get(sels[vp].version ?? currentVersion) || rubric, sels[vp].step))
+        row.push(sels[vp].memo || '')
+      } else {
+        row.push('未選択')
+        row.push('')
+      }
+    }
+    csv += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\n'
+  }
+
+  await recordAudit(c, 'members.export', { type: 'members', label: (members as any[]).length + '名' }, undefined,
+    schoolMode === 'current' ? undefined : { school: schoolMode, fiscal_year: fiscalYear })
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="shakaika_members_export.csv"'
+    }
+  })
+})
+
+// ========== Schools ==========
+// Each club keeps a master list of schools. A club links its own memberships (memberships.school_id) and
+// shows the master's name for them; users.school stays the name the member gave, shared by all their clubs.
+const SCHOOL_TYPES = ['小学校', '中学校', '義務教育学校', '高等学校', '特別支援学校', 'その他']
+
+type SchoolFields = { name: string; ward: string; school_type: string }
+
+function schoolFields(body: any): SchoolFields | { error: string } {
+  const name = (body?.name ?? '').toString().trim()
+  const ward = (body?.ward ?? '').toString().trim()
+  const school_type = (body?.school_type ?? '').toString().trim()
+  if (!name) return { error: '学校名は必須です' }
+  if (school_type && !SCHOOL_TYPES.includes(school_type)) return { error: '不正な学校種別です' }
+  return { name, ward, school_type }
+}
+
+// A name may belong to only one school in the club, whether as its name or as a merged-in spelling
+async function schoolNameTaken(db: D1Database, orgId: number, name: string, exceptId: number | null): Promise<boolean> {
+  const row = await db.prepare(
+    `SELECT 1 FROM schools WHERE org_id = ? AND name = ? AND id != ?
+     UNION ALL SELECT 1 FROM school_aliases WHERE org_id = ? AND alias = ? AND school_id != ?`
+  ).bind(orgId, name, exceptId ?? 0, orgId, name, exceptId ?? 0).first()
+  return !!row
+}
+
+// Snapshots of a member's school at the time that belong to one club (see School History),
+// with the condition (bound to the club id) that keeps an update to that club's rows
+const SCHOOL_SNAPSHOT_SCOPES: Record<string, string> = {
+  attendances: 'event_id IN (SELECT id FROM events WHERE org_id = ?)',
+  annual_notes: 'org_id = ?'
+}
+
+// Links the club's members who typed one of these names and are not linked to a school yet,
+// together with the club's snapshots spelled the same way. The membership update comes first,
+// so its changes are the number of members linked.
+function linkSchoolNameStatements(db: D1Database, orgId: number, schoolId: number, names: string[]): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE memberships SET school_id = ?
+       WHERE org_id = ? AND deleted_at IS NULL AND school_id IS NULL
+         AND user_id IN (SELECT id FROM users WHERE TRIM(school) IN (SELECT value FROM json_each(?)))`
+    ).bind(schoolId, orgId, JSON.stringify(names)),
+    ...Object.entries(SCHOOL_SNAPSHOT_SCOPES).map(([table, scope]) => db.prepare(
+      `UPDATE ${table} SET school_id = ? WHERE school_id IS NULL AND TRIM(school) IN (SELECT value FROM json_each(?)) AND ${scope}`
+    ).bind(schoolId, JSON.stringify(names), orgId))
+  ]
+}
+
+async function linkSchoolNames(db: D1Database, orgId: number, schoolId: number, names: string[]): Promise<number> {
+  const [members] = await db.batch(linkSchoolNameStatements(db, orgId, schoolId, names))
+  return members.meta.changes || 0
+}
+
+async function findSchool(db: D1Database, orgId: number, id: string) {
+  return await db.prepare('SELECT id, name, ward, school_type FROM schools WHERE id = ? AND org_id = ?').bind(id, orgId).first() as any
+}
+
+app.get('/api/admin/schools', authMiddleware, requirePermission('members.read'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const { results } = await db.prepare(
+    `SELECT sc.id, sc.name, sc.ward, sc.school_type,
+      (SELECT COUNT(*) FROM memberships m
+        WHERE m.school_id = sc.id AND m.org_id = sc.org_id AND m.deleted_at IS NULL AND m.status = 'active') as member_count,
+      (SELECT json_group_array(a.alias) FROM school_aliases a WHERE a.school_id = sc.id) as aliases_json
+     FROM schools sc WHERE sc.org_id = ? ORDER BY sc.ward, sc.name`
+  ).bind(user.org_id).all() as any
+  const schools = (results || []).map(({ aliases_json, ...sc }: any) => ({ ...sc, aliases: JSON.parse(aliases_json || '[]') }))
+  // Spellings members typed that are not linked to one of this club's schools yet
+  const { results: unassigned } = await db.prepare(
+    `SELECT TRIM(u.school) as school, COUNT(*) as count FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.deleted_at IS NULL AND m.status = 'active' AND TRIM(u.school) != '' AND m.school_id IS NULL
+     GROUP BY TRIM(u.school) ORDER BY TRIM(u.school)`
+  ).bind(user.org_id).all()
+  return c.json({ schools, unassigned, types: SCHOOL_TYPES })
+})
+
+app.post('/api/admin/schools', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const fields = schoolFields(await c.req.json())
+  if ('error' in fields) return c.json({ error: fields.error }, 400)
+  const user = c.get('user')
+  const db = c.env.DB
+  if (await schoolNameTaken(db, user.org_id, fields.name, null)) return c.json({ error: 'その学校名はすでに登録されています' }, 400)
+  const res = await db.prepare('INSERT INTO schools (org_id, name, ward, school_type) VALUES (?, ?, ?, ?)')
+    .bind(user.org_id, fields.name, fields.ward, fields.school_type).run()
+  const id = res.meta.last_row_id as number
+  const linked = await linkSchoolNames(db, user.org_id, id, [fields.name])
+  await recordAudit(c, 'school.create', { type: 'school', id, label: fields.name }, undefined, { ...fields, linked })
+  return c.json({ success: true, id, linked })
+})
+
+app.get('/api/admin/schools/:id', authMiddleware, requirePermission('members.read'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const school = await findSchool(db, user.org_id, c.req.param('id'))
+  if (!school) return c.json({ error: '学校が見つかりません' }, 404)
+  const { results: rows } = await db.prepare(
+    `SELECT u.id, u.name, u.email, m.role, m.created_at,
+      (SELECT json_group_object(s.viewpoint, json_object('step', s.step, 'memo', COALESCE(s.memo, '')))
+        FROM selections s WHERE s.user_id = u.id AND s.org_id = m.org_id) as selections_json,
+      (SELECT json_group_array(a.event_id) FROM attendances a JOIN events e ON e.id = a.event_id
+        WHERE a.user_id = u.id AND e.org_id = m.org_id AND e.deleted_at IS NULL) as events_json
+     FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.deleted_at IS NULL AND m.status = 'active' AND m.school_id = ?
+     ORDER BY u.name`
+  ).bind(user.org_id, school.id).all() as any
+  const members = (rows || []).map(({ selections_json, events_json, ...m }: any) => ({
+    ...m,
+    selections: selections_json ? JSON.parse(selections_json) : {},
+    event_ids: JSON.parse(events_json || '[]')
+  }))
+  // Events attended from this school, by the school each attendee was at on the day, newest first
+  const { results: eventRows } = await db.prepare(
+    `SELECT e.id, e.title, e.event_date, COUNT(*) as attended, json_group_array(u.name) as names_json FROM events e
+     JOIN attendances a ON a.event_id = e.id
+     JOIN users u ON u.id = a.user_id
+     JOIN memberships m ON m.user_id = u.id AND m.org_id = e.org_id AND m.deleted_at IS NULL AND m.status = 'active'
+     WHERE e.org_id = ? AND e.deleted_at IS NULL AND a.school_id = ?
+     GROUP BY e.id ORDER BY e.event_date DESC`
+  ).bind(user.org_id, school.id).all() as any
+  const events = (eventRows || []).map(({ names_json, ...ev }: any) => ({ ...ev, names: JSON.parse(names_json || '[]') }))
+  const { results: aliases } = await db.prepare('SELECT alias FROM school_aliases WHERE school_id = ? ORDER BY alias').bind(school.id).all() as any
+  return c.json({ school: { ...school, aliases: (aliases || []).map((a: any) => a.alias) }, members, events })
+})
+
+app.put('/api/admin/schools/:id', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const fields = schoolFields(await c.req.json())
+  if ('error' in fields) return c.json({ error: fields.error }, 400)
+  const user = c.get('user')
+  const db = c.env.DB
+  const school = await findSchool(db, user.org_id, c.req.param('id'))
+  if (!school) return c.json({ error: '学校が見つかりません' }, 404)
+  if (await schoolNameTaken(db, user.org_id, fields.name, school.id)) return c.json({ error: 'その学校名はすでに登録されています' }, 400)
+  await db.prepare("UPDATE schools SET name = ?, ward = ?, school_type = ?, updated_at = datetime('now') WHERE id = ?")
+    .bind(fields.name, fields.ward, fields.school_type, school.id).run()
+  if (fields.name !== school.name) {
+    // Linked members show the new name through the link; the old name keeps finding the school; the new one must not linger as an alias of itself
+    await db.prepare('INSERT OR IGNORE INTO school_aliases (org_id, school_id, alias) VALUES (?, ?, ?)').bind(user.org_id, school.id, school.name).run()
+    await db.prepare('DELETE FROM school_aliases WHERE school_id = ? AND alias = ?').bind(school.id, fields.name).run()
+  }
+  await recordAudit(c, 'school.update', { type: 'school', id: school.id, label: fields.name }, school, fields)
+  return c.json({ success: true })
+})
+
+// Members keep their school text but are no longer linked to the master
+app.delete('/api/admin/schools/:id', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const school = await findSchool(db, user.org_id, c.req.param('id'))
+  if (!school) return c.json({ error: '学校が見つかりません' }, 404)
+  // Snapshots fall back to the name as it was typed at the time
+  await db.batch([
+    db.prepare('UPDATE memberships SET school_id = NULL WHERE org_id = ? AND school_id = ?').bind(user.org_id, school.id),
+    ...Object.entries(SCHOOL_SNAPSHOT_SCOPES).map(([table, scope]) =>
+      db.prepare(`UPDATE ${table} SET school_id = NULL WHERE school_id = ? AND ${scope}`).bind(school.id, user.org_id)),
+    db.prepare('DELETE FROM school_aliases WHERE school_id = ?').bind(school.id),
+    db.prepare('DELETE FROM schools WHERE id = ?').bind(school.id)
+  ])
+  await recordAudit(c, 'school.delete', { type: 'school', id: school.id, label: school.name }, school)
+  return c.json({ success: true })
+})
+
+// Folds other schools and typed spellings into this one: their members move over, and the
+// old names become aliases so later registrations with them land here too
+app.post('/api/admin/schools/:id/merge', authMiddleware, requirePermission('members.manage'), async (c) => {
+  const body = await c.req.json()
+  const user = c.get('user')
+  const db = c.env.DB
+  const school = await findSchool(db, user.org_id, c.req.param('id'))
+  if (!school) return c.json({ error: '学校が見つかりません' }, 404)
+  const ids = (Array.isArray(body?.school_ids) ? body.school_ids : []).map((v: unknown) => Number(v)).filter((v: number) => v !== school.id)
+  const { results: sources } = await db.prepare(
+    'SELECT id, name FROM schools WHERE org_id = ? AND id IN (SELECT value FROM json_each(?))'
+  ).bind(user.org_id, JSON.stringify(ids)).all() as any
+  const names = [...new Set<string>((Array.isArray(body?.names) ? body.names : [])
+    .map((v: unknown) => String(v ?? '').trim()).filter((v: string) => v && v !== school.name))]
+  if (!sources.length && !names.length) return c.json({ error: '統合する学校を選んでください' }, 400)
+
+  const sourceIds = JSON.stringify(sources.map((s: any) => s.id))
+  const aliases = [...sources.map((s: any) => s.name), ...names]
+  // One batch, as with delete, so a failure leaves members, snapshots and aliases where they were
+  const statements = [
+    db.prepare('UPDATE memberships SET school_id = ? WHERE org_id = ? AND school_id IN (SELECT value FROM json_each(?))')
+      .bind(school.id, user.org_id, sourceIds),
+    ...[...Object.entries(SCHOOL_SNAPSHOT_SCOPES), ['school_aliases', 'org_id = ?']].map(([table, scope]) =>
+      db.prepare(`UPDATE ${table} SET school_id = ? WHERE school_id IN (SELECT value FROM json_each(?)) AND ${scope}`)
+        .bind(school.id, sourceIds, user.org_id)),
+    db.prepare('DELETE FROM schools WHERE id IN (SELECT value FROM json_each(?))').bind(sourceIds),
+    db.prepare('INSERT OR IGNORE INTO school_aliases (org_id, school_id, alias) SELECT ?, ?, value FROM json_each(?)')
+      .bind(user.org_id, school.id, JSON.stringify(aliases))
+  ]
+  const linkedAt = statements.length
+  if (names.length) statements.push(...linkSchoolNameStatements(db, user.org_id, school.id, names))
+  const results = await db.batch(statements)
+  const count = (results[0].meta.changes || 0) + (names.length ? results[linkedAt].meta.changes || 0 : 0)
+  await recordAudit(c, 'school.merge', { type: 'school', id: school.id, label: school.name },
+    { schools: sources.map((s: any) => s.name), names }, { members: count })
+  return c.json({ success: true, members: count })
+})
+
+// ========== Analytics ==========
+// Cohort figures for the /admin charts, aggregated in SQL. Like the stat cards they cover active
+// members other than admins, and only the current rubric's viewpoints. Fiscal years start on
+// April 1st in Japan time.
+const JST_OFFSET = '+9 hours'
+
+// 00:00 JST on April 1st after fiscal year fy, as a UTC datetime comparable with created_at
+function fiscalYearEnd(fy: number): string {
+  return `${fy + 1}-03-31 15:00:00`
+}
+
+const ANALYTICS_BASE_SQL = `WITH vps AS (SELECT value AS viewpoint FROM json_each(?)),
+  members AS (
+    SELECT u.id AS user_id, TRIM(${memberSchoolSql()}) AS school,
+      CAST(strftime('%Y', m.created_at, '${JST_OFFSET}', '-3 months') AS INTEGER) AS reg_year
+    FROM memberships m JOIN users u ON u.id = m.user_id
+    WHERE m.org_id = ? AND m.deleted_at IS NULL AND m.status = 'active' AND m.role != 'admin'
+  ),
+  member_stats AS (
+    SELECT mb.user_id, mb.school, mb.reg_year, COUNT(s.id) AS progress, COALESCE(SUM(s.step), 0) AS step_sum
+    FROM members mb
+    LEFT JOIN selections s ON s.user_id = mb.user_id AND s.org_id = ? AND s.viewpoint IN (SELECT viewpoint FROM vps)
+    GROUP BY mb.user_id
+  )`
+
+// The step each member had for each viewpoint at a cutoff (the last history entry before it)
+const STEP_AT_SQL = `SELECT user_id, viewpoint, step FROM (
+    SELECT h.user_id, h.viewpoint, h.step,
+      ROW_NUMBER() OVER (PARTITION BY h.user_id, h.viewpoint ORDER BY h.created_at DESC, h.id DESC) AS rn
+    FROM selection_history h WHERE h.org_id = ? AND h.created_at < ?
+  ) WHERE rn = 1`
+
+app.get('/api/admin/analytics', authMiddleware, requirePermission('members.read'), async (c) => {
+  const user = c.get('user')
+  const db = c.env.DB
+  const { definition: rubric } = await getCurrentRubric(db, user.org_id)
+  const keys = rubric.viewpoints.map((vp) => vp.key)
+  const base = [JSON.stringify(keys), user.org_id, user.org_id]
+  const vpCount = keys.length
+  const fiscalYear = getCurrentFiscalYear()
+  const toYear = parseInt(c.req.query('to') || '') || fiscalYear
+  const fromYear = parseInt(c.req.query('from') || '') || toYear - 1
+  if (fromYear >= toYear) return c.json({ error: '比較する年度の指定が正しくありません' }, 400)
+
+  const memberCount = (await db.prepare(`${ANALYTICS_BASE_SQL} SELECT COUNT(*) AS n FROM members`).bind(...base).first() as any).n
+
+  const { results: stepRows } = await db.prepare(
+    `${ANALYTICS_BASE_SQL}
+     SELECT s.viewpoint, s.step, COUNT(*) AS n FROM selections s JOIN members mb ON mb.user_id = s.user_id
+     WHERE s.org_id = ? AND s.viewpoint IN (SELECT viewpoint FROM vps)
+     GROUP BY s.viewpoint, s.step`
+  ).bind(...base, user.org_id).all() as any
+  const viewpoints = rubric.viewpoints.map((vp) => {
+    const steps = [1, 2, 3, 4].map((step) => (stepRows || []).find((r: any) => r.viewpoint === vp.key && r.step === step)?.n || 0)
+    return { key: vp.key, label: vp.label, steps, none: memberCount - steps.reduce((a, b) => a + b, 0) }
+  })
+
+  const groupSql = (column: string) => `${ANALYTICS_BASE_SQL}
+     SELECT ${column} AS value, COUNT(*) AS members,
+       SUM(progress = ?) AS complete, SUM(progress > 0 AND progress < ?) AS partial, SUM(progress = 0) AS none,
+       ROUND(CAST(SUM(step_sum) AS REAL) / NULLIF(SUM(progress), 0), 2) AS avg_step
+     FROM member_stats GROUP BY ${column} ORDER BY ${column}`
+  const { results: schools } = await db.prepare(groupSql('school')).bind(...base, vpCount, vpCount).all()
+  const { results: years } = await db.prepare(groupSql('reg_year')).bind(...base, vpCount, vpCount).all()
+
+  const { results: moves } = await db.prepare(
+    `${ANALYTICS_BASE_SQL},
+     from_steps AS (${STEP_AT_SQL}),
+     to_steps AS (${STEP_AT_SQL})
+     SELECT COALESCE(f.step, 0) AS from_step, COALESCE(t.step, 0) AS to_step, COUNT(*) AS n
+     FROM members mb CROSS JOIN vps
+     LEFT JOIN from_steps f ON f.user_id = mb.user_id AND f.viewpoint = vps.viewpoint
+     LEFT JOIN to_steps t ON t.user_id = mb.user_id AND t.viewpoint = vps.viewpoint
+     GROUP BY from_step, to_step`
+  ).bind(...base, user.org_id, fiscalYearEnd(fromYear), user.org_id, fiscalYearEnd(toYear)).all() as any
+  // matrix[from][to], where 0 means nothing selected
+  const matrix = [0, 1, 2, 3, 4].map(() => [0, 0, 0, 0, 0])
+  let up = 0, same = 0, down = 0
+  for (const r of moves || []) {
+    matrix[r.from_step][r.to_step] = r.n
+    if (r.to_step > r.from_step) up += r.n
+    else if (r.to_step < r.from_step) down += r.n
+    else if (r.to_step > 0) same += r.n
+  }
+
+  return c.json({
+    member_count: memberCount,
+    fiscal_year: fiscalYear,
+    viewpoints,
+    schools,
+    years,
+    movement: { from_year: fromYear, to_year: toYear, matrix, up, same, down }
+  })
+})
+
+// ========== Events API ==========
+// Short codes people type by hand (event and invite codes): no 0/O or 1/I
+function generateShortCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+  let code = ''
+  const arr = new Uint8Array(8)
+  crypto.getRandomValues(arr)
+  for (let i = 0; i < 8; i++) code += chars[arr[i] % chars.length]
+  return code
+}
+
+app.post('/api/admin/events', authMiddleware, requirePermission('events.manage'), async (c) => {
+  const { title, description, event_date, custom_questions } = await c.req.json()
+  if (!title || !event_date) return c.json({ error: 'タイトルと日付は必須です' }, 400)
+  const db = c.env.DB
+  const code = generateShortCode()
+  const user = c.get('user')
+  const res = await db.prepare(
+    'INSERT INTO events (org_id, title, description, event_date, event_code, created_by) VALUES (?,?,?,?,?,?)'
+  ).bind(user.org_id, title, description || '', event_date, code, user.id).run()
+  const eventId = res.meta.last_row_id as number
+  if (custom_questions && Array.isArray(custom_questions)) {
+    for (let i = 0; i < custom_questions.length; i++) {
+      const q = custom_questions[i]
+      await db.prepare(
+        'INSERT INTO survey_questions (event_id, question_text, question_type, options, sort_order) VALUES (?,?,?,?,?)'
+      ).bind(eventId, q.question_text, q.question_type || 'text', q.options || '', i).run()
+    }
+  }
+  await recordAudit(c, 'event.create', { type: 'event', id: eventId, label: title }, undefined,
+    { title, event_date, event_code: code, questions: Array.isArray(custom_questions) ? custom_questions.length : 0 })
+  return c.json({ id: eventId, event_code: code })
+})
+
+app.get('/api/admin/events', authMiddleware, requirePermission('events.read'), async (c) => {
+  const db = c.env.DB
+  const { results: events } = await db.prepare(
+    'SELECT e.*, (SELECT COUNT(*) FROM attendances a WHERE a.event_id = e.id) as attendance_count, (SELECT COUNT(*) FROM survey_answers sa WHERE sa.event_id = e.id) as survey_count FROM events e WHERE e.org_id = ? AND e.deleted_at IS NULL ORDER BY e.event_date DESC'
+  ).bind(c.get('user').org_id).all()
+  return c.json({ events })
+})
+
+// Registered before /:id so "trash" is not read as an event id
+app.get('/api/admin/events/trash', authMiddleware, requirePermission('events.manage'), async (c) => {
+  const { results: events } = await c.env.DB.prepare(
+    `SELECT e.id, e.title, e.event_date, e.deleted_at, d.name as deleted_by_name,
+      datetime(e.deleted_at, '+' || ? || ' days') as purge_at,
+      (SELECT COUNT(*) FROM attendances a WHERE a.event_id = e.id) as attendance_count
+     FROM events e LEFT JOIN users d ON d.id = e.deleted_by
+     WHERE e.org_id = ? AND e.deleted_at IS NOT NULL ORDER BY e.deleted_at DESC`
+  ).bind(trashRetentionDays(c.env), c.get('user').org_id).all()
+  return c.json({ events, retention_days: trashRetentionDays(c.env) })
+})
+
+app.get('/api/admin/events/:id', authMiddleware, requirePermission('events.read'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE id = ? AND org_id = ? AND deleted_at IS NULL').bind(id, c.get('user').org_id).first()
+  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  const { results: questions } = await db.prepare(
+    'SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order'
+  ).bind(id).all()
+  const { results: attendances } = await db.prepare(
+    'SELECT a.*, u.name, u.email FROM attendances a JOIN users u ON a.user_id = u.id WHERE a.event_id = ? ORDER BY a.attended_at'
+  ).bind(id).all()
+  const { results: answers } = await db.prepare(
+    'SELECT sa.*, u.name, u.email FROM survey_answers sa JOIN users u ON sa.user_id = u.id WHERE sa.event_id = ?'
+  ).bind(id).all()
+  const { results: customAnswers } = await db.prepare(
+    'SELECT ca.*, u.name FROM custom_answers ca JOIN users u ON ca.user_id = u.id WHERE ca.event_id = ?'
+  ).bind(id).all()
+  return c.json({ event, questions, attendances, answers, customAnswers })
+})
+
+app.delete('/api/admin/events/:id', authMiddleware, requirePermission('events.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  const event = await db.prepare(
+    `SELECT id, title, description, event_date, event_code, is_active, created_at,
+      (SELECT COUNT(*) FROM attendances a WHERE a.event_id = events.id) as attendance_count,
+      (SELECT COUNT(*) FROM survey_answers sa WHERE sa.event_id = events.id) as survey_count
+     FROM events WHERE id = ? AND org_id = ? AND deleted_at IS NULL`
+  ).bind(id, c.get('user').org_id).first() as any
+  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  // Attendance and answers stay with the trashed event until it is purged
+  await db.prepare("UPDATE events SET deleted_at = datetime('now'), deleted_by = ? WHERE id = ?").bind(c.get('user').id, id).run()
+  await recordAudit(c, 'event.delete', { type: 'event', id, label: event.title }, event)
+  await sweepTrash(db, c.env)
+  return c.json({ success: true })
+})
+
+app.post('/api/admin/events/:id/restore', authMiddleware, requirePermission('events.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  const event = await db.prepare('SELECT id, title FROM events WHERE id = ? AND org_id = ? AND deleted_at IS NOT NULL')
+    .bind(id, c.get('user').org_id).first() as any
+  if (!event) return c.json({ error: 'ゴミ箱に見つかりません' }, 404)
+  await db.prepare('UPDATE events SET deleted_at = NULL, deleted_by = NULL WHERE id = ?').bind(id).run()
+  await recordAudit(c, 'event.restore', { type: 'event', id, label: event.title })
+  return c.json({ success: true })
+})
+
+app.delete('/api/admin/events/:id/purge', authMiddleware, requirePermission('events.manage'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE id = ? AND org_id = ? AND deleted_at IS NOT NULL')
+    .bind(id, c.get('user').org_id).first() as any
+  if (!event) return c.json({ error: 'ゴミ箱に見つかりません' }, 404)
+  await purgeEvent(db, id)
+  await recordAudit(c, 'event.purge', { type: 'event', id, label: event.title }, event)
+  return c.json({ success: true })
+})
+
+// ?school=at_time (default) reports each attendee's school on the day, ?school=current today's school
+app.get('/api/admin/events/:id/export', authMiddleware, requirePermission('events.read'), async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const schoolMode = c.req.query('school') || 'at_time'
+  if (schoolMode !== 'current' && schoolMode !== 'at_time') return c.json({ error: '学校名の指定が正しくありません' }, 400)
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE id = ? AND org_id = ? AND deleted_at IS NULL').bind(id, c.get('user').org_id).first() as any
+  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  const { results: questions } = await db.prepare('SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order').bind(id).all() as any
+  const { results: attendances } = await db.prepare(
+    `SELECT a.user_id, a.attended_at, u.name, u.email, ${schoolMode === 'current' ? memberSchoolSql() : snapshotSchoolSql('a')} as school_name
+     FROM attendances a JOIN users u ON a.user_id = u.id LEFT JOIN memberships m ON m.user_id = u.id AND m.org_id = ?
+     WHERE a.event_id = ?`
+  ).bind(event.org_id, id).all() as any
+  const { results: answers } = await db.prepare('SELECT sa.*, u.name, u.email FROM survey_answers sa JOIN users u ON sa.user_id = u.id WHERE sa.event_id = ?').bind(id).all() as any
+  const { results: customAnswers } = await db.prepare('SELECT * FROM custom_answers WHERE event_id = ?').bind(id).all() as any
+  const caMap = new Map<number, Record<number, string>>()
+  for (const ca of customAnswers) {
+    if (!caMap.has(ca.user_id)) caMap.set(ca.user_id, {})
+    caMap.get(ca.user_id)![ca.question_id] = ca.answer_text
+  }
+  const ansMap = new Map<number, any>()
+  for (const a of answers) ansMap.set(a.user_id, a)
+  const BOM = '\uFEFF'
+  const headers = ['名前', schoolMode === 'current' ? '学校名（現在）' : '学校名（参加時）', 'メール', '出席時刻', '満足度', '感想']
+  for (const q of questions) headers.push(q.question_text)
+  let csv = BOM + headers.map((h: string) => `"${h}"`).join(',') + '\n'
+  for (const att of attendances) {
+    const ans = ansMap.get(att.user_id)
+    const ca = caMap.get(att.user_id) || {}
+    const row = [att.name, att.school_name || '', att.email, att.attended_at, ans ? ans.satisfaction : '', ans ? (ans.comment || '') : '']
+    for (const q of questions) row.push(ca[q.id as number] || '')
+    csv += row.map((v: any) => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\n'
+  }
+  await recordAudit(c, 'event.export', { type: 'event', id, label: event.title }, undefined, { school: schoolMode })
+  return new Response(csv, { headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': `attachment; filename="${event.title}_export.csv"` } })
+})
+
+// ========== Attendance & Survey (Member) ==========
+app.get('/api/events/:code', authMiddleware, async (c) => {
+  const code = c.req.param('code')
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1 AND deleted_at IS NULL').bind(code).first() as any
+  if (!event) return c.json({ error: 'イベントが見つからないか、受付が終了しています' }, 404)
+  const user = c.get('user')
+  if (!(await isOrgMember(db, event.org_id, user.id))) return c.json({ error: 'このイベントを開催しているクラブの会員ではありません' }, 403)
+  const { results: questions } = await db.prepare('SELECT * FROM survey_questions WHERE event_id = ? ORDER BY sort_order').bind(event.id).all()
+  const attendance = await db.prepare('SELECT * FROM attendances WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).first()
+  const survey = await db.prepare('SELECT * FROM survey_answers WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).first()
+  const { results: myCustom } = await db.prepare('SELECT * FROM custom_answers WHERE event_id = ? AND user_id = ?').bind(event.id, user.id).all()
+  return c.json({ event, questions, attendance, survey, customAnswers: myCustom })
+})
+
+app.post('/api/events/:code/attend', authMiddleware, async (c) => {
+  const code = c.req.param('code')
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1 AND deleted_at IS NULL').bind(code).first() as any
+  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  const user = c.get('user')
+  if (!(await isOrgMember(db, event.org_id, user.id))) return c.json({ error: 'このイベントを開催しているクラブの会員ではありません' }, 403)
+  await db.prepare(
+    `INSERT OR IGNORE INTO attendances (event_id, user_id, attended_at, school, school_id)
+     SELECT ?, u.id, datetime('now'), u.school, m.school_id FROM users u JOIN memberships m ON m.user_id = u.id AND m.org_id = ? WHERE u.id = ?`
+  ).bind(event.id, event.org_id, user.id).run()
+  return c.json({ success: true })
+})
+
+app.post('/api/events/:code/survey', authMiddleware, async (c) => {
+  const code = c.req.param('code')
+  const db = c.env.DB
+  const event = await db.prepare('SELECT * FROM events WHERE event_code = ? AND is_active = 1 AND deleted_at IS NULL').bind(code).first() as any
+  if (!event) return c.json({ error: 'イベントが見つかりません' }, 404)
+  const user = c.get('user')
+  if (!(await isOrgMember(db, event.org_id, user.id))) return c.json({ error: 'このイベントを開催しているクラブの会員ではありません' }, 403)
+  const { satisfaction, comment, custom_answers } = await c.req.json()
+  await db.prepare(`INSERT INTO survey_answers (event_id, user_id, satisfaction, comment, answered_at) VALUES (?,?,?,?,datetime('now')) ON CONFLICT(event_id, user_id) DO UPDATE SET satisfaction=excluded.satisfaction, comment=excluded.comment, answered_at=datetime('now')`).bind(event.id, user.id, satisfaction || null, comment || '').run()
+  if (custom_answers && Array.isArray(custom_answers)) {
+    for (const ca of custom_answers) {
+      await db.prepare('INSERT INTO custom_answers (event_id, user_id, question_id, answer_text) VALUES (?,?,?,?) ON CONFLICT(event_id, user_id, question_id) DO UPDATE SET answer_text=excluded.answer_text').bind(event.id, user.id, ca.question_id, ca.answer_text || '').run()
+    }
+  }
+  return c.json({ success: true })
+})
+
+// ========== Health ==========
+app.get('/api/health', (c) => c.json({ status: 'ok' }))
+
+// ========== HTML Pages ==========
+
+const commonHead = `
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css" rel="stylesheet">
+<style>
+  @import url('https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;500;700&family=Zen+Maru+Gothic:wght@500;700&display=swap');
+  :root {
+    --bg-color: #fffaf0;
+    --header-line: #d84315;
+    --text-main: #444;
+    --cat-class: #8d6e63;
+    --cat-connect: #66bb6a;
+    --cat-research: #42a5f5;
+  }
+  * { box-sizing: border-box; }
+  body { font-family: 'Noto Sans JP', sans-serif; color: var(--text-main); background-color: var(--bg-color); padding: 0; margin: 0; line-height: 1.5; }
+</style>`
+
+// Shared by the logged-in pages. The session token sits in an HttpOnly cookie,
+// so scripts only read the CSRF cookie and echo it back on API calls.
+const authClientScript = `
+function readCookie(name) {
+  const m = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+  return m ? decodeURIComponent(m[1]) : '';
+}
+function authHeaders(extra) {
+  const h = Object.assign({}, extra || {});
+  const csrf = readCookie('${CSRF_COOKIE}');
+  if (csrf) h['${CSRF_HEADER}'] = csrf;
+  return h;
+}
+`
+
+// Top-bar club switcher for members of several clubs; needs authClientScript.
+// Switching reloads the page so every panel re-queries under the new club.
+const orgSwitcherScript = `
+async function initOrgSwitcher(elementId) {
+  const el = document.getElementById(elementId);
+  if (!el) return;
+  const res = await fetch('/api/me/organizations', { headers: authHeaders() });
+  if (!res.ok) return;
+  const orgs = (await res.json()).organizations || [];
+  if (orgs.length < 2) {
+    el.textContent = orgs.length ? orgs[0].name : '';
+    return;
+  }
+  const select = document.createElement('select');
+  select.className = 'org-select';
+  for (const o of orgs) {
+    const opt = document.createElement('option');
+    opt.value = o.id;
+    opt.textContent = o.name + (o.status === 'pending' ? '（承認待ち）' : o.role === 'admin' ? '（管理者）' : '');
+    opt.selected = o.current;
+    select.appendChild(opt);
+  }
+  select.addEventListener('change', async function() {
+    const r = await fetch('/api/me/organization', {
+      method: 'POST',
+      headers: authHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ org_id: parseInt(select.value) })
+    });
+    if (!r.ok) { alert('クラブを切り替えられませんでした'); return; }
+    window.location.reload();
+  });
+  el.innerHTML = '';
+  el.appendChild(select);
+}
+`
+
+// JSON that is safe to embed in an inline <script>
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+// --- Login / Register Page ---
+app.get('/login', async (c) => {
+  // Fresh install: nobody can log in until the first admin exists
+  if (!(await hasAdmin(c.env.DB))) return c.redirect('/setup')
+  // Already logged in via cookie: skip the form (unless there is an invitation to accept)
+  const token = getCookie(c, SESSION_COOKIE)
+  const user = token ? await loadSessionUser(c, token) : null
+  if (user && !c.req.query('invitation')) {
+    const redirect = c.req.query('redirect') || ''
+    if (user.must_change_password) return c.redirect('/change-password')
+    if (redirect.startsWith('/') && !redirect.startsWith('//') && !redirect.includes('\\')) return c.redirect(redirect)
+    return c.redirect(homePath(user))
+  }
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>ログイン - 社会科同好会</title>
+<style>
+  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
+  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; }
+  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 22px; text-align: center; margin: 0 0 8px; }
+  .auth-card .sub { text-align: center; color: #888; font-size: 13px; margin-bottom: 28px; }
+  .form-group { margin-bottom: 18px; }
+  .form-group label { display: block; font-weight: 500; margin-bottom: 5px; font-size: 13px; color: #555; }
+  .form-group input { width: 100%; padding: 10px 14px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 15px; font-family: inherit; transition: border-color 0.2s; outline: none; }
+  .form-group input:focus { border-color: var(--header-line); }
+  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; transition: all 0.2s; }
+  .btn-primary { background: var(--header-line); color: #fff; }
+  .btn-primary:hover { background: #bf360c; }
+  .btn-secondary { background: #fff; color: var(--header-line); border: 2px solid var(--header-line); margin-top: 10px; }
+  .btn-secondary:hover { background: #fff3e0; }
+  .tabs { display: flex; margin-bottom: 24px; border-radius: 10px; overflow: hidden; border: 2px solid #e0d6c8; }
+  .tab { flex: 1; padding: 10px; text-align: center; cursor: pointer; font-weight: 700; font-size: 14px; background: #fafafa; color: #999; transition: all 0.2s; }
+  .tab.active { background: var(--header-line); color: #fff; }
+  .error-msg { background: #ffebee; color: #c62828; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .success-msg { background: #e8f5e9; color: #2e7d32; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .logo { text-align: center; margin-bottom: 20px; }
+  .logo span { display: block; font-size: 10px; letter-spacing: 2px; color: #999; }
+  .logo strong { font-family: 'Zen Maru Gothic', sans-serif; font-size: 18px; color: var(--header-line); }
+  .link-row { text-align: center; margin-top: 14px; font-size: 13px; }
+  .link-row a { color: #888; }
+  .invitation-banner { display: none; background: #e3f2fd; color: #1565c0; padding: 12px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; line-height: 1.7; }
+</style>
+</head><body>
+<div class="auth-container">
+  <div class="auth-card">
+    <div class="logo"><span>NAGOYA SHAKAIKA</span><strong>社会科同好会</strong></div>
+    <div class="tabs">
+      <div class="tab active" onclick="switchTab('login')">ログイン</div>
+      <div class="tab" onclick="switchTab('register')">新規登録</div>
+    </div>
+    <div id="error" class="error-msg"></div>
+    <div id="success" class="success-msg"></div>
+    <div id="invitationBanner" class="invitation-banner">
+      <div id="invitationText"></div>
+      <button type="button" id="btnAcceptInvitation" class="btn btn-primary" style="display:none;margin-top:10px" onclick="acceptInvitation()"></button>
+    </div>
+
+    <form id="loginForm" onsubmit="return handleLogin(event)">
+      <div class="form-group">
+        <label><i class="fas fa-envelope"></i> メールアドレス</label>
+        <input type="email" id="loginEmail" required placeholder="example@email.com">
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> パスワード</label>
+        <input type="password" id="loginPassword" required placeholder="パスワードを入力">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-sign-in-alt"></i> ログイン</button>
+      <div class="link-row"><a href="#" onclick="showForgot(true);return false;">パスワードをお忘れの方</a></div>
+    </form>
+
+    <form id="forgotForm" style="display:none" onsubmit="return handleForgot(event)">
+      <p class="sub" style="text-align:left;margin-bottom:16px">登録したメールアドレスを入力してください。パスワード再設定用のリンクをお送りします。</p>
+      <div class="form-group">
+        <label><i class="fas fa-envelope"></i> メールアドレス</label>
+        <input type="email" id="forgotEmail" required placeholder="example@email.com">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-paper-plane"></i> 再設定リンクを送る</button>
+      <button type="button" class="btn btn-secondary" onclick="showForgot(false)">ログインに戻る</button>
+    </form>
+
+    <form id="registerForm" style="display:none" onsubmit="return handleRegister(event)">
+      <div class="form-group" id="regOrgGroup" style="display:none">
+        <label><i class="fas fa-users"></i> 所属するクラブ</label>
+        <select id="regOrg" style="width:100%;padding:10px 14px;border:2px solid #e0d6c8;border-radius:8px;font-size:15px;font-family:inherit;background:#fff"></select>
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-user"></i> お名前</label>
+        <input type="text" id="regName" required placeholder="山田 太郎">
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-school"></i> 学校名</label>
+        <input type="text" id="regSchool" required placeholder="〇〇小学校" list="regSchoolList" autocomplete="off">
+        <datalist id="regSchoolList"></datalist>
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-envelope"></i> メールアドレス</label>
+        <input type="email" id="regEmail" required placeholder="example@email.com">
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> パスワード</label>
+        <input type="password" id="regPassword" required placeholder="4文字以上" minlength="4">
+      </div>
+      <div class="form-group" id="regInviteGroup">
+        <label><i class="fas fa-ticket-alt"></i> 招待コード（お持ちの方のみ）</label>
+        <input type="text" id="regInvite" placeholder="クラブから届いた8文字のコード" autocomplete="off" style="text-transform:uppercase">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-user-plus"></i> 登録する</button>
+    </form>
+  </div>
+</div>
+<script>
+${authClientScript}
+function switchTab(tab) {
+  document.querySelectorAll('.tab').forEach((t,i) => {
+    t.classList.toggle('active', (tab==='login' && i===0) || (tab==='register' && i===1));
+  });
+  document.getElementById('loginForm').style.display = tab==='login' ? 'block' : 'none';
+  document.getElementById('registerForm').style.display = tab==='register' ? 'block' : 'none';
+  document.getElementById('forgotForm').style.display = 'none';
+  document.getElementById('error').style.display = 'none';
+  document.getElementById('success').style.display = 'none';
+}
+function showError(msg) { const e = document.getElementById('error'); e.textContent = msg; e.style.display = 'block'; document.getElementById('success').style.display='none'; }
+function showSuccess(msg) { const e = document.getElementById('success'); e.textContent = msg; e.style.display = 'block'; document.getElementById('error').style.display='none'; }
+
+async function handleLogin(e) {
+  e.preventDefault();
+  try {
+    const res = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: document.getElementById('loginEmail').value, password: document.getElementById('loginPassword').value, session: 'cookie' })
+    });
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    localStorage.setItem('token_expires_at', data.expires_at || '');
+    if (invitationParam) { await acceptInvitation(); return false; }
+    window.location.href = nextUrl(data.user);
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+
+function showForgot(show) {
+  document.getElementById('loginForm').style.display = show ? 'none' : 'block';
+  document.getElementById('forgotForm').style.display = show ? 'block' : 'none';
+  document.getElementById('error').style.display = 'none';
+  document.getElementById('success').style.display = 'none';
+}
+
+async function handleForgot(e) {
+  e.preventDefault();
+  try {
+    const res = await fetch('/api/auth/forgot', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: document.getElementById('forgotEmail').value })
+    });
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    showSuccess(data.message);
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+
+async function handleRegister(e) {
+  e.preventDefault();
+  try {
+    const res = await fetch('/api/auth/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: document.getElementById('regName').value, school: document.getElementById('regSchool').value, email: document.getElementById('regEmail').value, password: document.getElementById('regPassword').value, org_id: parseInt(document.getElementById('regOrg').value) || null, invite_code: document.getElementById('regInvite').value.trim() || null, invitation: invitationParam || null, session: 'cookie' })
+    });
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    localStorage.setItem('token_expires_at', data.expires_at || '');
+    window.location.href = nextUrl(data.user);
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+
+// Pages gated on the server send people here with ?redirect=<path>; only same-site paths are honoured
+function nextUrl(user) {
+  if (user.must_change_password) return '/change-password';
+  if (user.status === 'pending') return '/pending';
+  const r = new URLSearchParams(location.search).get('redirect') || '';
+  if (r.charAt(0) === '/' && r.charAt(1) !== '/' && r.indexOf('\\\\') < 0) return r;
+  const perms = user.permissions || [];
+  if (perms.indexOf('members.read') >= 0) return '/admin';
+  if (perms.indexOf('events.read') >= 0) return '/admin/events';
+  return '/mypage';
+}
+
+// Sessions from before cookie login kept the token in localStorage: move it into the cookie once
+const legacyToken = localStorage.getItem('token');
+// The club choice only matters once there is more than one
+fetch('/api/organizations').then(r => r.ok ? r.json() : {}).then(d => {
+  const orgs = d.organizations || [];
+  const select = document.getElementById('regOrg');
+  for (const o of orgs) {
+    const opt = document.createElement('option');
+    opt.value = o.id;
+    opt.textContent = o.name;
+    select.appendChild(opt);
+  }
+  // An invite code or invitation already decides the club
+  if (orgs.length > 1 && !inviteParam && !invitationParam) document.getElementById('regOrgGroup').style.display = '';
+  if (orgs.length && !invitationParam) loadSchoolChoices(select.value);
+}).catch(() => {});
+document.getElementById('regOrg').addEventListener('change', function() { loadSchoolChoices(this.value); });
+
+// Suggests the club's registered schools; typing a name that is not listed still works
+async function loadSchoolChoices(orgId) {
+  const res = await fetch('/api/organizations/' + encodeURIComponent(orgId) + '/schools');
+  if (!res.ok) return;
+  const data = await res.json();
+  const list = document.getElementById('regSchoolList');
+  list.innerHTML = '';
+  for (const s of data.schools || []) {
+    const opt = document.createElement('option');
+    opt.value = s.name;
+    opt.label = [s.ward, s.school_type].filter(Boolean).join('・');
+    list.appendChild(opt);
+  }
+}
+
+// Invite links are /login?invite=CODE: open the registration form with the code filled in
+const inviteParam = new URLSearchParams(location.search).get('invite') || '';
+if (inviteParam) {
+  switchTab('register');
+  document.getElementById('regInvite').value = inviteParam;
+}
+
+// Personal invitations are /login?invitation=TOKEN: new people register, existing accounts join
+const invitationParam = new URLSearchParams(location.search).get('invitation') || '';
+const signedInName = ${scriptJson(user ? user.name : null)};
+
+async function loadInvitation() {
+  const banner = document.getElementById('invitationBanner');
+  const res = await fetch('/api/invitations/' + encodeURIComponent(invitationParam));
+  const data = await res.json();
+  if (!res.ok) { showError(data.error); return; }
+  const until = new Date(data.expires_at).toLocaleDateString('ja-JP');
+  document.getElementById('invitationText').textContent = data.org_name + ' に「' + data.role_label + '」として招待されています（' + until + ' まで）。' +
+    (signedInName ? '' : 'はじめての方は下の新規登録を、すでにアカウントをお持ちの方はログインしてください。');
+  banner.style.display = 'block';
+  if (signedInName) {
+    const btn = document.getElementById('btnAcceptInvitation');
+    btn.textContent = signedInName + ' さんのアカウントで参加する';
+    btn.style.display = '';
+    document.querySelector('.tabs').style.display = 'none';
+    document.getElementById('loginForm').style.display = 'none';
+    return;
+  }
+  switchTab('register');
+  document.getElementById('regInviteGroup').style.display = 'none';
+  if (data.school) document.getElementById('regSchool').value = data.school;
+  if (data.email) document.getElementById('regEmail').value = data.email;
+  loadSchoolChoices(data.org_id);
+}
+
+async function acceptInvitation() {
+  const res = await fetch('/api/invitations/' + encodeURIComponent(invitationParam) + '/accept', { method: 'POST', headers: authHeaders() });
+  const data = await res.json();
+  if (!res.ok) { showError(data.error); return; }
+  const me = await (await fetch('/api/auth/me', { headers: authHeaders() })).json();
+  window.location.href = nextUrl(me.user);
+}
+
+if (invitationParam) loadInvitation();
+
+if (legacyToken) {
+  fetch('/api/auth/cookie', { method: 'POST', headers: { 'Authorization': 'Bearer ' + legacyToken } })
+    .then(r => r.ok ? r.json() : {})
+    .then(d => { localStorage.removeItem('token'); localStorage.removeItem('user'); if (d.user) window.location.href = nextUrl(d.user); })
+    .catch(() => { localStorage.removeItem('token'); localStorage.removeItem('user'); });
+}
+</script>
+</body></html>`)
+})
+
+// --- First-run Setup Page ---
+app.get('/setup', async (c) => {
+  if (await hasAdmin(c.env.DB)) return c.redirect('/login')
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>初期セットアップ - 社会科同好会</title>
+<style>
+  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
+  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; }
+  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 20px; text-align: center; margin: 0 0 8px; }
+  .auth-card .sub { text-align: center; color: #888; font-size: 13px; margin-bottom: 24px; }
+  .form-group { margin-bottom: 18px; }
+  .form-group label { display: block; font-weight: 500; margin-bottom: 5px; font-size: 13px; color: #555; }
+  .form-group input { width: 100%; padding: 10px 14px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 15px; font-family: inherit; transition: border-color 0.2s; outline: none; }
+  .form-group input:focus { border-color: var(--header-line); }
+  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; transition: all 0.2s; }
+  .btn-primary { background: var(--header-line); color: #fff; }
+  .btn-primary:hover { background: #bf360c; }
+  .error-msg { background: #ffebee; color: #c62828; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .success-msg { background: #e8f5e9; color: #2e7d32; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .link-row { text-align: center; margin-top: 14px; font-size: 13px; }
+  .link-row a { color: var(--header-line); font-weight: 700; }
+</style>
+</head><body>
+<div class="auth-container">
+  <div class="auth-card">
+    <h1><i class="fas fa-tools"></i> 初期セットアップ</h1>
+    <div class="sub">データベースを準備し、最初の管理者アカウントを作成します</div>
+    <div id="error" class="error-msg"></div>
+    <div id="success" class="success-msg"></div>
+    <form id="setupForm" onsubmit="return handleSetup(event)">
+      <div class="form-group">
+        <label><i class="fas fa-key"></i> セットアップトークン（環境変数 SETUP_TOKEN の値）</label>
+        <input type="password" id="setupToken" required>
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-user"></i> お名前</label>
+        <input type="text" id="adminName" required>
       </div>
       <div class="form-group">
         <label><i class="fas fa-school"></i> 学校名</label>
-        <input type="text" id="regSchool" required placeholder="〇〇小学校">
+        <input type="text" id="adminSchool">
       </div>
       <div class="form-group">
         <label><i class="fas fa-envelope"></i> メールアドレス</label>
-        <input type="email" id="regEmail" required placeholder="example@email.com">
+        <input type="email" id="adminEmail" required>
       </div>
       <div class="form-group">
         <label><i class="fas fa-lock"></i> パスワード</label>
-        <input type="password" id="regPassword" required placeholder="4文字以上" minlength="4">
+        <input type="password" id="adminPassword" required placeholder="8文字以上" minlength="8">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-check"></i> セットアップする</button>
+    </form>
+    <div class="link-row" id="loginLink" style="display:none"><a href="/login">ログイン画面へ</a></div>
+  </div>
+</div>
+<script>
+function showError(msg) { const e = document.getElementById('error'); e.textContent = msg; e.style.display = 'block'; document.getElementById('success').style.display='none'; }
+function showSuccess(msg) { const e = document.getElementById('success'); e.textContent = msg; e.style.display = 'block'; document.getElementById('error').style.display='none'; }
+
+fetch('/api/setup/status').then(r => r.json()).then(d => {
+  if (!d.token_configured) showError('SETUP_TOKEN が設定されていません。環境変数（シークレット）に設定してから再度開いてください。');
+}).catch(() => {});
+
+async function handleSetup(e) {
+  e.preventDefault();
+  try {
+    const res = await fetch('/api/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        setup_token: document.getElementById('setupToken').value,
+        name: document.getElementById('adminName').value,
+        school: document.getElementById('adminSchool').value,
+        email: document.getElementById('adminEmail').value,
+        password: document.getElementById('adminPassword').value
+      })
+    });
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    document.getElementById('setupForm').style.display = 'none';
+    document.getElementById('loginLink').style.display = 'block';
+    showSuccess('セットアップが完了しました。作成した管理者アカウントでログインしてください。');
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+</script>
+</body></html>`)
+})
+
+// --- Password Reset Page (linked from the reset mail) ---
+app.get('/reset-password', (c) => {
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>パスワード再設定 - 社会科同好会</title>
+<style>
+  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
+  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; }
+  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 20px; text-align: center; margin: 0 0 20px; }
+  .form-group { margin-bottom: 18px; }
+  .form-group label { display: block; font-weight: 500; margin-bottom: 5px; font-size: 13px; color: #555; }
+  .form-group input { width: 100%; padding: 10px 14px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 15px; font-family: inherit; transition: border-color 0.2s; outline: none; }
+  .form-group input:focus { border-color: var(--header-line); }
+  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; transition: all 0.2s; }
+  .btn-primary { background: var(--header-line); color: #fff; }
+  .btn-primary:hover { background: #bf360c; }
+  .error-msg { background: #ffebee; color: #c62828; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .success-msg { background: #e8f5e9; color: #2e7d32; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+  .link-row { text-align: center; margin-top: 14px; font-size: 13px; }
+  .link-row a { color: var(--header-line); font-weight: 700; }
+</style>
+</head><body>
+<div class="auth-container">
+  <div class="auth-card">
+    <h1><i class="fas fa-key"></i> パスワード再設定</h1>
+    <div id="error" class="error-msg"></div>
+    <div id="success" class="success-msg"></div>
+    <form id="resetForm" onsubmit="return handleReset(event)">
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> 新しいパスワード</label>
+        <input type="password" id="newPassword" required placeholder="4文字以上" minlength="4">
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> 新しいパスワード（確認）</label>
+        <input type="password" id="newPassword2" required placeholder="もう一度入力" minlength="4">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-check"></i> パスワードを変更する</button>
+    </form>
+    <div class="link-row"><a href="/login">ログイン画面へ</a></div>
+  </div>
+</div>
+<script>
+const resetToken = new URLSearchParams(location.search).get('token') || '';
+function showError(msg) { const e = document.getElementById('error'); e.textContent = msg; e.style.display = 'block'; document.getElementById('success').style.display='none'; }
+function showSuccess(msg) { const e = document.getElementById('success'); e.textContent = msg; e.style.display = 'block'; document.getElementById('error').style.display='none'; }
+if (!resetToken) {
+  document.getElementById('resetForm').style.display = 'none';
+  showError('リンクが正しくありません。メールのリンクをもう一度開いてください。');
+}
+
+async function handleReset(e) {
+  e.preventDefault();
+  const p1 = document.getElementById('newPassword').value;
+  const p2 = document.getElementById('newPassword2').value;
+  if (p1 !== p2) { showError('確認用のパスワードが一致しません'); return false; }
+  try {
+    const res = await fetch('/api/auth/reset', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: resetToken, password: p1 })
+    });
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    localStorage.clear();
+    document.getElementById('resetForm').style.display = 'none';
+    showSuccess('パスワードを変更しました。新しいパスワードでログインしてください。');
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+</script>
+</body></html>`)
+})
+
+// --- Forced Password Change Page (after an admin-issued temporary password) ---
+app.get('/change-password', pageAuth(), (c) => {
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>パスワード変更 - 社会科同好会</title>
+<style>
+  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
+  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; }
+  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 20px; text-align: center; margin: 0 0 8px; }
+  .auth-card .sub { text-align: center; color: #888; font-size: 13px; margin-bottom: 24px; }
+  .form-group { margin-bottom: 18px; }
+  .form-group label { display: block; font-weight: 500; margin-bottom: 5px; font-size: 13px; color: #555; }
+  .form-group input { width: 100%; padding: 10px 14px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 15px; font-family: inherit; transition: border-color 0.2s; outline: none; }
+  .form-group input:focus { border-color: var(--header-line); }
+  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; transition: all 0.2s; }
+  .btn-primary { background: var(--header-line); color: #fff; }
+  .btn-primary:hover { background: #bf360c; }
+  .error-msg { background: #ffebee; color: #c62828; padding: 10px 14px; border-radius: 8px; font-size: 13px; margin-bottom: 16px; display: none; }
+</style>
+</head><body>
+<div class="auth-container">
+  <div class="auth-card">
+    <h1><i class="fas fa-user-lock"></i> パスワードの変更</h1>
+    <div class="sub">管理者が発行した仮パスワードでログインしています。<br>続けるには新しいパスワードを設定してください。</div>
+    <div id="error" class="error-msg"></div>
+    <form onsubmit="return handleChange(event)">
+      <div class="form-group">
+        <label><i class="fas fa-key"></i> 現在の（仮）パスワード</label>
+        <input type="password" id="currentPassword" required>
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> 新しいパスワード</label>
+        <input type="password" id="newPassword" required placeholder="4文字以上" minlength="4">
+      </div>
+      <div class="form-group">
+        <label><i class="fas fa-lock"></i> 新しいパスワード（確認）</label>
+        <input type="password" id="newPassword2" required placeholder="もう一度入力" minlength="4">
+      </div>
+      <button type="submit" class="btn btn-primary"><i class="fas fa-check"></i> 変更して続ける</button>
+    </form>
+  </div>
+</div>
+<script>
+${authClientScript}
+function showError(msg) { const e = document.getElementById('error'); e.textContent = msg; e.style.display = 'block'; }
+
+async function handleChange(e) {
+  e.preventDefault();
+  const p1 = document.getElementById('newPassword').value;
+  if (p1 !== document.getElementById('newPassword2').value) { showError('確認用のパスワードが一致しません'); return false; }
+  try {
+    const res = await fetch('/api/me/password', {
+      method: 'PUT',
+      headers: authHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ current_password: document.getElementById('currentPassword').value, new_password: p1 })
+    });
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return false; }
+    const data = await res.json();
+    if (!res.ok) { showError(data.error); return false; }
+    window.location.href = ${scriptJson(homePath(c.get('user')))};
+  } catch(err) { showError('通信エラーが発生しました'); }
+  return false;
+}
+</script>
+</body></html>`)
+})
+
+// --- Approval Waiting Page (self-registered members before an admin approves them) ---
+app.get('/pending', pageAuth(), (c) => {
+  const user = c.get('user')
+  if (user.status !== 'pending') return c.redirect(homePath(user))
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>承認待ち - 社会科同好会</title>
+<style>
+  .auth-container { max-width: 440px; margin: 60px auto; padding: 0 20px; }
+  .auth-card { background: #fff; border-radius: 16px; padding: 40px 32px; box-shadow: 0 4px 20px rgba(0,0,0,0.08); border: 2px solid #f0e6d2; text-align: center; }
+  .auth-card h1 { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 20px; margin: 0 0 12px; }
+  .auth-card .icon { font-size: 40px; color: #ffb300; margin-bottom: 12px; }
+  .auth-card .sub { color: #666; font-size: 14px; line-height: 1.8; margin-bottom: 24px; }
+  .org-row { font-size: 13px; color: #888; margin-bottom: 20px; }
+  .org-select { padding: 6px 10px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 13px; font-family: inherit; }
+  .btn { width: 100%; padding: 12px; border: none; border-radius: 10px; font-size: 15px; font-weight: 700; cursor: pointer; font-family: inherit; background: #eee; color: #666; }
+  .btn:hover { background: #ddd; }
+</style>
+</head><body>
+<div class="auth-container">
+  <div class="auth-card">
+    <div class="icon"><i class="fas fa-hourglass-half"></i></div>
+    <h1>承認をお待ちください</h1>
+    <div class="sub"><strong id="userName"></strong> さんの登録を受け付けました。<br>クラブの管理者が承認すると、マイページが使えるようになります。</div>
+    <div class="org-row"><i class="fas fa-users"></i> <span id="orgSwitcher"></span></div>
+    <button class="btn" onclick="logout()"><i class="fas fa-sign-out-alt"></i> ログアウト</button>
+  </div>
+</div>
+<script>
+${authClientScript}
+${orgSwitcherScript}
+const user = ${scriptJson(user)};
+document.getElementById('userName').textContent = user.name;
+document.getElementById('orgSwitcher').textContent = user.org_name;
+initOrgSwitcher('orgSwitcher');
+
+// Move on by itself once an admin approves
+setInterval(async function() {
+  try {
+    const res = await fetch('/api/auth/me', { headers: authHeaders() });
+    if (res.status === 401) { window.location.href = '/login'; return; }
+    const data = await res.json();
+    if (data.user && data.user.status !== 'pending') window.location.reload();
+  } catch(e) {}
+}, 30000);
+
+async function logout() {
+  try { await fetch('/api/auth/logout', { method:'POST', headers: authHeaders() }); } catch(e){}
+  window.location.href = '/login';
+}
+</script>
+</body></html>`)
+})
+
+// --- Member My Page (with interactive rubric) ---
+app.get('/mypage', pageAuth(), (c) => {
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>マイページ - 社会科同好会</title>
+<style>
+  .top-bar { background: #fff; border-bottom: 3px solid var(--header-line); padding: 10px 24px; display: flex; justify-content: space-between; align-items: center; position: sticky; top: 0; z-index: 100; }
+  .top-bar .logo { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 18px; font-weight: 700; }
+  .top-bar .user-info { display: flex; align-items: center; gap: 12px; font-size: 13px; }
+  .top-bar .user-info .name { font-weight: 700; color: #555; }
+  .org-switcher { font-weight: 700; color: var(--header-line); }
+  .org-select { padding: 4px 8px; border: 2px solid #e0d6c8; border-radius: 8px; font-family: inherit; font-size: 12px; font-weight: 700; color: var(--header-line); background: #fff; }
+  .btn-sm { padding: 6px 14px; border-radius: 8px; border: none; font-size: 12px; font-weight: 700; cursor: pointer; font-family: inherit; }
+  .btn-logout { background: #eee; color: #888; }
+  .btn-logout:hover { background: #ddd; }
+  .btn-save { background: var(--header-line); color: #fff; font-size: 14px; padding: 10px 28px; border-radius: 10px; }
+  .btn-save:hover { background: #bf360c; }
+  .btn-admin { background: #42a5f5; color: #fff; }
+  .btn-admin:hover { background: #1e88e5; }
+
+  .main { max-width: 1250px; margin: 20px auto; padding: 0 16px; }
+  .guide { background: #fff3e0; border-left: 4px solid #ffb74d; padding: 12px 16px; border-radius: 0 8px 8px 0; margin-bottom: 20px; font-size: 13px; color: #5d4037; }
+  .guide strong { color: #e65100; }
+
+  .container { max-width: 1250px; margin: 0 auto; background-color: #fff; padding: 20px 24px; box-shadow: 0 4px 15px rgba(0,0,0,0.05); border-radius: 12px; border: 2px solid #f0e6d2; overflow-x: auto; -webkit-overflow-scrolling: touch; }
+  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px dashed var(--header-line); padding-bottom: 8px; margin-bottom: 15px; }
+  .title-block h1 { font-family: 'Zen Maru Gothic', sans-serif; font-size: 22px; margin: 0; line-height: 1.2; color: var(--header-line); }
+  .title-block .subtitle { font-size: 12px; color: #666; margin-top: 4px; font-weight: 500; }
+
+  table { width: 100%; border-collapse: separate; border-spacing: 0; font-size: 10.5pt; table-layout: fixed; border-radius: 8px; overflow: hidden; border: 1px solid #ddd; min-width: 900px; }
+  th, td { border: 1px solid #e0e0e0; padding: 7px 9px; vertical-align: middle; word-wrap: break-word; }
+  .col-category { width: 30px; text-align: center; font-weight: bold; writing-mode: vertical-rl; letter-spacing: 3px; color: #fff; border-bottom: 1px solid rgba(255,255,255,0.3); }
+  .col-viewpoint { width: 85px; background-color: #fff8e1; font-weight: bold; color: #5d4037; font-family: 'Zen Maru Gothic', sans-serif; }
+  .col-step { width: 22%; background-color: #fff; vertical-align: top; cursor: pointer; transition: all 0.2s; position: relative; }
+  .col-step:hover { background-color: #fff8e1; }
+  .col-step.selected { background-color: #fff3e0; box-shadow: inset 0 0 0 3px var(--header-line); border-radius: 2px; }
+  .col-step.selected::after { content: '\\2713'; position: absolute; top: 4px; right: 6px; color: var(--header-line); font-size: 18px; font-weight: bold; }
+  thead th { text-align: center; background-color: #fff; border-bottom: 3px solid var(--header-line); padding: 8px 5px; }
+  .step-header { display: flex; flex-direction: column; align-items: center; }
+  .step-label { font-size: 13px; font-weight: bold; color: var(--header-line); margin-bottom: 2px; font-family: 'Zen Maru Gothic', sans-serif; }
+  .step-desc { font-size: 9px; font-weight: bold; color: #5d4037; background-color: #ffccbc; padding: 2px 8px; border-radius: 10px; white-space: nowrap; }
+  .cell-content { display: flex; flex-direction: column; }
+  .cell-content p { margin: 0 0 2px 0; font-size: 9.5pt; line-height: 1.4; }
+  .keyword { font-weight: bold; color: #bf360c; display: inline-block; margin-bottom: 3px; font-size: 10.5pt; font-family: 'Zen Maru Gothic', sans-serif; border-bottom: 2px dotted #ffab91; padding-bottom: 1px; }
+  .ss-term { background: linear-gradient(transparent 70%, #fff59d 70%); font-weight: bold; color: #555; }
+
+  .row-action td { background-color: #fff3e0; border-top: 3px solid #ffb74d; padding: 6px 8px; }
+  .action-list { margin: 0; padding-left: 14px; font-size: 9pt; list-style-type: none; }
+  .action-list li { margin-bottom: 2px; }
+  .action-list li::before { content: '\\1F449'; font-size: 8px; margin-right: 4px; }
+
+  .footer-note { margin-top: 15px; display: flex; justify-content: space-between; align-items: flex-start; font-size: 8.5pt; }
+  .save-area { text-align: center; margin-top: 20px; }
+  .save-status { font-size: 13px; color: #2e7d32; margin-top: 10px; display: none; }
+
+
+  .notes-card { background: #fff; border: 2px dashed #ffb74d; padding: 14px 16px; border-radius: 12px; margin: 12px 0 14px; }
+  .notes-card h2 { font-family: 'Zen Maru Gothic', sans-serif; font-size: 16px; margin: 0 0 8px; color: #e65100; display: flex; align-items: center; gap: 8px; }
+  .notes-card textarea { width: 100%; min-height: 84px; padding: 10px 12px; border: 2px solid #e0d6c8; border-radius: 10px; font-size: 14px; font-family: inherit; resize: vertical; outline: none; }
+  .notes-card textarea:focus { border-color: var(--header-line); }
+  .notes-meta { font-size: 12px; color: #888; margin-top: 6px; display: flex; justify-content: space-between; gap: 10px; flex-wrap: wrap; }
+
+  .account-card { background: #fff; border: 2px solid #f0e6d2; border-radius: 12px; padding: 16px; margin-top: 18px; box-shadow: 0 2px 10px rgba(0,0,0,0.04); }
+  .account-card h2 { margin: 0 0 12px; font-family: 'Zen Maru Gothic', sans-serif; color: #5d4037; font-size: 16px; display: flex; align-items: center; gap: 8px; }
+  .account-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 18px; }
+  .account-grid h3 { font-size: 14px; color: #555; margin: 0 0 8px; }
+  .account-field { margin-bottom: 10px; }
+  .account-field label { display: block; font-size: 12px; color: #777; margin-bottom: 3px; }
+  .account-field input { width: 100%; padding: 8px 12px; border: 2px solid #e0d6c8; border-radius: 8px; font-size: 14px; font-family: inherit; outline: none; }
+  .account-field input:focus { border-color: var(--header-line); }
+  .btn-account { background: #5d4037; color: #fff; padding: 8px 18px; border-radius: 8px; }
+  .btn-account:hover { background: #4e342e; }
+  .account-msg { font-size: 12px; margin-left: 8px; }
+  .session-item { display: flex; align-items: center; justify-content: space-between; gap: 10px; border-top: 1px solid #eee; padding: 8px 0; font-size: 13px; }
+  .session-item:first-child { border-top: none; }
+  .session-meta { color: #888; font-size: 12px; margin-top: 2px; }
+  .btn-revoke { background: #eee; color: #c62828; }
+  .btn-revoke:hover { background: #ffebee; }
+
+  .history-card { background: #fff; border: 2px solid #f0e6d2; border-radius: 12px; padding: 16px; margin-top: 18px; box-shadow: 0 2px 10px rgba(0,0,0,0.04); }
+  .history-header { display: flex; align-items: center; justify-content: space-between; gap: 12px; flex-wrap: wrap; }
+  .history-header h2 { margin: 0; font-family: 'Zen Maru Gothic', sans-serif; color: #2e7d32; font-size: 16px; display: flex; align-items: center; gap: 8px; }
+  .fy-select { padding: 6px 10px; border: 2px solid #ddd; border-radius: 8px; font-family: inherit; font-size: 13px; }
+  .fy-select:focus { outline: none; border-color: #2e7d32; }
+
+  .event-item { border-top: 1px solid #eee; padding: 12px 0; }
+  .event-item:first-child { border-top: none; }
+  .event-title { font-weight: 700; color: #444; }
+  .event-meta { color: #888; font-size: 12px; margin-top: 2px; display: flex; gap: 10px; flex-wrap: wrap; align-items: center; }
+  .tag { display: inline-block; padding: 2px 8px; border-radius: 999px; font-size: 11px; font-weight: 700; }
+  .tag-answered { background: #e8f5e9; color: #2e7d32; }
+  .tag-pending { background: #fff3e0; color: #e65100; }
+  .toggle-btn { background: #eee; border: none; border-radius: 8px; padding: 6px 10px; cursor: pointer; font-family: inherit; font-weight: 700; font-size: 12px; }
+  .toggle-btn:hover { background: #e0e0e0; }
+  .event-detail { display: none; margin-top: 10px; background: #fafafa; border: 1px solid #eee; border-radius: 10px; padding: 10px 12px; }
+  .event-detail.show { display: block; }
+  .qa { margin-top: 10px; }
+  .qa .q { font-weight: 700; font-size: 13px; margin-top: 8px; color: #555; }
+  .qa .a { color: #555; font-size: 13px; padding-left: 10px; border-left: 3px solid #ddd; margin-top: 4px; white-space: pre-wrap; }
+
+
+  .growth-card { background: #fff; border: 2px solid #f0e6d2; border-radius: 12px; padding: 16px; margin-top: 18px; box-shadow: 0 2px 10px rgba(0,0,0,0.04); }
+  .growth-card h2 { margin: 0 0 4px; font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 16px; display: flex; align-items: center; gap: 8px; }
+  .growth-card .sub { font-size: 12px; color: #888; margin-bottom: 8px; }
+  .growth-row { display: flex; align-items: center; gap: 10px; border-top: 1px solid #f3ede3; padding: 6px 0; }
+  .growth-row:first-of-type { border-top: none; }
+  .growth-label { width: 96px; flex-shrink: 0; font-weight: 700; color: #5d4037; font-size: 13px; font-family: 'Zen Maru Gothic', sans-serif; }
+  .growth-chart { flex: 1; min-width: 0; }
+  .growth-chart svg { width: 100%; height: 84px; display: block; }
+  .growth-years { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 2px; }
+  .growth-pill { font-size: 10px; padding: 1px 6px; border-radius: 8px; background: #f5f5f5; color: #777; white-space: nowrap; }
+  .growth-pill.s1 { background: #eceff1; color: #546e7a; }
+  .growth-pill.s2 { background: #e3f2fd; color: #1565c0; }
+  .growth-pill.s3 { background: #e8f5e9; color: #2e7d32; }
+  .growth-pill.s4 { background: #fbe9e7; color: #d84315; }
+
+  .old-version-note { margin-top: 4px; font-size: 8.5pt; color: #8d6e63; background: #efebe9; border-radius: 4px; padding: 2px 6px; }
+
+  .memo-input { width: 100%; margin-top: 6px; padding: 4px 6px; border: 1px solid #ccc; border-radius: 4px; font-size: 9pt; font-family: inherit; resize: none; display: none; }
+  .col-step.selected .memo-input { display: block; }
+
+  .scroll-hint { display: none; text-align: center; color: #999; font-size: 12px; margin-bottom: 8px; animation: pulse 2s infinite; }
+  @keyframes pulse { 0%,100%{opacity:0.5} 50%{opacity:1} }
+
+  @media (max-width: 768px) {
+    .top-bar { padding: 8px 12px; flex-wrap: wrap; gap: 6px; }
+    .top-bar .logo { font-size: 15px; }
+    .top-bar .user-info { gap: 6px; font-size: 11px; }
+    .top-bar .user-info .name { display: none; }
+    .btn-sm { padding: 5px 10px; font-size: 11px; }
+    .main { padding: 0 8px; margin: 12px auto; }
+    .guide { font-size: 12px; padding: 10px 12px; }
+    .container { padding: 12px; border-radius: 8px; }
+    .header { flex-direction: column; align-items: flex-start; }
+    .title-block h1 { font-size: 18px; }
+    .scroll-hint { display: block; }
+    .footer-note { flex-direction: column; gap: 8px; }
+    .footer-note > div { max-width: 100% !important; text-align: left !important; }
+    .save-area { margin-top: 16px; }
+    .save-area .btn-sm { padding: 12px 20px; font-size: 15px; }
+  }
+
+  @media print {
+    .top-bar, .guide, .save-area, .memo-input, .scroll-hint, .account-card { display: none !important; }
+    @page { size: A4 landscape; margin: 5mm; }
+    body { width: 287mm; height: 200mm; margin: 0; padding: 0; background-color: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; zoom: 90%; }
+    .container { max-width: none; box-shadow: none; border: none; padding: 0; margin: 0; }
+    .col-step.selected { box-shadow: inset 0 0 0 2px var(--header-line); }
+    .col-step.selected::after { font-size: 14px; }
+    table { font-size: 8.5pt; }
+    th, td { padding: 4px 6px; }
+    .keyword { font-size: 9.5pt; }
+    .cell-content p { font-size: 8.5pt; line-height: 1.3; }
+    .growth-card { break-before: page; page-break-before: always; box-shadow: none; border: none; padding: 0; margin: 0; }
+    .growth-row { break-inside: avoid; page-break-inside: avoid; }
+    .growth-chart svg { height: 70px; }
+  }
+</style>
+</head><body>
+<div class="top-bar">
+  <div class="logo"><i class="fas fa-map"></i> 社会科同好会</div>
+  <div class="user-info">
+    <span class="org-switcher" id="orgSwitcher"></span>
+    <span class="name" id="userName"></span>
+    <span id="adminLink"></span>
+    <button class="btn-sm btn-logout" onclick="logout()"><i class="fas fa-sign-out-alt"></i> ログアウト</button>
+  </div>
+</div>
+
+<div class="main">
+  <div class="guide">
+    <strong><i class="fas fa-hand-pointer"></i> 使い方：</strong>
+    今の自分に当てはまるステップのセルをクリックしてください。各視点ごとに1つ選べます。メモも書けます。最後に「保存する」を押すと記録されます。
+  </div>
+
+  <div class="container">
+    <div class="header">
+      <div class="title-block">
+        <h1>社会科同好会 成長の道しるべ</h1>
+        <div class="subtitle">授業も、つながりも。あなたのペースで歩むガイドマップ</div>
       </div>
-      <button type="submit" class="btn btn-primary"><i class="fas fa-user-plus"></i> 登録する</button>
-    </form>
+    </div>
+    <div class="notes-card" style="border-style:solid;border-color:#ffe0b2;margin-top:16px">
+      <h2 style="color:#e65100"><i class="fas fa-bullseye"></i> 今年度の目標 <span style="font-size:12px;color:#888;font-weight:500" id="fyLabel"></span></h2>
+      <textarea id="annualGoal" placeholder="例：月に1回は授業づくりの相談をする、FWに1回参加する など"></textarea>
+      <div class="notes-meta"><span>※自分だけが見られます</span><span id="annualSavedAt"></span></div>
+    </div>
+
+
+    <div class="scroll-hint"><i class="fas fa-arrows-alt-h"></i> 横にスクロールできます</div>
+    <table id="rubricTable">
+      <thead id="rubricHead"></thead>
+      <tbody id="rubricBody"><tr><td style="text-align:center;color:#888;padding:24px">読み込み中...</td></tr></tbody>
+    </table>
+    <div class="footer-note">
+      <div style="color:#666"><strong>カテゴリ：</strong><span id="categoryLegend"></span></div>
+      <div style="color:#777;text-align:right;max-width:60%">※これは「ここまでやらなきゃいけない」というノルマではありません。<br>今の自分に合った「次の一歩」を見つけるための地図として使ってください。</div>
+    </div>
+
+    <div class="notes-card" style="border-style:solid;border-color:#bbdefb;margin-top:16px">
+      <h2 style="color:#1565c0"><i class="fas fa-pen"></i> 今年度の振り返り</h2>
+      <textarea id="annualReflection" placeholder="今年度の参加や学び、次につながったことなど"></textarea>
+      <div class="notes-meta"><span>※自分だけが見られます</span><span id="annualSavedAt2"></span></div>
+    </div>
+
+
+  </div>
+
+  <div class="save-area">
+    <button id="btnSave" type="button" class="btn-sm btn-save" onclick="saveSelections()"><i class="fas fa-save"></i> 保存する</button>
+    <button id="btnPrint" type="button" class="btn-sm" style="background:#eee;color:#666;padding:10px 20px;border:none;border-radius:10px;margin-left:8px;cursor:pointer;font-family:inherit;font-weight:700" onclick="handlePrint()"><i class="fas fa-print"></i> 印刷する</button>
+    <div class="save-status" id="saveStatus"></div>
+  </div>
+
+  <div class="growth-card">
+    <h2><i class="fas fa-chart-line"></i> 成長のあしあと</h2>
+    <div class="sub">視点ごとに、これまで選んだステップの移り変わりを年度ごとに表示します。</div>
+    <div id="growthList" style="color:#666;font-size:13px">読み込み中...</div>
+  </div>
+
+  <div class="history-card">
+    <div class="history-header">
+      <h2><i class="fas fa-calendar-check"></i> 参加した会・アンケート（自分用）</h2>
+      <select class="fy-select" id="fySelect" onchange="changeFY()"></select>
+    </div>
+    <div id="historyList" style="margin-top:10px;color:#666;font-size:13px">読み込み中...</div>
   </div>
+
+  <div class="account-card">
+    <h2><i class="fas fa-user-cog"></i> アカウント設定</h2>
+    <div class="account-grid">
+      <form id="profileForm">
+        <h3>プロフィール</h3>
+        <div class="account-field"><label>お名前</label><input type="text" id="profName" required></div>
+        <div class="account-field"><label>学校名（異動したら更新してください）</label><input type="text" id="profSchool" required list="profSchoolList" autocomplete="off"><datalist id="profSchoolList"></datalist></div>
+        <div class="account-field" id="schoolMoveFields" style="display:none">
+          <label>異動した日</label><input type="date" id="profSchoolSince">
+          <label style="margin-top:4px"><input type="checkbox" id="profSchoolCorrection" style="width:auto"> 異動ではなく学校名の入力を直すだけ</label>
+        </div>
+        <div class="account-field" id="schoolHistory" style="font-size:12px;color:#777"></div>
+        <div class="account-field"><label>メールアドレス</label><input type="email" id="profEmail" required></div>
+        <div class="account-field" id="emailChangeFields" style="display:none"><label>現在のパスワード（メールアドレスの変更に必要です）</label><input type="password" id="profEmailPassword" autocomplete="current-password"></div>
+        <button type="submit" class="btn-sm btn-account"><i class="fas fa-save"></i> プロフィールを保存</button><span class="account-msg" id="profileMsg"></span>
+      </form>
+      <form id="passwordForm">
+        <h3>パスワード変更</h3>
+        <div class="account-field"><label>現在のパスワード</label><input type="password" id="pwCurrent" required></div>
+        <div class="account-field"><label>新しいパスワード</label><input type="password" id="pwNew" required minlength="4" placeholder="4文字以上"></div>
+        <div class="account-field"><label>新しいパスワード（確認）</label><input type="password" id="pwNew2" required minlength="4"></div>
+        <button type="submit" class="btn-sm btn-account"><i class="fas fa-key"></i> パスワードを変更</button><span class="account-msg" id="passwordMsg"></span>
+      </form>
+    </div>
+    <h3 style="font-size:14px;color:#555;margin:18px 0 6px">ログイン中の端末</h3>
+    <div id="sessionList" style="color:#666;font-size:13px">読み込み中...</div>
+  </div>
+
 </div>
+
 <script>
-function switchTab(tab) {
-  document.querySelectorAll('.tab').forEach((t,i) => {
-    t.classList.toggle('active', (tab==='login' && i===0) || (tab==='register' && i===1));
+${authClientScript}
+${orgSwitcherScript}
+const user = ${scriptJson(c.get('user'))};
+
+let rubric = null;
+let rubricVersion = 0;
+let viewpoints = [];
+const vpLabels = Object.create(null);
+const stepColors = { 1:'#78909c', 2:'#42a5f5', 3:'#66bb6a', 4:'#ff7043' };
+const selectedByVp = Object.create(null);
+let selectionsLoaded = false;
+
+
+function currentFY() {
+  const d = new Date();
+  const y = d.getFullYear();
+  const m = d.getMonth() + 1;
+  return m >= 4 ? y : (y - 1);
+}
+
+let activeFY = currentFY();
+
+function esc(s) {
+  return (s ?? '').toString().replace(/[&<>"']/g, (ch) => ({
+    '&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;', "'":'&#39;'
+  }[ch]));
+}
+
+function fetchWithTimeout(url, options, timeoutMs) {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeoutMs || 12000);
+  const opts = Object.assign({}, options || {}, { signal: controller.signal });
+  return fetch(url, opts).finally(() => clearTimeout(id));
+}
+
+// Renew the session while the page is open so a long editing session never hits the idle timeout
+const REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+async function refreshSessionIfNeeded() {
+  const expiresAt = Date.parse(localStorage.getItem('token_expires_at') || '');
+  if (!isNaN(expiresAt) && expiresAt - Date.now() > REFRESH_MARGIN_MS) return;
+  try {
+    const res = await fetchWithTimeout('/api/auth/refresh', {
+      method: 'POST',
+      headers: authHeaders()
+    }, 12000);
+    if (!res.ok) return;
+    const data = await res.json();
+    localStorage.setItem('token_expires_at', data.expires_at || '');
+  } catch(e) {}
+}
+
+function showSaveStatus(message, ok) {
+  const el = document.getElementById('saveStatus');
+  if (!el) return;
+  const safe = esc(message || '');
+  el.style.display = 'block';
+  el.style.background = ok ? '#e8f5e9' : '#ffebee';
+  el.style.color = ok ? '#2e7d32' : '#c62828';
+  el.innerHTML = (ok ? '<i class="fas fa-check-circle"></i> ' : '<i class="fas fa-exclamation-triangle"></i> ') + safe;
+
+  if (showSaveStatus._t) clearTimeout(showSaveStatus._t);
+  showSaveStatus._t = setTimeout(() => { el.style.display = 'none'; }, 4000);
+}
+
+function setupFYSelect() {
+  const sel = document.getElementById('fySelect');
+  if (!sel) return;
+  const now = currentFY();
+  sel.innerHTML = '';
+  for (let y = now; y >= now - 3; y--) {
+    const opt = document.createElement('option');
+    opt.value = String(y);
+    opt.textContent = y + '年度';
+    sel.appendChild(opt);
+  }
+  sel.value = String(activeFY);
+  const label = document.getElementById('fyLabel');
+  if (label) label.textContent = '(' + activeFY + '年度)';
+}
+
+function changeFY() {
+  const sel = document.getElementById('fySelect');
+  if (!sel) return;
+  activeFY = parseInt(sel.value, 10);
+  const label = document.getElementById('fyLabel');
+  if (label) label.textContent = '(' + activeFY + '年度)';
+  loadAnnualNotes();
+  loadHistory();
+}
+
+async function loadAnnualNotes() {
+  try {
+    const res = await fetchWithTimeout('/api/me/annual-notes?fy=' + activeFY, { headers: authHeaders() }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
+    const data = await res.json();
+    const g = document.getElementById('annualGoal');
+    const r = document.getElementById('annualReflection');
+    if (g) g.value = (data.goal || '');
+    if (r) r.value = (data.reflection || '');
+
+    const at = data.updated_at ? ('最終更新：' + new Date(data.updated_at).toLocaleString('ja-JP')) : '';
+    const s1 = document.getElementById('annualSavedAt');
+    const s2 = document.getElementById('annualSavedAt2');
+    if (s1) s1.textContent = at;
+    if (s2) s2.textContent = at;
+  } catch(e) {
+    console.error(e);
+  }
+}
+
+async function saveAnnualNotes() {
+  const gEl = document.getElementById('annualGoal');
+  const rEl = document.getElementById('annualReflection');
+  const g = gEl ? gEl.value : '';
+  const r = rEl ? rEl.value : '';
+
+  const res = await fetchWithTimeout('/api/me/annual-notes', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ fiscal_year: activeFY, goal: g, reflection: r })
+  }, 12000);
+
+  if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+  if (!res.ok) {
+    let data = {};
+    try { data = await res.json(); } catch(e) {}
+    throw new Error(data.error || ('保存に失敗しました（' + res.status + '）'));
+  }
+}
+
+function toggleDetail(id) {
+  const el = document.getElementById(id);
+  if (!el) return;
+  el.classList.toggle('show');
+}
+
+function renderHistory(events) {
+  const root = document.getElementById('historyList');
+  if (!root) return;
+
+  if (!events || events.length === 0) {
+    root.innerHTML = '<div style="color:#888">この年度は、出席した会がまだありません。</div>';
+    return;
+  }
+
+  let html = '';
+  for (const ev0 of events) {
+    const ev = ev0 || {};
+    const answered = !!(ev.survey && ev.survey.answered_at);
+    const tag = answered
+      ? '<span class="tag tag-answered">回答済み</span>'
+      : '<span class="tag tag-pending">未回答</span>';
+
+    const detailId = 'detail_' + ev.event_id;
+    const sat = (ev.survey && ev.survey.satisfaction) ? ('満足度：' + ev.survey.satisfaction + ' / 5') : '満足度：—';
+    const comment = (ev.survey && ev.survey.comment) ? esc(ev.survey.comment) : '（自由記述なし）';
+
+    let qaHtml = '';
+    if (Array.isArray(ev.questions) && ev.questions.length > 0) {
+      qaHtml += '<div class="qa"><div style="font-weight:700;color:#555;margin-top:8px">追加質問</div>';
+      for (const q0 of ev.questions) {
+        const q = q0 || {};
+        const a = (q.answer_text && q.answer_text.trim()) ? esc(q.answer_text) : '（未回答）';
+        qaHtml += '<div class="q">Q. ' + esc(q.question_text || '') + '</div><div class="a">' + a + '</div>';
+      }
+      qaHtml += '</div>';
+    }
+
+    html += ''
+      + '<div class="event-item">'
+      +   '<div style="display:flex;justify-content:space-between;gap:10px;align-items:flex-start;flex-wrap:wrap">'
+      +     '<div>'
+      +       '<div class="event-title">' + esc(ev.title || '') + '</div>'
+      +       '<div class="event-meta">'
+      +         '<span><i class="fas fa-calendar-day"></i> ' + esc(ev.event_date || '') + '</span>'
+      +         tag
+      +       '</div>'
+      +     '</div>'
+      +     '<button class="toggle-btn" type="button" data-detail="' + esc(detailId) + '"><i class="fas fa-eye"></i> 振り返りを見る</button>'
+      +   '</div>'
+      +   '<div class="event-detail" id="' + esc(detailId) + '">'
+      +     '<div style="font-weight:700;color:#555">' + esc(sat) + '</div>'
+      +     '<div style="margin-top:6px;color:#555;white-space:pre-wrap">' + comment + '</div>'
+      +     qaHtml
+      +   '</div>'
+      + '</div>';
+  }
+
+  root.innerHTML = html;
+
+  // Attach toggle handlers
+  root.querySelectorAll('.toggle-btn').forEach((btn) => {
+    btn.addEventListener('click', () => {
+      const id = btn.getAttribute('data-detail');
+      if (id) toggleDetail(id);
+    });
   });
-  document.getElementById('loginForm').style.display = tab==='login' ? 'block' : 'none';
-  document.getElementById('registerForm').style.display = tab==='register' ? 'block' : 'none';
-  document.getElementById('error').style.display = 'none';
-  document.getElementById('success').style.display = 'none';
 }
-function showError(msg) { const e = document.getElementById('error'); e.textContent = msg; e.style.display = 'block'; document.getElementById('success').style.display='none'; }
-function showSuccess(msg) { const e = document.getElementById('success'); e.textContent = msg; e.style.display = 'block'; document.getElementById('error').style.display='none'; }
 
-async function handleLogin(e) {
+async function loadHistory() {
+  const root = document.getElementById('historyList');
+  if (root) root.textContent = '読み込み中...';
+  try {
+    const res = await fetchWithTimeout('/api/me/history?fy=' + activeFY, { headers: authHeaders() }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
+    const data = await res.json();
+    renderHistory((data && data.events) ? data.events : []);
+  } catch(e) {
+    console.error(e);
+    if (root) root.innerHTML = '<div style="color:#c62828">読み込みに失敗しました（通信が不安定か、サーバーが応答していません）</div>';
+  }
+}
+
+// Minimal markup used in rubric texts: **bold** and [[highlighted term]]
+function richText(s) {
+  return esc(s).split('**').map((part, i) => {
+    const html = part.split('[[').map((seg, j) => {
+      if (j === 0) return seg;
+      const k = seg.indexOf(']]');
+      return k < 0 ? '[[' + seg : '<span class="ss-term">' + seg.slice(0, k) + '</span>' + seg.slice(k + 2);
+    }).join('');
+    return i % 2 === 1 ? '<strong>' + html + '</strong>' : html;
+  }).join('');
+}
+
+function renderRubric(def) {
+  const head = document.getElementById('rubricHead');
+  const body = document.getElementById('rubricBody');
+  if (!head || !body) return;
+
+  let h = '<tr><th colspan="2" style="background-color: #fff8e1; border-bottom: 3px solid #5d4037;">成長の視点</th>';
+  for (const st of def.steps) {
+    h += '<th><div class="step-header"><span class="step-label">STEP ' + st.step + '</span><span class="step-desc">' + esc((st.icon ? st.icon + ' ' : '') + st.title) + '</span></div></th>';
+  }
+  head.innerHTML = h + '</tr>';
+
+  let b = '';
+  for (const cat of def.categories) {
+    const vps = def.viewpoints.filter((vp) => vp.category === cat.key);
+    vps.forEach((vp, i) => {
+      b += '<tr>';
+      if (i === 0) {
+        b += '<td class="col-category" rowspan="' + vps.length + '" style="background-color:' + esc(cat.color) + '">' + esc(cat.label).split('・').join('<br>') + '</td>';
+      }
+      b += '<td class="col-viewpoint"><div>' + esc(vp.label) + '</div><div style="font-size:9px;color:#888;margin-top:2px">' + esc(vp.sublabel || '') + '</div></td>';
+      vp.cells.forEach((cell, j) => {
+        b += '<td class="col-step" data-vp="' + esc(vp.key) + '" data-step="' + (j + 1) + '" onclick="selectCell(this)">'
+          + '<div class="cell-content"><span class="keyword">' + esc(cell.keyword) + '</span><p>' + richText(cell.text) + '</p></div>'
+          + '<textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>';
+      });
+      b += '</tr>';
+    });
+  }
+  b += '<tr class="row-action"><td colspan="2" style="text-align:right;font-weight:bold;padding-right:20px;color:#e65100"><i class="fas fa-shoe-prints"></i> おすすめのアクション</td>';
+  for (const st of def.steps) {
+    b += '<td><ul class="action-list">' + (st.actions || []).map((a) => '<li>' + richText(a) + '</li>').join('') + '</ul></td>';
+  }
+  body.innerHTML = b + '</tr>';
+
+  const legend = document.getElementById('categoryLegend');
+  if (legend) legend.innerHTML = def.categories.map((cat) => '<span style="color:' + esc(cat.color) + '">■ ' + esc(cat.label) + '</span>').join(' ');
+}
+
+async function loadRubric() {
+  const res = await fetchWithTimeout('/api/rubric', {}, 12000);
+  if (!res.ok) throw new Error('ルーブリックの読み込みに失敗しました（' + res.status + '）');
+  const data = await res.json();
+  rubric = data.rubric;
+  rubricVersion = data.version || 0;
+  viewpoints = rubric.viewpoints.map((vp) => vp.key);
+  for (const vp of rubric.viewpoints) vpLabels[vp.key] = vp.label;
+  renderRubric(rubric);
+  attachMemoListeners();
+}
+
+// History timestamps are UTC 'YYYY-MM-DD HH:MM:SS' strings from D1
+function parseDbDate(s) {
+  return new Date(String(s || '').replace(' ', 'T') + 'Z');
+}
+
+function fiscalYearOf(d) {
+  const m = d.getMonth() + 1;
+  return m >= 4 ? d.getFullYear() : d.getFullYear() - 1;
+}
+
+// Step in effect at the end of each fiscal year (null when nothing was selected)
+function stepsByFiscalYear(entries, fys) {
+  const out = {};
+  let idx = 0;
+  let cur = null;
+  for (const fy of fys) {
+    const end = new Date(fy + 1, 3, 1);
+    while (idx < entries.length && entries[idx].at < end) {
+      cur = entries[idx].step;
+      idx++;
+    }
+    out[fy] = cur;
+  }
+  return out;
+}
+
+function growthSvg(entries, t0, t1, fys) {
+  const W = 600, H = 84, left = 26, right = 8, top = 14, bottom = 8;
+  const span = Math.max(1, t1 - t0);
+  const x = (t) => left + (W - left - right) * Math.min(1, Math.max(0, (t - t0) / span));
+  const y = (step) => top + (H - top - bottom) * (4 - step) / 3;
+
+  let svg = '<svg viewBox="0 0 ' + W + ' ' + H + '" preserveAspectRatio="none" role="img">';
+  for (let st = 1; st <= 4; st++) {
+    svg += '<line x1="' + left + '" x2="' + (W - right) + '" y1="' + y(st) + '" y2="' + y(st) + '" stroke="#eee" stroke-width="1"/>';
+    svg += '<text x="2" y="' + (y(st) + 3) + '" font-size="9" fill="#aaa">S' + st + '</text>';
+  }
+  for (const fy of fys) {
+    const fx = x(new Date(fy, 3, 1).getTime());
+    svg += '<line x1="' + fx + '" x2="' + fx + '" y1="' + (top - 4) + '" y2="' + (H - bottom) + '" stroke="#ddd" stroke-dasharray="3,3"/>';
+    svg += '<text x="' + (fx + 3) + '" y="9" font-size="9" fill="#999">' + fy + '年度</text>';
+  }
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    if (!e.step) continue;
+    const x1 = x(e.at.getTime());
+    const x2 = i + 1 < entries.length ? x(entries[i + 1].at.getTime()) : x(t1);
+    const color = stepColors[e.step] || '#999';
+    svg += '<line x1="' + x1 + '" x2="' + x2 + '" y1="' + y(e.step) + '" y2="' + y(e.step) + '" stroke="' + color + '" stroke-width="3"/>';
+    if (i + 1 < entries.length && entries[i + 1].step) {
+      svg += '<line x1="' + x2 + '" x2="' + x2 + '" y1="' + y(e.step) + '" y2="' + y(entries[i + 1].step) + '" stroke="#bbb" stroke-width="1"/>';
+    }
+    svg += '<circle cx="' + x1 + '" cy="' + y(e.step) + '" r="4" fill="' + color + '"><title>' + esc(e.at.toLocaleDateString('ja-JP')) + ' STEP' + e.step + '</title></circle>';
+  }
+  svg += '</svg>';
+  return svg;
+}
+
+function renderGrowth(history) {
+  const root = document.getElementById('growthList');
+  if (!root) return;
+  if (!history || history.length === 0) {
+    root.innerHTML = '<div style="color:#888">まだ記録がありません。ステップを選んで保存すると、ここに成長の記録が残ります。</div>';
+    return;
+  }
+
+  const byVp = Object.create(null);
+  let first = null;
+  for (const h0 of history) {
+    const h = h0 || {};
+    if (!h.viewpoint) continue;
+    const at = parseDbDate(h.created_at);
+    if (isNaN(at.getTime())) continue;
+    if (!byVp[h.viewpoint]) byVp[h.viewpoint] = [];
+    byVp[h.viewpoint].push({ at: at, step: h.action === 'delete' ? null : parseInt(String(h.step || '0'), 10) || null });
+    if (!first || at < first) first = at;
+  }
+
+  const nowFY = currentFY();
+  const firstFY = Math.min(first ? fiscalYearOf(first) : nowFY, nowFY - 1);
+  const fys = [];
+  for (let fy = firstFY; fy <= nowFY; fy++) fys.push(fy);
+  const t0 = new Date(firstFY, 3, 1).getTime();
+  const t1 = Date.now();
+
+  let html = '';
+  for (const vp of viewpoints) {
+    const entries = byVp[vp] || [];
+    const steps = stepsByFiscalYear(entries, fys);
+    let pills = '';
+    for (const fy of fys) {
+      const st = steps[fy];
+      pills += '<span class="growth-pill' + (st ? ' s' + st : '') + '">' + fy + '年度：' + (st ? 'STEP' + st : '—') + '</span>';
+    }
+    html += '<div class="growth-row">'
+      + '<div class="growth-label">' + esc(vpLabels[vp] || vp) + '</div>'
+      + '<div class="growth-chart">' + growthSvg(entries, t0, t1, fys) + '<div class="growth-years">' + pills + '</div></div>'
+      + '</div>';
+  }
+  root.innerHTML = html;
+}
+
+async function loadGrowth() {
+  const root = document.getElementById('growthList');
+  try {
+    const res = await fetchWithTimeout('/api/me/selections/history', { headers: authHeaders() }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
+    const data = await res.json();
+    renderGrowth((data && data.history) ? data.history : []);
+  } catch(e) {
+    console.error(e);
+    if (root) root.innerHTML = '<div style="color:#c62828">成長の記録を読み込めませんでした</div>';
+  }
+}
+
+function selectCell(td) {
+  const vp = td.getAttribute('data-vp') || '';
+  const step = parseInt(td.getAttribute('data-step') || '0', 10);
+  if (!vp || !step) return;
+
+  // radio behavior per viewpoint
+  document.querySelectorAll('.col-step[data-vp="' + vp + '"]').forEach((el) => el.classList.remove('selected'));
+  td.classList.add('selected');
+
+  const memoEl = td.querySelector('.memo-input');
+  selectedByVp[vp] = { step: step, memo: memoEl ? memoEl.value : '' };
+}
+
+function attachMemoListeners() {
+  document.querySelectorAll('.col-step').forEach((cell) => {
+    const vp = cell.getAttribute('data-vp') || '';
+    const step = parseInt(cell.getAttribute('data-step') || '0', 10);
+    const memo = cell.querySelector('.memo-input');
+    if (!vp || !step || !memo) return;
+    memo.addEventListener('input', () => {
+      const cur = selectedByVp[vp];
+      if (cur && cur.step === step) cur.memo = memo.value;
+    });
+  });
+}
+
+function clearSelectionsUI() {
+  document.querySelectorAll('.col-step.selected').forEach((el) => el.classList.remove('selected'));
+  for (const vp of viewpoints) delete selectedByVp[vp];
+}
+
+async function loadSelections() {
+  selectionsLoaded = false;
+  try {
+    const res = await fetchWithTimeout('/api/selections', { headers: authHeaders() }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
+    const data = await res.json();
+    clearSelectionsUI();
+
+    const selections = (data && data.selections) ? data.selections : [];
+    for (const s0 of selections) {
+      const s = s0 || {};
+      const vp = s.viewpoint || '';
+      const step = parseInt(String(s.step || '0'), 10);
+      if (!vp || !step) continue;
+
+      // If multiple rows exist for the same viewpoint, the last one wins.
+      selectedByVp[vp] = { step: step, memo: s.memo || '' };
+    }
+
+    for (const vp of viewpoints) {
+      const sel = selectedByVp[vp];
+      if (!sel) continue;
+      const cell = document.querySelector('.col-step[data-vp="' + vp + '"][data-step="' + sel.step + '"]');
+      if (cell) {
+        cell.classList.add('selected');
+        const memo = cell.querySelector('.memo-input');
+        if (memo) memo.value = sel.memo || '';
+      }
+    }
+    showOldVersionNotes(selections);
+  } catch(e) {
+    console.error(e);
+  } finally {
+    selectionsLoaded = true;
+  }
+}
+
+// Selections made under an earlier rubric wording show what the step said back then
+async function showOldVersionNotes(selections) {
+  document.querySelectorAll('.old-version-note').forEach((el) => el.remove());
+  const cache = Object.create(null);
+  for (const s of selections) {
+    const v = s && s.rubric_version_id;
+    if (!v || v === rubricVersion) continue;
+    try {
+      if (!cache[v]) {
+        const res = await fetchWithTimeout('/api/rubric?version=' + v, {}, 12000);
+        cache[v] = res.ok ? (await res.json()).rubric : null;
+      }
+      const old = cache[v];
+      const oldVp = old && old.viewpoints.find((x) => x.key === s.viewpoint);
+      const oldCell = oldVp && oldVp.cells[s.step - 1];
+      const cell = document.querySelector('.col-step[data-vp="' + s.viewpoint + '"][data-step="' + s.step + '"]');
+      if (!oldCell || !cell) continue;
+      const note = document.createElement('div');
+      note.className = 'old-version-note';
+      note.textContent = '前の版（第' + v + '版）で選択：「' + oldCell.keyword + '」';
+      cell.querySelector('.cell-content').appendChild(note);
+    } catch(e) {
+      console.error(e);
+    }
+  }
+}
+
+async function saveSelections() {
+  if (!selectionsLoaded) {
+    showSaveStatus('読み込み中です。少し待ってから保存してください。', false);
+    return;
+  }
+
+  const btn = document.getElementById('btnSave');
+  const prev = btn ? btn.innerHTML : '';
+  if (btn) {
+    btn.disabled = true;
+    btn.innerHTML = '<i class="fas fa-spinner fa-spin"></i> 保存中...';
+  }
+
+  try {
+    const tasks = [];
+
+    for (const vp of viewpoints) {
+      const sel = selectedByVp[vp];
+      if (sel && sel.step) {
+        // Get latest memo from DOM (in case)
+        const cell = document.querySelector('.col-step[data-vp="' + vp + '"][data-step="' + sel.step + '"]');
+        let memo = sel.memo || '';
+        if (cell) {
+          const memoEl = cell.querySelector('.memo-input');
+          if (memoEl) memo = memoEl.value;
+        }
+
+        tasks.push(fetchWithTimeout('/api/selections', {
+          method: 'POST',
+          headers: authHeaders({ 'Content-Type': 'application/json' }),
+          body: JSON.stringify({ viewpoint: vp, step: sel.step, memo: memo })
+        }, 12000));
+      } else {
+        tasks.push(fetchWithTimeout('/api/selections/' + vp, {
+          method: 'DELETE',
+          headers: authHeaders()
+        }, 12000));
+      }
+    }
+
+    // Also save annual notes
+    await Promise.all(tasks);
+    await saveAnnualNotes();
+    loadGrowth();
+
+    showSaveStatus('保存しました', true);
+  } catch(e) {
+    console.error(e);
+    showSaveStatus((e && e.message) ? e.message : '保存に失敗しました', false);
+  } finally {
+    if (btn) {
+      btn.disabled = false;
+      btn.innerHTML = prev;
+    }
+  }
+}
+
+function renderUserName() {
+  const userName = document.getElementById('userName');
+  if (userName) userName.textContent = user.name + ' さん' + (user.school ? '（' + user.school + '）' : '');
+}
+
+function fillProfileForm() {
+  document.getElementById('profName').value = user.name || '';
+  document.getElementById('profSchool').value = user.school || '';
+  document.getElementById('profEmail').value = user.email || '';
+  loadSchoolChoices();
+  loadSchoolHistory();
+}
+
+// Changing the school asks when the move happened, so past attendance keeps the old school
+document.getElementById('profSchool').addEventListener('input', function() {
+  const moved = this.value.trim() !== (user.school || '');
+  document.getElementById('schoolMoveFields').style.display = moved ? 'block' : 'none';
+  const since = document.getElementById('profSchoolSince');
+  if (moved && !since.value) since.value = new Date(Date.now() + 9 * 3600000).toISOString().slice(0, 10);
+});
+
+document.getElementById('profEmail').addEventListener('input', function() {
+  const changed = this.value.trim().toLowerCase() !== (user.email || '').toLowerCase();
+  document.getElementById('emailChangeFields').style.display = changed ? 'block' : 'none';
+});
+
+async function loadSchoolHistory() {
+  const res = await fetch('/api/me/school-history', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  document.getElementById('schoolHistory').innerHTML = data.assignments.length > 1 ? '異動履歴：' +
+    data.assignments.map(a => esc(a.started_on) + ' から ' + esc(a.school)).join(' ／ ') : '';
+}
+
+// The club's registered schools as suggestions; a name that is not listed can still be typed
+let schoolChoicesLoaded = false;
+async function loadSchoolChoices() {
+  if (schoolChoicesLoaded || !user.org_id) return;
+  schoolChoicesLoaded = true;
+  const res = await fetch('/api/organizations/' + user.org_id + '/schools');
+  if (!res.ok) return;
+  const data = await res.json();
+  document.getElementById('profSchoolList').innerHTML = (data.schools || []).map(s =>
+    '<option value="' + esc(s.name) + '" label="' + esc([s.ward, s.school_type].filter(Boolean).join('・')) + '"></option>').join('');
+}
+
+function setAccountMsg(id, text, ok) {
+  const el = document.getElementById(id);
+  el.textContent = text;
+  el.style.color = ok ? '#2e7d32' : '#c62828';
+}
+
+async function saveProfile(e) {
   e.preventDefault();
   try {
-    const res = await fetch('/api/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email: document.getElementById('loginEmail').value, password: document.getElementById('loginPassword').value })
-    });
+    const res = await fetchWithTimeout('/api/me/profile', {
+      method: 'PUT',
+      headers: authHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        name: document.getElementById('profName').value,
+        school: document.getElementById('profSchool').value,
+        school_since: document.getElementById('profSchoolSince').value || null,
+        school_correction: document.getElementById('profSchoolCorrection').checked,
+        email: document.getElementById('profEmail').value,
+        current_password: document.getElementById('profEmailPassword').value || null
+      })
+    }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
     const data = await res.json();
-    if (!res.ok) { showError(data.error); return false; }
-    localStorage.setItem('token', data.token);
-    localStorage.setItem('user', JSON.stringify(data.user));
-    window.location.href = data.user.role === 'admin' ? '/admin' : '/mypage';
-  } catch(err) { showError('通信エラーが発生しました'); }
-  return false;
+    if (!res.ok) { setAccountMsg('profileMsg', data.error || '保存に失敗しました', false); return; }
+    Object.assign(user, data.user);
+    renderUserName();
+    document.getElementById('profSchool').value = user.school || '';
+    document.getElementById('schoolMoveFields').style.display = 'none';
+    document.getElementById('profSchoolSince').value = '';
+    document.getElementById('profSchoolCorrection').checked = false;
+    document.getElementById('emailChangeFields').style.display = 'none';
+    document.getElementById('profEmailPassword').value = '';
+    loadSchoolHistory();
+    setAccountMsg('profileMsg', '保存しました', true);
+  } catch(err) {
+    setAccountMsg('profileMsg', '通信エラーが発生しました', false);
+  }
 }
 
-async function handleRegister(e) {
+async function changePassword(e) {
   e.preventDefault();
+  const p1 = document.getElementById('pwNew').value;
+  if (p1 !== document.getElementById('pwNew2').value) { setAccountMsg('passwordMsg', '確認用のパスワードが一致しません', false); return; }
   try {
-    const res = await fetch('/api/auth/register', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name: document.getElementById('regName').value, school: document.getElementById('regSchool').value, email: document.getElementById('regEmail').value, password: document.getElementById('regPassword').value })
-    });
+    const res = await fetchWithTimeout('/api/me/password', {
+      method: 'PUT',
+      headers: authHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ current_password: document.getElementById('pwCurrent').value, new_password: p1 })
+    }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
     const data = await res.json();
-    if (!res.ok) { showError(data.error); return false; }
-    localStorage.setItem('token', data.token);
-    localStorage.setItem('user', JSON.stringify(data.user));
-    window.location.href = '/mypage';
-  } catch(err) { showError('通信エラーが発生しました'); }
-  return false;
+    if (!res.ok) { setAccountMsg('passwordMsg', data.error || '変更に失敗しました', false); return; }
+    document.getElementById('passwordForm').reset();
+    setAccountMsg('passwordMsg', 'パスワードを変更しました（他の端末はログアウトされました）', true);
+    loadSessions();
+  } catch(err) {
+    setAccountMsg('passwordMsg', '通信エラーが発生しました', false);
+  }
+}
+
+function describeDevice(ua) {
+  if (!ua) return '不明な端末';
+  let os = 'その他';
+  if (/iPhone|iPad/.test(ua)) os = 'iPhone / iPad';
+  else if (/Android/.test(ua)) os = 'Android';
+  else if (/Windows/.test(ua)) os = 'Windows';
+  else if (/Mac OS X|Macintosh/.test(ua)) os = 'Mac';
+  else if (/CrOS/.test(ua)) os = 'Chromebook';
+  else if (/Linux/.test(ua)) os = 'Linux';
+  let browser = '';
+  if (/Edg[/]/.test(ua)) browser = 'Edge';
+  else if (/Chrome[/]/.test(ua)) browser = 'Chrome';
+  else if (/Firefox[/]/.test(ua)) browser = 'Firefox';
+  else if (/Safari[/]/.test(ua)) browser = 'Safari';
+  return browser ? (os + ' ・ ' + browser) : os;
+}
+
+function formatDateTime(iso) {
+  if (!iso) return '-';
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return '-';
+  return d.toLocaleString('ja-JP', { year:'numeric', month:'2-digit', day:'2-digit', hour:'2-digit', minute:'2-digit' });
+}
+
+async function loadSessions() {
+  const el = document.getElementById('sessionList');
+  try {
+    const res = await fetchWithTimeout('/api/me/sessions', { headers: authHeaders() }, 12000);
+    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    const data = await res.json();
+    const sessions = data.sessions || [];
+    if (!sessions.length) { el.textContent = 'ログイン中の端末はありません'; return; }
+    el.innerHTML = sessions.map(s =>
+      '<div class="session-item"><div>' +
+        '<div><i class="fas fa-desktop" style="color:#8d6e63"></i> ' + esc(describeDevice(s.user_agent)) +
+          (s.current ? ' <span class="tag tag-answered">この端末</span>' : '') + '</div>' +
+        '<div class="session-meta">最終利用: ' + esc(formatDateTime(s.last_seen_at)) +
+          ' ／ ログイン: ' + esc(formatDateTime(s.created_at)) + (s.ip ? ' ／ IP: ' + esc(s.ip) : '') + '</div>' +
+      '</div>' +
+      '<button type="button" class="btn-sm btn-revoke" data-session="' + esc(s.id) + '" data-current="' + (s.current ? '1' : '') + '">' +
+        '<i class="fas fa-sign-out-alt"></i> ' + (s.current ? 'ログアウト' : '無効化') + '</button></div>'
+    ).join('');
+  } catch(e) {
+    el.textContent = '端末一覧を読み込めませんでした';
+  }
+}
+
+async function revokeSession(id, isCurrent) {
+  if (!confirm(isCurrent ? 'この端末からログアウトしますか？' : 'この端末のログインを無効にしますか？')) return;
+  try {
+    const res = await fetchWithTimeout('/api/me/sessions/' + encodeURIComponent(id), {
+      method: 'DELETE',
+      headers: authHeaders()
+    }, 12000);
+    if (isCurrent || res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
+    if (!res.ok) { const data = await res.json(); alert(data.error || '無効化に失敗しました'); }
+    loadSessions();
+  } catch(e) {
+    alert('通信エラーが発生しました');
+  }
+}
+
+function handlePrint() {
+  try {
+    if (typeof window.print !== 'function') {
+      alert('この端末・ブラウザでは印刷が利用できない場合があります。PCブラウザをお試しください。');
+      return;
+    }
+    window.print();
+  } catch(e) {
+    alert('印刷が利用できませんでした。PCブラウザでお試しください。');
+  }
+}
+
+async function logout() {
+  try { await fetch('/api/auth/logout', { method:'POST', headers: authHeaders() }); } catch(e){}
+  localStorage.clear();
+  window.location.href = '/login';
+}
+
+function init() {
+  renderUserName();
+  fillProfileForm();
+  document.getElementById('profileForm').addEventListener('submit', saveProfile);
+  document.getElementById('passwordForm').addEventListener('submit', changePassword);
+  document.getElementById('sessionList').addEventListener('click', (e) => {
+    const btn = e.target.closest('[data-session]');
+    if (btn) revokeSession(btn.dataset.session, btn.dataset.current === '1');
+  });
+  refreshSessionIfNeeded();
+  setInterval(refreshSessionIfNeeded, 10 * 60 * 1000);
+  document.addEventListener('visibilitychange', () => { if (!document.hidden) refreshSessionIfNeeded(); });
+  loadSessions();
+  initOrgSwitcher('orgSwitcher');
+
+  const adminLink = document.getElementById('adminLink');
+  if (adminLink) {
+    const links = [];
+    if (user.permissions.indexOf('members.read') >= 0) links.push('<a href="/admin" class="btn-sm btn-admin" style="text-decoration:none"><i class="fas fa-cog"></i> 管理者</a>');
+    if (user.permissions.indexOf('events.read') >= 0) links.push('<a href="/admin/events" class="btn-sm" style="text-decoration:none;background:#ff6f00;color:#fff"><i class="fas fa-calendar-alt"></i> イベント</a>');
+    adminLink.innerHTML = links.join(' ');
+  }
+
+  setupFYSelect();
+
+  const btnSave = document.getElementById('btnSave');
+  if (btnSave) btnSave.addEventListener('click', () => saveSelections());
+  const btnPrint = document.getElementById('btnPrint');
+  if (btnPrint) btnPrint.addEventListener('click', () => handlePrint());
+
+  loadRubric()
+    .then(() => { loadSelections(); loadGrowth(); })
+    .catch((e) => {
+      console.error(e);
+      const body = document.getElementById('rubricBody');
+      if (body) body.innerHTML = '<tr><td style="text-align:center;color:#c62828;padding:24px">' + esc(e.message || 'ルーブリックの読み込みに失敗しました') + '</td></tr>';
+    });
+  loadAnnualNotes();
+  loadHistory();
 }
 
-// Redirect if already logged in
-const token = localStorage.getItem('token');
-if (token) {
-  fetch('/api/auth/me', { headers: { 'Authorization': 'Bearer ' + token } })
-    .then(r => { if (!r.ok) { localStorage.clear(); return {}; } return r.json(); })
-    .then(d => { if (d.user) window.location.href = d.user.role === 'admin' ? '/admin' : '/mypage'; })
-    .catch(() => { localStorage.clear(); });
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', init);
+} else {
+  init();
 }
 </script>
 </body></html>`)
 })
 
-// --- Member My Page (with interactive rubric) ---
-app.get('/mypage', (c) => {
+// --- Admin Dashboard ---
+app.get('/admin', pageAuth({ permission: 'members.read' }), (c) => {
   return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
-<title>マイページ - 社会科同好会</title>
+<title>管理者ダッシュボード - 社会科同好会</title>
 <style>
-  .top-bar { background: #fff; border-bottom: 3px solid var(--header-line); padding: 10px 24px; display: flex; justify-content: space-between; align-items: center; position: sticky; top: 0; z-index: 100; }
-  .top-bar .logo { font-family: 'Zen Maru Gothic', sans-serif; color: var(--header-line); font-size: 18px; font-weight: 700; }
+  .top-bar { background: #1a237e; color: #fff; padding: 10px 24px; display: flex; justify-content: space-between; align-items: center; position: sticky; top: 0; z-index: 100; }
+  .top-bar .logo { font-family: 'Zen Maru Gothic', sans-serif; font-size: 18px; font-weight: 700; }
   .top-bar .user-info { display: flex; align-items: center; gap: 12px; font-size: 13px; }
-  .top-bar .user-info .name { font-weight: 700; color: #555; }
+  .org-switcher { font-weight: 700; }
+  .org-select { padding: 4px 8px; border: none; border-radius: 8px; font-family: inherit; font-size: 12px; font-weight: 700; color: #1a237e; }
   .btn-sm { padding: 6px 14px; border-radius: 8px; border: none; font-size: 12px; font-weight: 700; cursor: pointer; font-family: inherit; }
-  .btn-logout { background: #eee; color: #888; }
-  .btn-logout:hover { background: #ddd; }
-  .btn-save { background: var(--header-line); color: #fff; font-size: 14px; padding: 10px 28px; border-radius: 10px; }
-  .btn-save:hover { background: #bf360c; }
-  .btn-admin { background: #42a5f5; color: #fff; }
-  .btn-admin:hover { background: #1e88e5; }
-
-  .main { max-width: 1250px; margin: 20px auto; padding: 0 16px; }
-  .guide { background: #fff3e0; border-left: 4px solid #ffb74d; padding: 12px 16px; border-radius: 0 8px 8px 0; margin-bottom: 20px; font-size: 13px; color: #5d4037; }
-  .guide strong { color: #e65100; }
-
-  .container { max-width: 1250px; margin: 0 auto; background-color: #fff; padding: 20px 24px; box-shadow: 0 4px 15px rgba(0,0,0,0.05); border-radius: 12px; border: 2px solid #f0e6d2; overflow-x: auto; -webkit-overflow-scrolling: touch; }
-  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px dashed var(--header-line); padding-bottom: 8px; margin-bottom: 15px; }
-  .title-block h1 { font-family: 'Zen Maru Gothic', sans-serif; font-size: 22px; margin: 0; line-height: 1.2; color: var(--header-line); }
-  .title-block .subtitle { font-size: 12px; color: #666; margin-top: 4px; font-weight: 500; }
-
-  table { width: 100%; border-collapse: separate; border-spacing: 0; font-size: 10.5pt; table-layout: fixed; border-radius: 8px; overflow: hidden; border: 1px solid #ddd; min-width: 900px; }
-  th, td { border: 1px solid #e0e0e0; padding: 7px 9px; vertical-align: middle; word-wrap: break-word; }
-  .col-category { width: 30px; text-align: center; font-weight: bold; writing-mode: vertical-rl; letter-spacing: 3px; color: #fff; border-bottom: 1px solid rgba(255,255,255,0.3); }
-  .col-viewpoint { width: 85px; background-color: #fff8e1; font-weight: bold; color: #5d4037; font-family: 'Zen Maru Gothic', sans-serif; }
-  .col-step { width: 22%; background-color: #fff; vertical-align: top; cursor: pointer; transition: all 0.2s; position: relative; }
-  .col-step:hover { background-color: #fff8e1; }
-  .col-step.selected { background-color: #fff3e0; box-shadow: inset 0 0 0 3px var(--header-line); border-radius: 2px; }
-  .col-step.selected::after { content: '\\2713'; position: absolute; top: 4px; right: 6px; color: var(--header-line); font-size: 18px; font-weight: bold; }
-  thead th { text-align: center; background-color: #fff; border-bottom: 3px solid var(--header-line); padding: 8px 5px; }
-  .step-header { display: flex; flex-direction: column; align-items: center; }
-  .step-label { font-size: 13px; font-weight: bold; color: var(--header-line); margin-bottom: 2px; font-family: 'Zen Maru Gothic', sans-serif; }
-  .step-desc { font-size: 9px; font-weight: bold; color: #5d4037; background-color: #ffccbc; padding: 2px 8px; border-radius: 10px; white-space: nowrap; }
-  .cell-content { display: flex; flex-direction: column; }
-  .cell-content p { margin: 0 0 2px 0; font-size: 9.5pt; line-height: 1.4; }
-  .keyword { font-weight: bold; color: #bf360c; display: inline-block; margin-bottom: 3px; font-size: 10.5pt; font-family: 'Zen Maru Gothic', sans-serif; border-bottom: 2px dotted #ffab91; padding-bottom: 1px; }
-  .cat-class { background-color: var(--cat-class); }
-  .cat-connect { background-color: var(--cat-connect); }
-  .cat-research { background-color: var(--cat-research); }
-  .ss-term { background: linear-gradient(transparent 70%, #fff59d 70%); font-weight: bold; color: #555; }
-
-  .row-action td { background-color: #fff3e0; border-top: 3px solid #ffb74d; padding: 6px 8px; }
-  .action-list { margin: 0; padding-left: 14px; font-size: 9pt; list-style-type: none; }
-  .action-list li { margin-bottom: 2px; }
-  .action-list li::before { content: '\\1F449'; font-size: 8px; margin-right: 4px; }
-
-  .footer-note { margin-top: 15px; display: flex; justify-content: space-between; align-items: flex-start; font-size: 8.5pt; }
-  .save-area { text-align: center; margin-top: 20px; }
-  .save-status { font-size: 13px; color: #2e7d32; margin-top: 10px; display: none; }
-
+  .btn-back { background: rgba(255,255,255,0.2); color: #fff; }
+  .btn-back:hover { background: rgba(255,255,255,0.3); }
+  .btn-logout { background: rgba(255,255,255,0.15); color: #fff; }
+  .btn-add { background: #1a237e; color: #fff; padding: 10px 18px; font-size: 14px; border-radius: 10px; }
+  .btn-add:hover { background: #0d1757; }
+  .btn-export { background: #2e7d32; color: #fff; padding: 10px 24px; font-size: 14px; border-radius: 10px; }
+  .btn-export:hover { background: #1b5e20; }
+  .btn-danger { background: #c62828; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .btn-danger:hover { background: #b71c1c; }
+  .btn-reset { background: #f9a825; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .btn-reset:hover { background: #f57f17; }
+  .btn-logout-all { background: #607d8b; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .btn-logout-all:hover { background: #455a64; }
+  .reset-choice { display: flex; gap: 10px; flex-wrap: wrap; margin: 16px 0; }
+  .reset-choice button { flex: 1; min-width: 200px; padding: 14px; border-radius: 10px; border: 2px solid #e0e0e0; background: #fafafa; cursor: pointer; font-family: inherit; text-align: left; }
+  .reset-choice button:hover { border-color: #1a237e; }
+  .reset-choice strong { display: block; color: #1a237e; margin-bottom: 4px; }
+  .reset-choice span { font-size: 12px; color: #777; }
+  .reset-result { background: #fff8e1; border: 2px dashed #ffb300; border-radius: 10px; padding: 14px; font-size: 13px; word-break: break-all; }
+  .reset-result .secret { font-family: monospace; font-size: 22px; font-weight: 700; letter-spacing: 2px; color: #d84315; margin: 6px 0; }
 
-  .notes-card { background: #fff; border: 2px dashed #ffb74d; padding: 14px 16px; border-radius: 12px; margin: 12px 0 14px; }
-  .notes-card h2 { font-family: 'Zen Maru Gothic', sans-serif; font-size: 16px; margin: 0 0 8px; color: #e65100; display: flex; align-items: center; gap: 8px; }
-  .notes-card textarea { width: 100%; min-height: 84px; padding: 10px 12px; border: 2px solid #e0d6c8; border-radius: 10px; font-size: 14px; font-family: inherit; resize: vertical; outline: none; }
-  .notes-card textarea:focus { border-color: var(--header-line); }
-  .notes-meta { font-size: 12px; color: #888; margin-top: 6px; display: flex; justify-content: space-between; gap: 10px; flex-wrap: wrap; }
+  .main { max-width: 1400px; margin: 20px auto; padding: 0 16px; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 16px; margin-bottom: 24px; }
+  .stat-card { background: #fff; border-radius: 12px; padding: 20px; box-shadow: 0 2px 10px rgba(0,0,0,0.06); border-left: 4px solid; text-align: center; }
+  .stat-card .num { font-size: 36px; font-weight: 700; font-family: 'Zen Maru Gothic', sans-serif; }
+  .stat-card .label { font-size: 12px; color: #888; margin-top: 4px; }
+  .stat-card.total { border-color: #1a237e; }
+  .stat-card.total .num { color: #1a237e; }
+  .stat-card.active { border-color: #2e7d32; }
+  .stat-card.active .num { color: #2e7d32; }
+  .stat-card.partial { border-color: #f57f17; }
+  .stat-card.partial .num { color: #f57f17; }
+  .stat-card.none { border-color: #bbb; }
+  .stat-card.none .num { color: #bbb; }
+  .stat-card[data-status] { cursor: pointer; }
+  .stat-card.selected { box-shadow: 0 0 0 3px rgba(26,35,126,0.25); }
+  .filters { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; margin-bottom: 12px; font-size: 13px; }
+  .filters select { padding: 6px 10px; border: 2px solid #ddd; border-radius: 8px; font-size: 13px; font-family: inherit; background: #fff; }
+  .list-footer { display: flex; justify-content: space-between; align-items: center; margin-top: 12px; font-size: 13px; color: #888; }
+  .btn-more { background: #fff; color: #1a237e; border: 2px solid #1a237e; padding: 8px 20px; font-size: 13px; border-radius: 10px; }
 
-  .history-card { background: #fff; border: 2px solid #f0e6d2; border-radius: 12px; padding: 16px; margin-top: 18px; box-shadow: 0 2px 10px rgba(0,0,0,0.04); }
-  .history-header { display: flex; align-items: center; justify-content: space-between; gap: 12px; flex-wrap: wrap; }
-  .history-header h2 { margin: 0; font-family: 'Zen Maru Gothic', sans-serif; color: #2e7d32; font-size: 16px; display: flex; align-items: center; gap: 8px; }
-  .fy-select { padding: 6px 10px; border: 2px solid #ddd; border-radius: 8px; font-family: inherit; font-size: 13px; }
-  .fy-select:focus { outline: none; border-color: #2e7d32; }
+  .toolbar { display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px; flex-wrap: wrap; gap: 10px; }
+  .search-box { padding: 8px 14px; border: 2px solid #ddd; border-radius: 8px; font-size: 14px; width: 280px; font-family: inherit; }
+  .search-box:focus { outline: none; border-color: #1a237e; }
 
-  .event-item { border-top: 1px solid #eee; padding: 12px 0; }
-  .event-item:first-child { border-top: none; }
-  .event-title { font-weight: 700; color: #444; }
-  .event-meta { color: #888; font-size: 12px; margin-top: 2px; display: flex; gap: 10px; flex-wrap: wrap; align-items: center; }
-  .tag { display: inline-block; padding: 2px 8px; border-radius: 999px; font-size: 11px; font-weight: 700; }
-  .tag-answered { background: #e8f5e9; color: #2e7d32; }
-  .tag-pending { background: #fff3e0; color: #e65100; }
-  .toggle-btn { background: #eee; border: none; border-radius: 8px; padding: 6px 10px; cursor: pointer; font-family: inherit; font-weight: 700; font-size: 12px; }
-  .toggle-btn:hover { background: #e0e0e0; }
-  .event-detail { display: none; margin-top: 10px; background: #fafafa; border: 1px solid #eee; border-radius: 10px; padding: 10px 12px; }
-  .event-detail.show { display: block; }
-  .qa { margin-top: 10px; }
-  .qa .q { font-weight: 700; font-size: 13px; margin-top: 8px; color: #555; }
-  .qa .a { color: #555; font-size: 13px; padding-left: 10px; border-left: 3px solid #ddd; margin-top: 4px; white-space: pre-wrap; }
+  .member-table { width: 100%; border-collapse: collapse; background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.06); font-size: 13px; }
+  .member-table thead th { background: #f5f5f5; padding: 12px 10px; text-align: center; font-weight: 700; color: #555; border-bottom: 2px solid #ddd; white-space: nowrap; }
+  .member-table tbody td { padding: 10px; border-bottom: 1px solid #eee; text-align: center; vertical-align: middle; }
+  .member-table tbody tr:hover { background: #f5f5f5; }
 
+  .step-badge { display: inline-block; padding: 3px 10px; border-radius: 12px; font-size: 11px; font-weight: 700; color: #fff; white-space: nowrap; }
+  .step-1 { background: #78909c; }
+  .step-2 { background: #42a5f5; }
+  .step-3 { background: #66bb6a; }
+  .step-4 { background: #ff7043; }
+  .step-none { background: #e0e0e0; color: #999; }
 
-  .memo-input { width: 100%; margin-top: 6px; padding: 4px 6px; border: 1px solid #ccc; border-radius: 4px; font-size: 9pt; font-family: inherit; resize: none; display: none; }
-  .col-step.selected .memo-input { display: block; }
+  .role-badge { display: inline-block; padding: 2px 8px; border-radius: 8px; font-size: 10px; font-weight: 700; }
+  .role-admin { background: #e3f2fd; color: #1565c0; }
+  .role-event_manager { background: #fff3e0; color: #e65100; }
+  .role-viewer { background: #e8f5e9; color: #2e7d32; }
+  .role-member { background: #f5f5f5; color: #888; }
+  .role-select { padding: 3px 6px; border: 1px solid #ccc; border-radius: 6px; font-size: 12px; font-family: inherit; }
 
-  .scroll-hint { display: none; text-align: center; color: #999; font-size: 12px; margin-bottom: 8px; animation: pulse 2s infinite; }
-  @keyframes pulse { 0%,100%{opacity:0.5} 50%{opacity:1} }
+  .member-name { font-weight: 700; text-align: left !important; }
 
-  @media (max-width: 768px) {
-    .top-bar { padding: 8px 12px; flex-wrap: wrap; gap: 6px; }
-    .top-bar .logo { font-size: 15px; }
-    .top-bar .user-info { gap: 6px; font-size: 11px; }
-    .top-bar .user-info .name { display: none; }
-    .btn-sm { padding: 5px 10px; font-size: 11px; }
-    .main { padding: 0 8px; margin: 12px auto; }
-    .guide { font-size: 12px; padding: 10px 12px; }
-    .container { padding: 12px; border-radius: 8px; }
-    .header { flex-direction: column; align-items: flex-start; }
-    .title-block h1 { font-size: 18px; }
-    .scroll-hint { display: block; }
-    .footer-note { flex-direction: column; gap: 8px; }
-    .footer-note > div { max-width: 100% !important; text-align: left !important; }
-    .save-area { margin-top: 16px; }
-    .save-area .btn-sm { padding: 12px 20px; font-size: 15px; }
-  }
+  .migration-banner { display: none; background: #e3f2fd; border: 2px solid #90caf9; border-radius: 12px; padding: 12px 16px; margin-bottom: 16px; font-size: 13px; color: #0d47a1; align-items: center; justify-content: space-between; gap: 10px; flex-wrap: wrap; }
+  .btn-migrate { background: #1565c0; color: #fff; }
+  .lockout-panel { display: none; background: #fff8e1; border: 2px solid #ffcc80; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .lockout-panel h3 { margin: 0 0 8px; font-size: 14px; color: #e65100; }
+  .lockout-item { display: flex; justify-content: space-between; align-items: center; gap: 10px; padding: 6px 0; border-top: 1px solid #ffe0b2; }
+  .lockout-item:first-of-type { border-top: none; }
+  .lockout-meta { color: #888; font-size: 12px; }
+  .btn-unlock { background: #e65100; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .pending-panel { display: none; background: #e3f2fd; border: 2px solid #90caf9; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .pending-panel h3 { margin: 0 0 8px; font-size: 14px; color: #1565c0; }
+  .pending-item { display: flex; justify-content: space-between; align-items: center; gap: 10px; padding: 6px 0; border-top: 1px solid #bbdefb; }
+  .pending-item:first-of-type { border-top: none; }
+  .btn-approve { background: #1565c0; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .registration-panel { display: none; background: #fff; border: 2px solid #e0e0e0; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .registration-panel h3 { margin: 0 0 10px; font-size: 14px; color: #555; }
+  .registration-panel .row { display: flex; align-items: center; gap: 10px; flex-wrap: wrap; margin-bottom: 8px; }
+  .invite-code { font-family: monospace; font-size: 16px; font-weight: 700; letter-spacing: 2px; color: #1a237e; }
+  .btn-settings { background: #607d8b; color: #fff; padding: 10px 18px; font-size: 14px; border-radius: 10px; }
+  .registration-panel h4 { margin: 14px 0 8px; font-size: 13px; color: #555; border-top: 1px solid #eee; padding-top: 12px; }
+  .registration-panel input[type=text], .registration-panel input[type=email], .registration-panel input[type=number], .registration-panel select,
+  .import-panel select { padding: 6px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: inherit; }
+  .invite-url { width: 100%; padding: 6px 10px; border: 1px solid #90caf9; border-radius: 6px; font-size: 12px; font-family: monospace; background: #e3f2fd; }
+  .invite-item { display: flex; justify-content: space-between; align-items: center; gap: 10px; padding: 6px 0; border-top: 1px solid #eee; }
+  .invite-status { display: inline-block; padding: 1px 8px; border-radius: 8px; font-size: 11px; font-weight: 700; background: #eee; color: #666; }
+  .invite-status.open { background: #e8f5e9; color: #2e7d32; }
+  .import-panel { display: none; background: #fff; border: 2px solid #e0e0e0; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .import-panel h3 { margin: 0 0 10px; font-size: 14px; color: #555; }
+  .import-panel textarea { width: 100%; min-height: 120px; padding: 8px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: monospace; }
+  .import-panel .row { display: flex; align-items: center; gap: 10px; flex-wrap: wrap; margin: 8px 0; }
+  .import-table { width: 100%; border-collapse: collapse; font-size: 12px; margin-top: 8px; }
+  .import-table th, .import-table td { padding: 4px 8px; border-bottom: 1px solid #eee; text-align: left; }
+  .import-table tr.has-error td { background: #ffebee; }
+  .import-error { color: #c62828; }
+  .trash-panel { display: none; background: #fff; border: 2px dashed #bdbdbd; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .trash-panel h3 { margin: 0 0 8px; font-size: 14px; color: #555; }
+  .trash-item { display: flex; justify-content: space-between; align-items: center; gap: 10px; padding: 6px 0; border-top: 1px solid #eee; }
+  .trash-item:first-of-type { border-top: none; }
+  .trash-meta { color: #888; font-size: 12px; }
+  .btn-restore { background: #2e7d32; color: #fff; font-size: 11px; padding: 4px 10px; }
+  .btn-trash { background: #757575; color: #fff; padding: 10px 18px; font-size: 14px; border-radius: 10px; }
+  .analytics-panel { display: none; background: #fff; border: 2px solid #e0e0e0; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .analytics-panel h3 { margin: 0 0 10px; font-size: 14px; color: #555; }
+  .analytics-panel h4 { margin: 16px 0 8px; font-size: 13px; color: #1a237e; border-top: 1px solid #eee; padding-top: 12px; }
+  .analytics-panel select { padding: 4px 8px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: inherit; }
+  .chart-legend { display: flex; gap: 12px; flex-wrap: wrap; font-size: 12px; color: #555; margin-bottom: 6px; }
+  .chart-legend i { display: inline-block; width: 12px; height: 12px; border-radius: 3px; vertical-align: -1px; margin-right: 4px; }
+  .analytics-table { border-collapse: collapse; font-size: 12px; }
+  .analytics-table th, .analytics-table td { padding: 6px 10px; border: 1px solid #eee; text-align: center; white-space: nowrap; }
+  .analytics-table th { background: #f5f5f5; color: #555; }
+  .analytics-table td.name { text-align: left; font-weight: 700; }
+  .analytics-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); gap: 16px; }
+  .analytics-scroll { overflow-x: auto; }
+  .schools-panel { display: none; background: #fff; border: 2px solid #e0e0e0; border-radius: 12px; padding: 14px 16px; margin-bottom: 16px; font-size: 13px; }
+  .schools-panel h3 { margin: 0 0 10px; font-size: 14px; color: #555; }
+  .schools-panel h4 { margin: 14px 0 8px; font-size: 13px; color: #555; border-top: 1px solid #eee; padding-top: 12px; }
+  .schools-panel .row { display: flex; align-items: center; gap: 10px; flex-wrap: wrap; margin: 8px 0; }
+  .schools-panel input[type=text], .schools-panel select { padding: 6px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: inherit; }
+  .school-alias { display: inline-block; padding: 1px 6px; margin: 1px; border-radius: 6px; background: #f5f5f5; color: #888; font-size: 11px; }
+  .btn-analytics { background: #5e35b1; color: #fff; padding: 10px 18px; font-size: 14px; border-radius: 10px; }
 
-  @media print {
-    .top-bar, .guide, .save-area, .memo-input, .scroll-hint { display: none !important; }
-    @page { size: A4 landscape; margin: 5mm; }
-    body { width: 287mm; height: 200mm; margin: 0; padding: 0; background-color: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; zoom: 90%; }
-    .container { max-width: none; box-shadow: none; border: none; padding: 0; margin: 0; }
-    .col-step.selected { box-shadow: inset 0 0 0 2px var(--header-line); }
-    .col-step.selected::after { font-size: 14px; }
-    table { font-size: 8.5pt; }
-    th, td { padding: 4px 6px; }
-    .keyword { font-size: 9.5pt; }
-    .cell-content p { font-size: 8.5pt; line-height: 1.3; }
-  }
+  .detail-modal { display: none; position: fixed; inset: 0; background: rgba(0,0,0,0.5); z-index: 200; align-items: center; justify-content: center; }
+  .detail-modal.show { display: flex; }
+  .detail-content { background: #fff; border-radius: 16px; padding: 32px; max-width: 600px; width: 90%; max-height: 80vh; overflow-y: auto; }
+  .detail-content.wide { max-width: 1000px; }
+  .detail-content h2 { font-family: 'Zen Maru Gothic', sans-serif; color: #1a237e; margin: 0 0 20px; }
+  .detail-item { display: flex; justify-content: space-between; align-items: center; padding: 12px 0; border-bottom: 1px solid #eee; }
+  .detail-item .vp-name { font-weight: 700; color: #555; }
+  .detail-item .memo { font-size: 12px; color: #888; margin-top: 4px; white-space: pre-wrap; }
 </style>
 </head><body>
 <div class="top-bar">
-  <div class="logo"><i class="fas fa-map"></i> 社会科同好会</div>
+  <div class="logo"><i class="fas fa-shield-alt"></i> 管理者ダッシュボード</div>
   <div class="user-info">
-    <span class="name" id="userName"></span>
-    <span id="adminLink"></span>
+    <span class="org-switcher" id="orgSwitcher"></span>
+    <a href="/mypage" class="btn-sm btn-back" style="text-decoration:none"><i class="fas fa-map"></i> マイページ</a>
+    <a href="/admin/events" class="btn-sm" style="text-decoration:none;background:rgba(255,255,255,0.2);color:#fff"><i class="fas fa-calendar-alt"></i> イベント</a>
+    <a href="/admin/rubric" id="rubricLink" class="btn-sm" style="display:none;text-decoration:none;background:rgba(255,255,255,0.2);color:#fff"><i class="fas fa-table"></i> ルーブリック</a>
+    <a href="/admin/audit" id="auditLink" class="btn-sm" style="display:none;text-decoration:none;background:rgba(255,255,255,0.2);color:#fff"><i class="fas fa-history"></i> 操作履歴</a>
     <button class="btn-sm btn-logout" onclick="logout()"><i class="fas fa-sign-out-alt"></i> ログアウト</button>
   </div>
-</div>
+</div>
+
+<div class="main">
+  <div class="stats">
+    <div class="stat-card total"><div class="num" id="totalCount">-</div><div class="label">総会員数</div></div>
+    <div class="stat-card active" data-status="complete"><div class="num" id="completeCount">-</div><div class="label">全項目記入済み</div></div>
+    <div class="stat-card partial" data-status="partial"><div class="num" id="partialCount">-</div><div class="label">一部記入</div></div>
+    <div class="stat-card none" data-status="none"><div class="num" id="noneCount">-</div><div class="label">未記入</div></div>
+  </div>
 
-<div class="main">
-  <div class="guide">
-    <strong><i class="fas fa-hand-pointer"></i> 使い方：</strong>
-    今の自分に当てはまるステップのセルをクリックしてください。各視点ごとに1つ選べます。メモも書けます。最後に「保存する」を押すと記録されます。
+  <div class="migration-banner" id="migrationBanner">
+    <div><i class="fas fa-database"></i> データベースの更新が <span id="migrationCount"></span> 件あります（現在 v<span id="schemaCurrent"></span> → 最新 v<span id="schemaLatest"></span>）</div>
+    <button class="btn-sm btn-migrate" onclick="applyMigrations()"><i class="fas fa-sync"></i> 更新を適用</button>
   </div>
 
-  <div class="container">
-    <div class="header">
-      <div class="title-block">
-        <h1>社会科同好会 成長の道しるべ</h1>
-        <div class="subtitle">授業も、つながりも。あなたのペースで歩むガイドマップ</div>
-      </div>
+  <div class="pending-panel" id="pendingPanel">
+    <h3><i class="fas fa-user-clock"></i> 承認待ちの登録（<span id="pendingCount"></span>件）</h3>
+    <div id="pendingList"></div>
+  </div>
+
+  <div class="registration-panel" id="registrationPanel">
+    <h3><i class="fas fa-user-check"></i> 新規登録の設定</h3>
+    <div class="row"><label><input type="checkbox" id="requireApproval" onchange="saveRequireApproval(this)"> 新規登録を管理者の承認制にする（承認されるまでマイページは使えません）</label></div>
+    <div class="row">招待コード：<span class="invite-code" id="inviteCode">なし</span>
+      <button class="btn-sm btn-add" onclick="issueInviteCode()"><i class="fas fa-sync"></i> 発行</button>
+      <button class="btn-sm btn-danger" id="btnDisableInvite" onclick="disableInviteCode()">無効にする</button>
     </div>
-    <div class="notes-card" style="border-style:solid;border-color:#ffe0b2;margin-top:16px">
-      <h2 style="color:#e65100"><i class="fas fa-bullseye"></i> 今年度の目標 <span style="font-size:12px;color:#888;font-weight:500" id="fyLabel"></span></h2>
-      <textarea id="annualGoal" placeholder="例：月に1回は授業づくりの相談をする、FWに1回参加する など"></textarea>
-      <div class="notes-meta"><span>※自分だけが見られます</span><span id="annualSavedAt"></span></div>
+    <div class="row lockout-meta" id="inviteLinkRow">招待リンク：<span id="inviteLink"></span>（このコードで登録した人は承認なしで会員になります）</div>
+    <h4><i class="fas fa-envelope-open-text"></i> 個別の招待リンク（1回限り・学校名と役割を指定）</h4>
+    <div class="row">
+      <input type="text" id="invSchool" placeholder="学校名（任意）">
+      <input type="email" id="invEmail" placeholder="メールアドレス（任意）">
+      <select id="invRole"></select>
+      <label>有効期限 <input type="number" id="invDays" value="14" min="1" max="90" style="width:60px"> 日</label>
+      <button class="btn-sm btn-add" onclick="createInvitation()"><i class="fas fa-link"></i> 招待リンクを発行</button>
     </div>
+    <div class="row" id="newInvitationRow" style="display:none"><input class="invite-url" id="newInvitationUrl" readonly onclick="this.select()"><span class="lockout-meta">このリンクは今だけ表示されます。コピーして本人に送ってください</span></div>
+    <div id="invitationList"></div>
+  </div>
 
-
-    <div class="scroll-hint"><i class="fas fa-arrows-alt-h"></i> 横にスクロールできます</div>
-    <table>
-      <thead><tr>
-        <th colspan="2" style="background-color: #fff8e1; border-bottom: 3px solid #5d4037;">成長の視点</th>
-        <th><div class="step-header"><span class="step-label">STEP 1</span><span class="step-desc">🔰 まずはここから</span></div></th>
-        <th><div class="step-header"><span class="step-label">STEP 2</span><span class="step-desc">🏃 自分で工夫する</span></div></th>
-        <th><div class="step-header"><span class="step-label">STEP 3</span><span class="step-desc">🤝 みんなと高める</span></div></th>
-        <th><div class="step-header"><span class="step-label">STEP 4</span><span class="step-desc">🌏 未来を創る</span></div></th>
-      </tr></thead>
-      <tbody>
-        <tr>
-          <td class="col-category cat-class" rowspan="3">授業<br>準備</td>
-          <td class="col-viewpoint"><div>授業をつくる</div><div style="font-size:9px;color:#888;margin-top:2px">準備・計画</div></td>
-          <td class="col-step" data-vp="lesson_plan" data-step="1" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">基本型をまねる</span><p>教科書や「わたしたちのきょうど」、「あゆみ」を見て、基本的な授業の流れをつかんでみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_plan" data-step="2" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">実態に合わせる</span><p>「この子たちなら？」と想像して、名古屋のネタや身近な話題を取り入れよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_plan" data-step="3" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">深い学びを仕掛ける</span><p>「なぜ？」といった<span class="ss-term">社会的な見方</span>を取り入れた、面白い単元を作ってみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_plan" data-step="4" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">大きな学びを描く</span><p>社会科を中心に、SDGsや他教科ともつながるような、広がりのある学びをデザインしよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-        </tr>
-        <tr>
-          <td class="col-viewpoint"><div>授業をする</div><div style="font-size:9px;color:#888;margin-top:2px">技術・対話</div></td>
-          <td class="col-step" data-vp="lesson_practice" data-step="1" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">資料で惹きつける</span><p>地図や写真をドーンと見せて、子供の興味を惹きつける発問をしてみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_practice" data-step="2" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">対話で盛り上げる</span><p>子供のつぶやきを拾って、意見を戦わせる場面を作ってみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_practice" data-step="3" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">探究を支える</span><p>ICTを使って、子供自身が調べて、考えて、まとめる時間を充実させよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="lesson_practice" data-step="4" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">技を伝える</span><p>若手の授業を見て、具体的なアドバイスをし、授業力を引き上げよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-        </tr>
-        <tr>
-          <td class="col-viewpoint"><div>子供を見る</div><div style="font-size:9px;color:#888;margin-top:2px">評価・改善</div></td>
-          <td class="col-step" data-vp="student_eval" data-step="1" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">基礎を確認する</span><p>地名や用語など、基本的なことが身についたか確認してみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="student_eval" data-step="2" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">思考を見取る</span><p>発言やノートから、「事実を元に考えているかな？」と頭の中をのぞいてみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="student_eval" data-step="3" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">頑張りを認める</span><p>粘り強く調べる姿など、点数になりにくい良さも見つけてみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="student_eval" data-step="4" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">授業をより良くする</span><p>評価規準を作り、子供の姿を元に自分の授業をアップデートしよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-        </tr>
-        <tr>
-          <td class="col-category cat-connect">仲間<br>活動</td>
-          <td class="col-viewpoint"><div>つながる</div><div style="font-size:9px;color:#888;margin-top:2px">同僚性・楽しさ</div></td>
-          <td class="col-step" data-vp="connection" data-step="1" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">まずは楽しむ</span><p>イベントに参加して楽しもう。同期や先輩と顔見知りになれたらOK！</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="connection" data-step="2" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">弱音を吐く</span><p>悩みを相談したり、失敗談を笑い合ったりできる仲間を作ろう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="connection" data-step="3" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">場を盛り上げる</span><p>飲み会やFWの幹事をして、若手とベテランをつなぐ架け橋になろう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="connection" data-step="4" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">次世代を育てる</span><p>「この会を良くするには？」と未来を語り、次のリーダーたちを育てよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-        </tr>
-        <tr>
-          <td class="col-category cat-research">研究<br>発信</td>
-          <td class="col-viewpoint"><div>深める</div><div style="font-size:9px;color:#888;margin-top:2px">探究・理論</div></td>
-          <td class="col-step" data-vp="research" data-step="1" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">「すごい！」に触れる</span><p>先輩の実践記録を読んで、「こんな授業があるんだ！」と刺激を受けよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="research" data-step="2" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">実践を書く</span><p>自分の授業を<span class="ss-term">「体験記録」</span>等の文章にまとめて、整理してみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="research" data-step="3" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">理論を磨く</span><p>テーマを深掘りして議論したり、自分の実践を理論づけたりしてみよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-          <td class="col-step" data-vp="research" data-step="4" onclick="selectCell(this)"><div class="cell-content"><span class="keyword">全国へ発信する</span><p>全国大会などで発表して、名古屋の社会科の魅力を外に向けて発信しよう。</p></div><textarea class="memo-input" rows="2" placeholder="メモ（任意）" onclick="event.stopPropagation()"></textarea></td>
-        </tr>
-        <tr class="row-action">
-          <td colspan="2" style="text-align:right;font-weight:bold;padding-right:20px;color:#e65100"><i class="fas fa-shoe-prints"></i> おすすめのアクション</td>
-          <td><ul class="action-list"><li><strong>若手交流会</strong>で仲間作り</li><li><strong>授業づくり講座</strong>を聞く</li><li><strong>懇親会</strong>にとりあえず行く</li></ul></td>
-          <td><ul class="action-list"><li><strong>スキルアップ研修</strong>に参加</li><li><strong>体験記録</strong>を書いてみる</li><li><strong>FW(フィールドワーク)</strong>へGO!</li></ul></td>
-          <td><ul class="action-list"><li><strong>模擬授業</strong>をやってみる</li><li><strong>FW・イベント</strong>を企画する</li><li><strong>研究部</strong>で議論する</li></ul></td>
-          <td><ul class="action-list"><li><strong>講師</strong>として話す</li><li><strong>研究紀要</strong>をまとめる</li><li><strong>全国大会</strong>に行く・呼ぶ</li></ul></td>
-        </tr>
-      </tbody>
-    </table>
-    <div class="footer-note">
-      <div style="color:#666"><strong>カテゴリ：</strong><span style="color:#8d6e63">■ 授業・準備</span> <span style="color:#66bb6a">■ 仲間・活動</span> <span style="color:#42a5f5">■ 研究・発信</span></div>
-      <div style="color:#777;text-align:right;max-width:60%">※これは「ここまでやらなきゃいけない」というノルマではありません。<br>今の自分に合った「次の一歩」を見つけるための地図として使ってください。</div>
+  <div class="import-panel" id="importPanel">
+    <h3><i class="fas fa-file-import"></i> 会員の一括登録</h3>
+    <div class="lockout-meta">名前・学校名・メールの3列の CSV または TSV（Excel からの貼り付け可）。1行目が見出しでも構いません。登録された人にはパスワード設定用のメールが届きます。</div>
+    <div class="row"><input type="file" id="importFile" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onchange="readImportFile(this)"></div>
+    <textarea id="importText" placeholder="山田 太郎,〇〇小学校,yamada@example.com" oninput="resetImport()"></textarea>
+    <div class="row">
+      <label>役割 <select id="importRole"></select></label>
+      <button class="btn-sm btn-settings" onclick="runImport(true)"><i class="fas fa-search"></i> 内容を確認</button>
+      <button class="btn-sm btn-add" id="btnImportCommit" disabled onclick="runImport(false)"><i class="fas fa-user-plus"></i> この内容で登録する</button>
     </div>
+    <div id="importResult"></div>
+  </div>
 
-    <div class="notes-card" style="border-style:solid;border-color:#bbdefb;margin-top:16px">
-      <h2 style="color:#1565c0"><i class="fas fa-pen"></i> 今年度の振り返り</h2>
-      <textarea id="annualReflection" placeholder="今年度の参加や学び、次につながったことなど"></textarea>
-      <div class="notes-meta"><span>※自分だけが見られます</span><span id="annualSavedAt2"></span></div>
+  <div class="analytics-panel" id="analyticsPanel">
+    <h3><i class="fas fa-chart-bar"></i> 分析（管理者を除く <span id="anMemberCount"></span> 名）</h3>
+    <div class="chart-legend" id="anLegend"></div>
+    <h4>観点ごとの STEP 分布</h4>
+    <div class="analytics-scroll" id="anDistribution"></div>
+    <h4>観点 × STEP（人数）</h4>
+    <div class="analytics-scroll" id="anHeatmap"></div>
+    <div class="analytics-grid">
+      <div><h4>学校別</h4><div class="analytics-scroll" id="anSchools"></div></div>
+      <div><h4>登録年度別</h4><div class="analytics-scroll" id="anYears"></div></div>
     </div>
+    <h4>年度間の変化
+      <select id="anFrom" onchange="loadAnalytics()"></select> 年度末 → <select id="anTo" onchange="loadAnalytics()"></select> 年度末
+    </h4>
+    <div class="lockout-meta" id="anMovementSummary"></div>
+    <div class="analytics-scroll" id="anMovement"></div>
+  </div>
 
+  <div class="schools-panel" id="schoolsPanel">
+    <h3><i class="fas fa-school"></i> 学校マスタ</h3>
+    <div class="lockout-meta">登録された学校は新規登録やプロフィールの学校名の候補に出ます。表記ゆれはチェックを付けて「まとめる」と、会員が正式名に付け替えられ、古い表記でも今後は自動で同じ学校になります。</div>
+    <div class="row manage-only">
+      <input type="text" id="schoolName" placeholder="正式な学校名（例：名古屋市立〇〇小学校）" style="width:280px">
+      <input type="text" id="schoolWard" placeholder="区（例：千種区）" style="width:120px">
+      <select id="schoolType"></select>
+      <button class="btn-sm btn-add" id="btnSaveSchool" onclick="saveSchool()"><i class="fas fa-plus"></i> 登録</button>
+      <button class="btn-sm btn-settings" id="btnCancelSchool" style="display:none" onclick="resetSchoolForm()">キャンセル</button>
+    </div>
+    <div id="schoolList"></div>
+    <h4><i class="fas fa-question-circle"></i> マスタにない学校名（会員が入力したまま）</h4>
+    <div id="unassignedList"></div>
+    <div class="row manage-only">
+      チェックした学校・表記を <select id="mergeTarget"></select> に
+      <button class="btn-sm btn-add" onclick="mergeSchools()"><i class="fas fa-compress-alt"></i> まとめる</button>
+    </div>
+  </div>
 
+  <div class="trash-panel" id="trashPanel">
+    <h3><i class="fas fa-trash-restore"></i> ゴミ箱（<span id="trashRetention"></span>日後に完全に削除されます）</h3>
+    <div id="trashList"></div>
   </div>
 
-  <div class="save-area">
-    <button id="btnSave" type="button" class="btn-sm btn-save" onclick="saveSelections()"><i class="fas fa-save"></i> 保存する</button>
-    <button id="btnPrint" type="button" class="btn-sm" style="background:#eee;color:#666;padding:10px 20px;border:none;border-radius:10px;margin-left:8px;cursor:pointer;font-family:inherit;font-weight:700" onclick="handlePrint()"><i class="fas fa-print"></i> 印刷する</button>
-    <div class="save-status" id="saveStatus"></div>
+  <div class="lockout-panel" id="lockoutPanel">
+    <h3><i class="fas fa-lock"></i> ログインがロックされているアカウント</h3>
+    <div id="lockoutList"></div>
   </div>
 
-  <div class="history-card">
-    <div class="history-header">
-      <h2><i class="fas fa-calendar-check"></i> 参加した会・アンケート（自分用）</h2>
-      <select class="fy-select" id="fySelect" onchange="changeFY()"></select>
+  <div class="toolbar">
+    <input type="text" class="search-box" id="searchBox" placeholder="🔍 名前・学校名・メールで検索..." oninput="filterMembers()">
+    <div style="display:flex;gap:8px">
+      <button class="btn-sm btn-settings" onclick="toggleSchools()"><i class="fas fa-school"></i> 学校</button>
+      <button class="btn-sm btn-analytics" onclick="toggleAnalytics()"><i class="fas fa-chart-bar"></i> 分析</button>
+      <button class="btn-sm btn-settings" id="btnImport" style="display:none" onclick="toggleImport()"><i class="fas fa-file-import"></i> 一括登録</button>
+      <button class="btn-sm btn-settings" id="btnRegistration" style="display:none" onclick="toggleRegistration()"><i class="fas fa-user-check"></i> 登録設定</button>
+      <button class="btn-sm btn-trash" id="btnTrash" style="display:none" onclick="toggleTrash()"><i class="fas fa-trash-restore"></i> ゴミ箱</button>
+      <button class="btn-sm btn-add" id="btnAddMember" style="display:none" onclick="addMember()"><i class="fas fa-user-plus"></i> 会員を招待</button>
+      <button class="btn-sm btn-add" id="btnCreateOrg" style="display:none" onclick="createOrganization()"><i class="fas fa-plus"></i> クラブを作成</button>
+      <select id="exportSchool" class="role-select" title="CSVの学校名"><option value="current">学校名：現在</option></select>
+      <button class="btn-sm btn-export" onclick="exportCSV()"><i class="fas fa-file-excel"></i> Excel (CSV) ダウンロード</button>
     </div>
-    <div id="historyList" style="margin-top:10px;color:#666;font-size:13px">読み込み中...</div>
+
+</div>
+  </div>
+
+  <div class="filters">
+    <select id="filterRole" onchange="loadMembers()"><option value="">すべての役割</option></select>
+    <select id="filterSchool" onchange="loadMembers()"><option value="">すべての学校</option></select>
+    <select id="filterStatus" onchange="loadMembers()">
+      <option value="">記入状況：すべて</option>
+      <option value="complete">全項目記入済み</option>
+      <option value="partial">一部記入</option>
+      <option value="none">未記入</option>
+    </select>
+    <select id="filterViewpoint" onchange="loadMembers()"><option value="">観点で絞り込み</option></select>
+    <select id="filterStep" onchange="loadMembers()">
+      <option value="1">STEP1</option><option value="2">STEP2</option><option value="3">STEP3</option><option value="4">STEP4</option><option value="0">未選択</option>
+    </select>
+    <select id="sortBy" onchange="loadMembers()">
+      <option value="created_at:desc">登録が新しい順</option>
+      <option value="created_at:asc">登録が古い順</option>
+      <option value="name:asc">名前順</option>
+      <option value="school:asc">学校名順</option>
+      <option value="progress:desc">記入が多い順</option>
+      <option value="progress:asc">記入が少ない順</option>
+    </select>
   </div>
 
+  <table class="member-table">
+    <thead><tr id="memberHead">
+      <th style="width:30px">#</th>
+      <th style="width:140px">名前</th>
+      <th style="width:100px">役割</th>
+      <th style="width:130px">操作</th>
+    </tr></thead>
+    <tbody id="memberBody"></tbody>
+  </table>
+  <div class="list-footer">
+    <span id="listCount"></span>
+    <button class="btn-sm btn-more" id="btnMore" style="display:none" onclick="loadMembers(true)">さらに表示</button>
+  </div>
+</div>
 
+<div class="detail-modal" id="detailModal" onclick="if(event.target===this)this.classList.remove('show')">
+  <div class="detail-content" id="detailContent"></div>
 </div>
 
 <script>
-const token = localStorage.getItem('token');
-const user = JSON.parse(localStorage.getItem('user') || 'null');
+${authClientScript}
+${orgSwitcherScript}
+const user = ${scriptJson(c.get('user'))};
+const roleLabels = ${scriptJson(ROLE_LABELS)};
+if (user.must_change_password) { window.location.href = '/change-password'; throw new Error('redirect'); }
 
-const viewpoints = ['lesson_plan','lesson_practice','student_eval','connection','research'];
-const selectedByVp = Object.create(null);
-let selectionsLoaded = false;
+let allMembers = [];
+let vpKeys = [];
+const vpLabels = {};
 
-function requireAuth() {
-  if (!token || !user) {
-    window.location.href = '/login';
-    return false;
+async function loadRubric() {
+  const res = await fetch('/api/rubric');
+  const data = await res.json();
+  vpKeys = data.rubric.viewpoints.map(vp => vp.key);
+  for (const vp of data.rubric.viewpoints) vpLabels[vp.key] = vp.label;
+  const head = document.getElementById('memberHead');
+  const opsTh = head.lastElementChild;
+  const vpFilter = document.getElementById('filterViewpoint');
+  for (const vp of data.rubric.viewpoints) {
+    const th = document.createElement('th');
+    th.textContent = vp.label;
+    head.insertBefore(th, opsTh);
+    const opt = document.createElement('option');
+    opt.value = vp.key;
+    opt.textContent = vp.label;
+    vpFilter.appendChild(opt);
   }
-  return true;
-}
-
-function currentFY() {
-  const d = new Date();
-  const y = d.getFullYear();
-  const m = d.getMonth() + 1;
-  return m >= 4 ? y : (y - 1);
 }
 
-let activeFY = currentFY();
-
 function esc(s) {
   return (s ?? '').toString().replace(/[&<>"']/g, (ch) => ({
     '&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;', "'":'&#39;'
   }[ch]));
 }
 
-function fetchWithTimeout(url, options, timeoutMs) {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeoutMs || 12000);
-  const opts = Object.assign({}, options || {}, { signal: controller.signal });
-  return fetch(url, opts).finally(() => clearTimeout(id));
+function stepBadge(sel) {
+  if (!sel) return '<span class="step-badge step-none">未選択</span>';
+  return '<span class="step-badge step-'+sel.step+'">STEP'+sel.step+'</span>';
 }
 
-function showSaveStatus(message, ok) {
-  const el = document.getElementById('saveStatus');
-  if (!el) return;
-  const safe = esc(message || '');
-  el.style.display = 'block';
-  el.style.background = ok ? '#e8f5e9' : '#ffebee';
-  el.style.color = ok ? '#2e7d32' : '#c62828';
-  el.innerHTML = (ok ? '<i class="fas fa-check-circle"></i> ' : '<i class="fas fa-exclamation-triangle"></i> ') + safe;
+function can(permission) {
+  return user.permissions.indexOf(permission) >= 0;
+}
 
-  if (showSaveStatus._t) clearTimeout(showSaveStatus._t);
-  showSaveStatus._t = setTimeout(() => { el.style.display = 'none'; }, 4000);
+function roleCell(m) {
+  if (!can('members.manage') || m.id === user.id) {
+    return '<span class="role-badge role-' + esc(m.role) + '">' + esc(roleLabels[m.role] || m.role) + '</span>';
+  }
+  return '<select class="role-select" data-role-select="' + m.id + '">' + roleOptions(m.role) + '</select>';
 }
 
-function setupFYSelect() {
-  const sel = document.getElementById('fySelect');
-  if (!sel) return;
-  const now = currentFY();
-  sel.innerHTML = '';
-  for (let y = now; y >= now - 3; y--) {
-    const opt = document.createElement('option');
-    opt.value = String(y);
-    opt.textContent = y + '年度';
-    sel.appendChild(opt);
+function roleOptions(selected) {
+  return Object.keys(roleLabels).map(r => '<option value="' + r + '"' + (r === selected ? ' selected' : '') + '>' + esc(roleLabels[r]) + '</option>').join('');
+}
+
+function renderMembers(members) {
+  const body = document.getElementById('memberBody');
+  const manage = can('members.manage');
+  body.innerHTML = members.map((m, i) => {
+    return '<tr>' +
+      '<td>'+(i+1)+'</td>' +
+      '<td class="member-name" style="cursor:pointer" data-action="detail" data-id="'+m.id+'">' + esc(m.name) + '</td>' +
+      '<td>' + roleCell(m) + '</td>' +
+      vpKeys.map(vp => '<td>' + stepBadge(m.selections[vp]) + '</td>').join('') +
+      '<td>' +
+        (manage && m.id !== user.id ? '<button class="btn-sm btn-reset" data-action="reset" data-id="'+m.id+'" title="パスワード再発行"><i class="fas fa-key"></i></button> ' : '') +
+        (manage && m.id !== user.id ? '<button class="btn-sm btn-logout-all" data-action="logout-all" data-id="'+m.id+'" data-name="'+esc(m.name)+'" title="すべての端末からログアウト"><i class="fas fa-sign-out-alt"></i></button> ' : '') +
+        (manage && m.id !== user.id ? '<button class="btn-sm btn-danger" data-action="delete" data-id="'+m.id+'" data-name="'+esc(m.name)+'"><i class="fas fa-trash"></i></button>' : '') +
+      '</td>' +
+    '</tr>';
+  }).join('');
+}
+
+// Totals for the whole club, computed by the server
+function updateStats(stats) {
+  document.getElementById('totalCount').textContent = stats.total;
+  document.getElementById('completeCount').textContent = stats.complete;
+  document.getElementById('partialCount').textContent = stats.partial;
+  document.getElementById('noneCount').textContent = stats.none;
+}
+
+function memberQuery() {
+  const params = new URLSearchParams();
+  const q = document.getElementById('searchBox').value.trim();
+  if (q) params.set('q', q);
+  const role = document.getElementById('filterRole').value;
+  if (role) params.set('role', role);
+  const school = document.getElementById('filterSchool').value;
+  if (school) params.set('school', school);
+  const status = document.getElementById('filterStatus').value;
+  if (status) params.set('status', status);
+  const vp = document.getElementById('filterViewpoint').value;
+  if (vp) params.set('step', vp + ':' + document.getElementById('filterStep').value);
+  const sort = document.getElementById('sortBy').value.split(':');
+  params.set('sort', sort[0]);
+  params.set('order', sort[1]);
+  document.querySelectorAll('.stat-card[data-status]').forEach(card => card.classList.toggle('selected', card.dataset.status === status));
+  return params;
+}
+
+function fillSchoolFilter(schools) {
+  const select = document.getElementById('filterSchool');
+  const current = select.value;
+  select.innerHTML = '<option value="">すべての学校</option>' +
+    schools.map(s => '<option value="' + esc(s.school) + '">' + esc(s.school) + '（' + s.count + '）</option>').join('');
+  select.value = current;
+}
+
+let nextCursor = null;
+
+// Loads the first page for the current filters, or the next page when more is true
+async function loadMembers(more) {
+  const params = memberQuery();
+  if (more && nextCursor) params.set('cursor', nextCursor);
+  const res = await fetch('/api/admin/members?' + params.toString(), { headers: authHeaders() });
+  if (res.status === 401 || res.status === 403) { localStorage.clear(); window.location.href = '/login'; return; }
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '会員一覧を読み込めませんでした'); return; }
+  allMembers = more ? allMembers.concat(data.members) : data.members;
+  nextCursor = data.next_cursor;
+  renderMembers(allMembers);
+  updateStats(data.stats);
+  fillSchoolFilter(data.schools);
+  document.getElementById('listCount').textContent = data.total + '人中 ' + allMembers.length + '人を表示';
+  document.getElementById('btnMore').style.display = nextCursor ? '' : 'none';
+}
+
+let searchTimer = null;
+function filterMembers() {
+  clearTimeout(searchTimer);
+  searchTimer = setTimeout(() => loadMembers(), 300);
+}
+
+function showDetail(id) {
+  const m = allMembers.find(x => x.id === id);
+  if (!m) return;
+  let html = '<h2><i class="fas fa-user"></i> ' + esc(m.name) + '</h2>';
+  html += '<p style="color:#888;font-size:13px;margin-bottom:20px">' + (m.school ? ('学校名: ' + esc(m.school) + ' | ') : '') + esc(m.email) + ' | 登録日: ' + esc(m.created_at || '-') + '</p>';
+  for (const vp of vpKeys) {
+    const sel = m.selections[vp];
+    html += '<div class="detail-item"><div><div class="vp-name">' + esc(vpLabels[vp]) + '</div>';
+    if (sel && sel.memo) html += '<div class="memo">' + esc(sel.memo) + '</div>';
+    html += '</div>' + stepBadge(sel) + '</div>';
   }
-  sel.value = String(activeFY);
-  const label = document.getElementById('fyLabel');
-  if (label) label.textContent = '(' + activeFY + '年度)';
+  html += '<h3 style="font-size:14px;color:#555;margin:20px 0 8px"><i class="fas fa-exchange-alt"></i> 学校の異動履歴</h3><div id="schoolHistory"></div>';
+  if (can('members.manage')) {
+    html += '<div class="filters" style="margin-top:8px"><input type="text" id="historySchool" class="role-select" placeholder="異動先の学校名">' +
+      '<input type="date" id="historyDate" class="role-select"><button class="btn-sm btn-add" data-action="history-add" data-id="' + m.id + '">異動を記録</button></div>';
+  }
+  html += '<div style="text-align:center;margin-top:24px"><button class="btn-sm" style="background:#eee;color:#555;padding:8px 24px" id="closeDetailBtn">閉じる</button></div>';
+  openDetail(html, false);
+  loadSchoolHistory(m.id);
 }
 
-function changeFY() {
-  const sel = document.getElementById('fySelect');
-  if (!sel) return;
-  activeFY = parseInt(sel.value, 10);
-  const label = document.getElementById('fyLabel');
-  if (label) label.textContent = '(' + activeFY + '年度)';
-  loadAnnualNotes();
-  loadHistory();
+async function loadSchoolHistory(memberId) {
+  const res = await fetch('/api/admin/members/' + memberId + '/school-history', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  const manage = can('members.manage') && data.assignments.length > 1;
+  document.getElementById('schoolHistory').innerHTML = data.assignments.length ? data.assignments.map((a, i) =>
+    '<div class="trash-item"><div>' + esc(a.started_on) + ' から ' + esc(a.school) + (i === 0 ? '（現在）' : '') +
+    (a.created_by_name ? '<div class="trash-meta">' + esc(a.created_by_name) + 'が記録</div>' : '') + '</div>' +
+    (manage ? '<button class="btn-sm btn-danger" data-action="history-delete" data-id="' + memberId + '" data-entry="' + a.id + '" title="この記録を削除"><i class="fas fa-times"></i></button>' : '') +
+    '</div>').join('') : '<div class="trash-meta">記録はありません</div>';
 }
 
-async function loadAnnualNotes() {
-  try {
-    const res = await fetchWithTimeout('/api/me/annual-notes?fy=' + activeFY, { headers: { 'Authorization': 'Bearer ' + token } }, 12000);
-    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
-    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
-    const data = await res.json();
-    const g = document.getElementById('annualGoal');
-    const r = document.getElementById('annualReflection');
-    if (g) g.value = (data.goal || '');
-    if (r) r.value = (data.reflection || '');
+async function addSchoolHistory(memberId) {
+  const res = await fetch('/api/admin/members/' + memberId + '/school-history', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ school: document.getElementById('historySchool').value, started_on: document.getElementById('historyDate').value })
+  });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '記録に失敗しました'); return; }
+  document.getElementById('historySchool').value = '';
+  loadSchoolHistory(memberId);
+  loadMembers();
+}
 
-    const at = data.updated_at ? ('最終更新：' + new Date(data.updated_at).toLocaleString('ja-JP')) : '';
-    const s1 = document.getElementById('annualSavedAt');
-    const s2 = document.getElementById('annualSavedAt2');
-    if (s1) s1.textContent = at;
-    if (s2) s2.textContent = at;
-  } catch(e) {
-    console.error(e);
+async function deleteSchoolHistory(memberId, entryId) {
+  if (!confirm('この異動の記録を削除しますか？')) return;
+  const res = await fetch('/api/admin/members/' + memberId + '/school-history/' + entryId, { method: 'DELETE', headers: authHeaders() });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '削除に失敗しました'); return; }
+  loadSchoolHistory(memberId);
+  loadMembers();
+}
+
+function openDetail(html, wide) {
+  const content = document.getElementById('detailContent');
+  content.classList.toggle('wide', wide);
+  content.innerHTML = html;
+  document.getElementById('closeDetailBtn').addEventListener('click', function() { document.getElementById('detailModal').classList.remove('show'); });
+  document.getElementById('detailModal').classList.add('show');
+}
+
+async function changeRole(id, select) {
+  const m = allMembers.find(x => x.id === id);
+  if (!m) return;
+  if (!confirm(m.name + ' さんの役割を「' + roleLabels[select.value] + '」に変更しますか？')) {
+    select.value = m.role;
+    return;
   }
+  const res = await fetch('/api/admin/members/'+id+'/role', {
+    method: 'PUT',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ role: select.value })
+  });
+  if (!res.ok) alert('役割の変更に失敗しました');
+  loadMembers();
 }
 
-async function saveAnnualNotes() {
-  const gEl = document.getElementById('annualGoal');
-  const rEl = document.getElementById('annualReflection');
-  const g = gEl ? gEl.value : '';
-  const r = rEl ? rEl.value : '';
+function showResetDialog(id) {
+  const m = allMembers.find(x => x.id === id);
+  if (!m) return;
+  let html = '<h2><i class="fas fa-key"></i> パスワードの再発行</h2>';
+  html += '<p style="color:#555;font-size:14px">' + esc(m.name) + ' さん（' + esc(m.email) + '）</p>';
+  html += '<div class="reset-choice">'
+    + '<button data-action="reset-temporary" data-id="' + m.id + '"><strong><i class="fas fa-user-lock"></i> 仮パスワードを発行</strong><span>その場で伝えられる仮パスワードを表示します。次回ログイン時に変更が必要です。</span></button>'
+    + '<button data-action="reset-link" data-id="' + m.id + '"><strong><i class="fas fa-link"></i> 再設定リンクを発行</strong><span>本人がパスワードを設定できるリンクを表示します（72時間有効）。</span></button>'
+    + '</div><div id="resetResult"></div>';
+  html += '<div style="text-align:center;margin-top:24px"><button class="btn-sm" style="background:#eee;color:#555;padding:8px 24px" id="closeDetailBtn">閉じる</button></div>';
+  document.getElementById('detailContent').innerHTML = html;
+  document.getElementById('closeDetailBtn').addEventListener('click', function() { document.getElementById('detailModal').classList.remove('show'); });
+  document.getElementById('detailModal').classList.add('show');
+}
+
+async function resetPassword(id, mode) {
+  const m = allMembers.find(x => x.id === id);
+  if (!m) return;
+  const label = mode === 'temporary' ? '仮パスワードを発行' : '再設定リンクを発行';
+  if (!confirm(m.name + ' さんの' + label + 'しますか？' + (mode === 'temporary' ? '現在のパスワードは使えなくなります。' : ''))) return;
+  const res = await fetch('/api/admin/members/' + id + '/reset-password', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ mode: mode })
+  });
+  const data = await res.json();
+  const out = document.getElementById('resetResult');
+  if (!res.ok) { out.innerHTML = '<div class="reset-result" style="color:#c62828">' + esc(data.error || '失敗しました') + '</div>'; return; }
+  out.innerHTML = mode === 'temporary'
+    ? '<div class="reset-result">仮パスワード（この画面を閉じると再表示できません）<div class="secret">' + esc(data.temporary_password) + '</div>ログイン後、新しいパスワードの設定を求められます。</div>'
+    : '<div class="reset-result">再設定リンク（72時間有効・1回限り）<div style="margin:6px 0;font-family:monospace">' + esc(data.reset_url) + '</div><button class="btn-sm" style="background:#1a237e;color:#fff" id="copyResetUrl"><i class="fas fa-copy"></i> コピー</button></div>';
+  const copyBtn = document.getElementById('copyResetUrl');
+  if (copyBtn) copyBtn.addEventListener('click', function() { navigator.clipboard && navigator.clipboard.writeText(data.reset_url); copyBtn.textContent = 'コピーしました'; });
+}
+
+async function logoutAllSessions(id, name) {
+  if (!confirm(name + ' さんをすべての端末からログアウトさせますか？')) return;
+  const res = await fetch('/api/admin/members/' + id + '/logout-all', {
+    method: 'POST',
+    headers: authHeaders()
+  });
+  alert(res.ok ? 'ログアウトさせました' : 'ログアウトに失敗しました');
+}
+
+async function deleteMember(id, name) {
+  if (!confirm(name + ' さんをゴミ箱へ移動しますか？（保存期間内ならゴミ箱から復元できます）')) return;
+  await fetch('/api/admin/members/'+id, {
+    method: 'DELETE',
+    headers: authHeaders()
+  });
+  loadMembers();
+  if (document.getElementById('trashPanel').style.display === 'block') loadTrash();
+}
+
+function toggleTrash() {
+  const panel = document.getElementById('trashPanel');
+  const show = panel.style.display !== 'block';
+  panel.style.display = show ? 'block' : 'none';
+  if (show) loadTrash();
+}
+
+async function loadTrash() {
+  const res = await fetch('/api/admin/members/trash', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  document.getElementById('trashRetention').textContent = data.retention_days;
+  const items = data.members || [];
+  document.getElementById('trashList').innerHTML = items.length ? items.map(m => {
+    const when = new Date(m.deleted_at.replace(' ', 'T') + 'Z').toLocaleString('ja-JP');
+    const purge = new Date(m.purge_at.replace(' ', 'T') + 'Z').toLocaleDateString('ja-JP');
+    return '<div class="trash-item"><div>' + esc(m.name) + ' さん（' + esc(m.email) + '）' +
+      '<div class="trash-meta">' + esc(when) + ' に' + esc(m.deleted_by_name || '') + 'が削除 ／ ' + esc(purge) + ' に完全削除</div></div>' +
+      '<div><button class="btn-sm btn-restore" data-action="restore" data-id="' + m.id + '" data-name="' + esc(m.name) + '"><i class="fas fa-undo"></i> 復元</button> ' +
+      '<button class="btn-sm btn-danger" data-action="purge" data-id="' + m.id + '" data-name="' + esc(m.name) + '" title="今すぐ完全に削除"><i class="fas fa-times"></i></button></div></div>';
+  }).join('') : '<div class="trash-meta">ゴミ箱は空です</div>';
+}
+
+async function restoreMember(id, name) {
+  if (!confirm(name + ' さんを復元しますか？')) return;
+  const res = await fetch('/api/admin/members/' + id + '/restore', { method: 'POST', headers: authHeaders() });
+  if (!res.ok) { alert('復元に失敗しました'); return; }
+  loadTrash();
+  loadMembers();
+}
+
+async function purgeMember(id, name) {
+  if (!confirm(name + ' さんの記録を完全に削除しますか？この操作は取り消せません。')) return;
+  const res = await fetch('/api/admin/members/' + id + '/purge', { method: 'DELETE', headers: authHeaders() });
+  if (!res.ok) { alert('削除に失敗しました'); return; }
+  loadTrash();
+}
+
+async function addMember() {
+  const email = prompt((user.org_name || 'このクラブ') + ' に招待する登録者のメールアドレス（本人が招待を受けるとクラブに加わります）');
+  if (!email) return;
+  const res = await fetch('/api/admin/members', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ email: email.trim(), role: 'member' })
+  });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '招待に失敗しました'); return; }
+  if (data.mailed) alert('招待メールを送りました。本人が招待を受けるとクラブに加わります。');
+  else prompt('招待メールを送れませんでした。このリンクを本人に送ってください', data.url);
+}
+
+async function createOrganization() {
+  const name = prompt('新しいクラブの名前');
+  if (!name) return;
+  const slug = prompt('識別子（半角英小文字・数字・ハイフン）');
+  if (!slug) return;
+  const res = await fetch('/api/admin/organizations', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ name: name.trim(), slug: slug.trim() })
+  });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '作成に失敗しました'); return; }
+  alert(name + ' を作成しました。上部の切り替えから移動できます。');
+  initOrgSwitcher('orgSwitcher');
+}
+
+// Past fiscal years export the school each member was at when the year ended
+function fillExportSchool() {
+  const now = new Date();
+  const fy = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  let html = '<option value="current">学校名：現在</option>';
+  for (let y = fy - 1; y >= fy - 5; y--) html += '<option value="' + y + '">学校名：' + y + '年度末</option>';
+  document.getElementById('exportSchool').innerHTML = html;
+}
+
+async function exportCSV() {
+  const year = document.getElementById('exportSchool').value;
+  const query = year === 'current' ? '' : '?school=at_time&fiscal_year=' + year;
+  const res = await fetch('/api/admin/export' + query, { headers: authHeaders() });
+  if (!res.ok) { alert('エクスポートに失敗しました'); return; }
+  const blob = await res.blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'shakaika_members_export.csv';
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+async function loadMigrations() {
+  const res = await fetch('/api/admin/migrations', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  const banner = document.getElementById('migrationBanner');
+  banner.style.display = data.pending.length ? 'flex' : 'none';
+  document.getElementById('migrationCount').textContent = data.pending.length;
+  document.getElementById('schemaCurrent').textContent = data.current_version;
+  document.getElementById('schemaLatest').textContent = data.latest_version;
+}
+
+async function applyMigrations() {
+  if (!confirm('データベースの更新を適用しますか？')) return;
+  const res = await fetch('/api/init', { method: 'POST', headers: authHeaders() });
+  const data = await res.json();
+  alert(res.ok ? data.message : (data.error || '更新に失敗しました'));
+  loadMigrations();
+}
 
-  const res = await fetchWithTimeout('/api/me/annual-notes', {
-    method: 'POST',
-    headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' },
-    body: JSON.stringify({ fiscal_year: activeFY, goal: g, reflection: r })
-  }, 12000);
+async function loadPending() {
+  const res = await fetch('/api/admin/members/pending', { headers: authHeaders() });
+  if (!res.ok) return;
+  const items = (await res.json()).members || [];
+  document.getElementById('pendingPanel').style.display = items.length ? 'block' : 'none';
+  document.getElementById('pendingCount').textContent = items.length;
+  document.getElementById('pendingList').innerHTML = items.map(m => {
+    const when = new Date(m.created_at.replace(' ', 'T') + 'Z').toLocaleString('ja-JP');
+    return '<div class="pending-item"><div>' + esc(m.name) + ' さん（' + esc(m.school) + '・' + esc(m.email) + '）' +
+      '<div class="lockout-meta">' + esc(when) + ' に登録</div></div>' +
+      '<div><button class="btn-sm btn-approve" data-action="approve" data-id="' + m.id + '" data-name="' + esc(m.name) + '"><i class="fas fa-check"></i> 承認</button> ' +
+      '<button class="btn-sm btn-danger" data-action="reject" data-id="' + m.id + '" data-name="' + esc(m.name) + '"><i class="fas fa-times"></i> 却下</button></div></div>';
+  }).join('');
+}
 
-  if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
-  if (!res.ok) {
-    let data = {};
-    try { data = await res.json(); } catch(e) {}
-    throw new Error(data.error || ('保存に失敗しました（' + res.status + '）'));
-  }
+async function approveMember(id) {
+  const res = await fetch('/api/admin/members/' + id + '/approve', { method: 'POST', headers: authHeaders() });
+  if (!res.ok) { alert('承認に失敗しました'); return; }
+  loadPending();
+  loadMembers();
 }
 
-function toggleDetail(id) {
-  const el = document.getElementById(id);
-  if (!el) return;
-  el.classList.toggle('show');
+async function rejectMember(id, name) {
+  if (!confirm(name + ' さんの登録を却下しますか？登録内容は削除されます。')) return;
+  const res = await fetch('/api/admin/members/' + id + '/reject', { method: 'POST', headers: authHeaders() });
+  if (!res.ok) { alert('却下に失敗しました'); return; }
+  loadPending();
 }
 
-function renderHistory(events) {
-  const root = document.getElementById('historyList');
-  if (!root) return;
+function toggleRegistration() {
+  const panel = document.getElementById('registrationPanel');
+  const show = panel.style.display !== 'block';
+  panel.style.display = show ? 'block' : 'none';
+  if (show) { loadRegistration(); loadInvitations(); }
+}
 
-  if (!events || events.length === 0) {
-    root.innerHTML = '<div style="color:#888">この年度は、出席した会がまだありません。</div>';
-    return;
-  }
+function renderInviteCode(code) {
+  document.getElementById('inviteCode').textContent = code || 'なし';
+  document.getElementById('btnDisableInvite').style.display = code ? '' : 'none';
+  document.getElementById('inviteLinkRow').style.display = code ? '' : 'none';
+  document.getElementById('inviteLink').textContent = code ? location.origin + '/login?invite=' + code : '';
+}
 
-  let html = '';
-  for (const ev0 of events) {
-    const ev = ev0 || {};
-    const answered = !!(ev.survey && ev.survey.answered_at);
-    const tag = answered
-      ? '<span class="tag tag-answered">回答済み</span>'
-      : '<span class="tag tag-pending">未回答</span>';
+async function loadRegistration() {
+  const res = await fetch('/api/admin/registration', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  document.getElementById('requireApproval').checked = data.require_approval;
+  renderInviteCode(data.invite_code);
+}
 
-    const detailId = 'detail_' + ev.event_id;
-    const sat = (ev.survey && ev.survey.satisfaction) ? ('満足度：' + ev.survey.satisfaction + ' / 5') : '満足度：—';
-    const comment = (ev.survey && ev.survey.comment) ? esc(ev.survey.comment) : '（自由記述なし）';
+async function saveRequireApproval(checkbox) {
+  const res = await fetch('/api/admin/registration', {
+    method: 'PUT',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ require_approval: checkbox.checked })
+  });
+  if (!res.ok) { alert('設定を保存できませんでした'); checkbox.checked = !checkbox.checked; }
+}
 
-    let qaHtml = '';
-    if (Array.isArray(ev.questions) && ev.questions.length > 0) {
-      qaHtml += '<div class="qa"><div style="font-weight:700;color:#555;margin-top:8px">追加質問</div>';
-      for (const q0 of ev.questions) {
-        const q = q0 || {};
-        const a = (q.answer_text && q.answer_text.trim()) ? esc(q.answer_text) : '（未回答）';
-        qaHtml += '<div class="q">Q. ' + esc(q.question_text || '') + '</div><div class="a">' + a + '</div>';
-      }
-      qaHtml += '</div>';
-    }
+async function issueInviteCode() {
+  if (document.getElementById('inviteCode').textContent !== 'なし' && !confirm('新しいコードを発行すると、今のコードと招待リンクは使えなくなります。よろしいですか？')) return;
+  const res = await fetch('/api/admin/registration/invite-code', { method: 'POST', headers: authHeaders() });
+  if (!res.ok) { alert('発行に失敗しました'); return; }
+  renderInviteCode((await res.json()).invite_code);
+}
 
-    html += ''
-      + '<div class="event-item">'
-      +   '<div style="display:flex;justify-content:space-between;gap:10px;align-items:flex-start;flex-wrap:wrap">'
-      +     '<div>'
-      +       '<div class="event-title">' + esc(ev.title || '') + '</div>'
-      +       '<div class="event-meta">'
-      +         '<span><i class="fas fa-calendar-day"></i> ' + esc(ev.event_date || '') + '</span>'
-      +         tag
-      +       '</div>'
-      +     '</div>'
-      +     '<button class="toggle-btn" type="button" data-detail="' + esc(detailId) + '"><i class="fas fa-eye"></i> 振り返りを見る</button>'
-      +   '</div>'
-      +   '<div class="event-detail" id="' + esc(detailId) + '">'
-      +     '<div style="font-weight:700;color:#555">' + esc(sat) + '</div>'
-      +     '<div style="margin-top:6px;color:#555;white-space:pre-wrap">' + comment + '</div>'
-      +     qaHtml
-      +   '</div>'
-      + '</div>';
-  }
+async function disableInviteCode() {
+  if (!confirm('招待コードを無効にしますか？')) return;
+  const res = await fetch('/api/admin/registration/invite-code', { method: 'DELETE', headers: authHeaders() });
+  if (!res.ok) { alert('変更に失敗しました'); return; }
+  renderInviteCode(null);
+}
 
-  root.innerHTML = html;
+async function loadInvitations() {
+  const res = await fetch('/api/admin/invitations', { headers: authHeaders() });
+  if (!res.ok) return;
+  const items = (await res.json()).invitations || [];
+  const statusLabels = { open: '有効', used: '使用済み', expired: '期限切れ' };
+  document.getElementById('invitationList').innerHTML = items.map(i => {
+    const until = new Date(i.expires_at).toLocaleDateString('ja-JP');
+    const who = [i.email, i.school].filter(Boolean).map(esc).join('・') || '（宛先指定なし）';
+    const detail = i.status === 'used' ? esc(i.used_by_name || '') + ' さんが登録' : until + ' まで';
+    return '<div class="invite-item"><div><span class="invite-status ' + i.status + '">' + statusLabels[i.status] + '</span> ' + who +
+      '<div class="lockout-meta">' + esc(roleLabels[i.role] || i.role) + ' ／ ' + detail + ' ／ 発行：' + esc(i.created_by_name || '') + '</div></div>' +
+      (i.status === 'open' ? '<button class="btn-sm btn-danger" data-action="revoke-invite" data-id="' + i.id + '">取り消し</button>' : '') + '</div>';
+  }).join('');
+}
 
-  // Attach toggle handlers
-  root.querySelectorAll('.toggle-btn').forEach((btn) => {
-    btn.addEventListener('click', () => {
-      const id = btn.getAttribute('data-detail');
-      if (id) toggleDetail(id);
-    });
+async function createInvitation() {
+  const res = await fetch('/api/admin/invitations', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      school: document.getElementById('invSchool').value,
+      email: document.getElementById('invEmail').value,
+      role: document.getElementById('invRole').value,
+      expires_in_days: parseInt(document.getElementById('invDays').value)
+    })
   });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '発行に失敗しました'); return; }
+  document.getElementById('newInvitationRow').style.display = '';
+  const url = document.getElementById('newInvitationUrl');
+  url.value = data.url;
+  url.select();
+  document.getElementById('invSchool').value = '';
+  document.getElementById('invEmail').value = '';
+  loadInvitations();
 }
 
-async function loadHistory() {
-  const root = document.getElementById('historyList');
-  if (root) root.textContent = '読み込み中...';
-  try {
-    const res = await fetchWithTimeout('/api/me/history?fy=' + activeFY, { headers: { 'Authorization': 'Bearer ' + token } }, 12000);
-    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
-    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
-    const data = await res.json();
-    renderHistory((data && data.events) ? data.events : []);
-  } catch(e) {
-    console.error(e);
-    if (root) root.innerHTML = '<div style="color:#c62828">読み込みに失敗しました（通信が不安定か、サーバーが応答していません）</div>';
-  }
+async function revokeInvitation(id) {
+  if (!confirm('この招待リンクを取り消しますか？')) return;
+  const res = await fetch('/api/admin/invitations/' + id, { method: 'DELETE', headers: authHeaders() });
+  if (!res.ok) { alert('取り消しに失敗しました'); return; }
+  loadInvitations();
 }
 
-function selectCell(td) {
-  const vp = td.getAttribute('data-vp') || '';
-  const step = parseInt(td.getAttribute('data-step') || '0', 10);
-  if (!vp || !step) return;
+function toggleImport() {
+  const panel = document.getElementById('importPanel');
+  panel.style.display = panel.style.display === 'block' ? 'none' : 'block';
+}
 
-  // radio behavior per viewpoint
-  document.querySelectorAll('.col-step[data-vp="' + vp + '"]').forEach((el) => el.classList.remove('selected'));
-  td.classList.add('selected');
+// Excel saves CSV as Shift_JIS; fall back to it when the file is not valid UTF-8
+function readImportFile(input) {
+  const file = input.files[0];
+  if (!file) return;
+  file.arrayBuffer().then(buf => {
+    let text;
+    try { text = new TextDecoder('utf-8', { fatal: true }).decode(buf); }
+    catch (e) { text = new TextDecoder('shift_jis').decode(buf); }
+    document.getElementById('importText').value = text;
+    resetImport();
+  });
+}
 
-  const memoEl = td.querySelector('.memo-input');
-  selectedByVp[vp] = { step: step, memo: memoEl ? memoEl.value : '' };
+function resetImport() {
+  document.getElementById('btnImportCommit').disabled = true;
+  document.getElementById('importResult').innerHTML = '';
 }
 
-function attachMemoListeners() {
-  document.querySelectorAll('.col-step').forEach((cell) => {
-    const vp = cell.getAttribute('data-vp') || '';
-    const step = parseInt(cell.getAttribute('data-step') || '0', 10);
-    const memo = cell.querySelector('.memo-input');
-    if (!vp || !step || !memo) return;
-    memo.addEventListener('input', () => {
-      const cur = selectedByVp[vp];
-      if (cur && cur.step === step) cur.memo = memo.value;
-    });
+async function runImport(dryRun) {
+  if (!dryRun && !confirm('名簿の内容で会員を登録しますか？')) return;
+  const res = await fetch('/api/admin/members/import', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ text: document.getElementById('importText').value, role: document.getElementById('importRole').value, dry_run: dryRun })
   });
+  const data = await res.json();
+  const result = document.getElementById('importResult');
+  if (!data.rows && !data.summary) { result.innerHTML = '<p class="import-error">' + esc(data.error || '確認に失敗しました') + '</p>'; return; }
+  const s = data.summary;
+  if (data.success) {
+    result.innerHTML = '<p><i class="fas fa-check-circle" style="color:#2e7d32"></i> 新規 ' + s.create + ' 人を登録し、すでにアカウントのある ' + s.invite + ' 人に招待メールを送りました（本人が参加するとクラブに加わります）。' +
+      (data.mail_failed_rows.length ? '<br><span class="import-error">' + data.mail_failed_rows.join('・') + ' 行目の案内メールを送れませんでした。新規の方は会員一覧のパスワード再発行から、招待の方は登録設定の招待リンクから案内してください。</span>' : '') + '</p>';
+    document.getElementById('importText').value = '';
+    document.getElementById('btnImportCommit').disabled = true;
+    loadMembers();
+    return;
+  }
+  const actionLabels = { create: '新規登録', invite: '招待メールを送信' };
+  result.innerHTML = '<p>' + s.total + ' 行：新規 ' + s.create + ' ／ 招待 ' + s.invite + ' ／ <span class="import-error">エラー ' + s.errors + '</span>' +
+    (data.error ? '<br><span class="import-error">' + esc(data.error) + '</span>' : '') + '</p>' +
+    '<table class="import-table"><thead><tr><th>行</th><th>名前</th><th>学校名</th><th>メール</th><th>結果</th></tr></thead><tbody>' +
+    data.rows.map(r => '<tr class="' + (r.errors.length ? 'has-error' : '') + '"><td>' + r.row + '</td><td>' + esc(r.name) + '</td><td>' + esc(r.school) + '</td><td>' + esc(r.email) + '</td><td>' +
+      (r.errors.length ? '<span class="import-error">' + r.errors.map(esc).join('<br>') + '</span>' : actionLabels[r.action]) + '</td></tr>').join('') +
+    '</tbody></table>';
+  document.getElementById('btnImportCommit').disabled = s.errors > 0;
 }
 
-function clearSelectionsUI() {
-  document.querySelectorAll('.col-step.selected').forEach((el) => el.classList.remove('selected'));
-  for (const vp of viewpoints) delete selectedByVp[vp];
+async function loadLockouts() {
+  const res = await fetch('/api/admin/lockouts', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  const items = data.lockouts || [];
+  document.getElementById('lockoutPanel').style.display = items.length ? 'block' : 'none';
+  document.getElementById('lockoutList').innerHTML = items.map(l => {
+    const who = l.scope === 'email'
+      ? (l.user_name ? esc(l.user_name) + ' さん（' + esc(l.key) + '）' : esc(l.key) + '（未登録）')
+      : 'IPアドレス ' + esc(l.key);
+    const until = new Date(l.locked_until).toLocaleString('ja-JP');
+    return '<div class="lockout-item"><div>' + who +
+      '<div class="lockout-meta">失敗 ' + l.failures + ' 回 ／ ' + esc(until) + ' までロック</div></div>' +
+      '<button class="btn-sm btn-unlock" data-action="unlock" data-scope="' + esc(l.scope) + '" data-key="' + esc(l.key) + '"><i class="fas fa-unlock"></i> 解除</button></div>';
+  }).join('');
 }
 
-async function loadSelections() {
-  selectionsLoaded = false;
-  try {
-    const res = await fetchWithTimeout('/api/selections', { headers: { 'Authorization': 'Bearer ' + token } }, 12000);
-    if (res.status === 401) { localStorage.clear(); window.location.href = '/login'; return; }
-    if (!res.ok) throw new Error('読み込みに失敗しました（' + res.status + '）');
-    const data = await res.json();
-    clearSelectionsUI();
+async function unlockLogin(scope, key) {
+  if (!confirm(key + ' のロックを解除しますか？')) return;
+  const res = await fetch('/api/admin/lockouts?scope=' + encodeURIComponent(scope) + '&key=' + encodeURIComponent(key), {
+    method: 'DELETE',
+    headers: authHeaders()
+  });
+  if (!res.ok) { alert('解除に失敗しました'); return; }
+  loadLockouts();
+}
 
-    const selections = (data && data.selections) ? data.selections : [];
-    for (const s0 of selections) {
-      const s = s0 || {};
-      const vp = s.viewpoint || '';
-      const step = parseInt(String(s.step || '0'), 10);
-      if (!vp || !step) continue;
+async function logout() {
+  try { await fetch('/api/auth/logout', { method:'POST', headers: authHeaders() }); } catch(e){}
+  localStorage.clear(); window.location.href = '/login';
+}
 
-      // If multiple rows exist for the same viewpoint, the last one wins.
-      selectedByVp[vp] = { step: step, memo: s.memo || '' };
-    }
+let schoolRows = [];
+let editingSchoolId = null;
 
-    for (const vp of viewpoints) {
-      const sel = selectedByVp[vp];
-      if (!sel) continue;
-      const cell = document.querySelector('.col-step[data-vp="' + vp + '"][data-step="' + sel.step + '"]');
-      if (cell) {
-        cell.classList.add('selected');
-        const memo = cell.querySelector('.memo-input');
-        if (memo) memo.value = sel.memo || '';
-      }
-    }
-  } catch(e) {
-    console.error(e);
-  } finally {
-    selectionsLoaded = true;
-  }
+function toggleSchools() {
+  const panel = document.getElementById('schoolsPanel');
+  const show = panel.style.display !== 'block';
+  panel.style.display = show ? 'block' : 'none';
+  if (show) loadSchools();
 }
 
-async function saveSelections() {
-  if (!requireAuth()) return;
-  if (!selectionsLoaded) {
-    showSaveStatus('読み込み中です。少し待ってから保存してください。', false);
-    return;
+async function loadSchools() {
+  const res = await fetch('/api/admin/schools', { headers: authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  schoolRows = data.schools;
+  const typeSelect = document.getElementById('schoolType');
+  if (!typeSelect.options.length) {
+    typeSelect.innerHTML = '<option value="">種別</option>' + data.types.map(t => '<option value="' + esc(t) + '">' + esc(t) + '</option>').join('');
   }
+  const manage = can('members.manage');
+  document.getElementById('schoolList').innerHTML = schoolRows.length ?
+    '<table class="import-table"><tr><th></th><th>学校名</th><th>区</th><th>種別</th><th>別の表記</th><th>会員数</th><th></th></tr>' +
+    schoolRows.map(sc => '<tr><td>' + (manage ? '<input type="checkbox" class="school-check" value="' + sc.id + '">' : '') + '</td>' +
+      '<td><a href="#" data-action="school-detail" data-id="' + sc.id + '">' + esc(sc.name) + '</a></td><td>' + esc(sc.ward) + '</td><td>' + esc(sc.school_type) + '</td>' +
+      '<td>' + sc.aliases.map(a => '<span class="school-alias">' + esc(a) + '</span>').join('') + '</td><td>' + sc.member_count + '</td>' +
+      '<td>' + (manage ? '<button class="btn-sm btn-settings" data-action="school-edit" data-id="' + sc.id + '">編集</button> ' +
+        '<button class="btn-sm btn-danger" data-action="school-delete" data-id="' + sc.id + '"><i class="fas fa-trash"></i></button>' : '') + '</td></tr>').join('') +
+    '</table>' : '<div class="lockout-meta">まだ学校が登録されていません</div>';
+  document.getElementById('unassignedList').innerHTML = data.unassigned.length ?
+    '<table class="import-table"><tr><th></th><th>入力された学校名</th><th>人数</th><th></th></tr>' +
+    data.unassigned.map(u => '<tr><td>' + (manage ? '<input type="checkbox" class="name-check" value="' + esc(u.school) + '">' : '') + '</td>' +
+      '<td>' + esc(u.school) + '</td><td>' + u.count + '</td>' +
+      '<td>' + (manage ? '<button class="btn-sm btn-add" data-action="school-register" data-name="' + esc(u.school) + '">この名前で登録</button>' : '') + '</td></tr>').join('') +
+    '</table>' : '<div class="lockout-meta">すべての会員が登録済みの学校に紐づいています</div>';
+  document.getElementById('mergeTarget').innerHTML = schoolRows.map(sc => '<option value="' + sc.id + '">' + esc(sc.name) + '</option>').join('');
+}
 
-  const btn = document.getElementById('btnSave');
-  const prev = btn ? btn.innerHTML : '';
-  if (btn) {
-    btn.disabled = true;
-    btn.innerHTML = '<i class="fas fa-spinner fa-spin"></i> 保存中...';
-  }
+async function saveSchool() {
+  const body = {
+    name: document.getElementById('schoolName').value,
+    ward: document.getElementById('schoolWard').value,
+    school_type: document.getElementById('schoolType').value
+  };
+  const res = await fetch(editingSchoolId ? '/api/admin/schools/' + editingSchoolId : '/api/admin/schools', {
+    method: editingSchoolId ? 'PUT' : 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(body)
+  });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '保存に失敗しました'); return; }
+  if (data.linked) alert('入力が同じ会員 ' + data.linked + ' 名をこの学校に紐づけました');
+  resetSchoolForm();
+  loadSchools();
+  loadMembers();
+}
 
-  try {
-    const tasks = [];
+function editSchool(id) {
+  const sc = schoolRows.find(x => x.id === id);
+  if (!sc) return;
+  editingSchoolId = id;
+  document.getElementById('schoolName').value = sc.name;
+  document.getElementById('schoolWard').value = sc.ward;
+  document.getElementById('schoolType').value = sc.school_type;
+  document.getElementById('btnSaveSchool').innerHTML = '<i class="fas fa-save"></i> 保存';
+  document.getElementById('btnCancelSchool').style.display = '';
+  document.getElementById('schoolName').focus();
+}
 
-    for (const vp of viewpoints) {
-      const sel = selectedByVp[vp];
-      if (sel && sel.step) {
-        // Get latest memo from DOM (in case)
-        const cell = document.querySelector('.col-step[data-vp="' + vp + '"][data-step="' + sel.step + '"]');
-        let memo = sel.memo || '';
-        if (cell) {
-          const memoEl = cell.querySelector('.memo-input');
-          if (memoEl) memo = memoEl.value;
-        }
+function resetSchoolForm() {
+  editingSchoolId = null;
+  document.getElementById('schoolName').value = '';
+  document.getElementById('schoolWard').value = '';
+  document.getElementById('schoolType').value = '';
+  document.getElementById('btnSaveSchool').innerHTML = '<i class="fas fa-plus"></i> 登録';
+  document.getElementById('btnCancelSchool').style.display = 'none';
+}
 
-        tasks.push(fetchWithTimeout('/api/selections', {
-          method: 'POST',
-          headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' },
-          body: JSON.stringify({ viewpoint: vp, step: sel.step, memo: memo })
-        }, 12000));
-      } else {
-        tasks.push(fetchWithTimeout('/api/selections/' + vp, {
-          method: 'DELETE',
-          headers: { 'Authorization': 'Bearer ' + token }
-        }, 12000));
-      }
-    }
+async function registerSchoolName(name) {
+  document.getElementById('schoolName').value = name;
+  await saveSchool();
+}
 
-    // Also save annual notes
-    await Promise.all(tasks);
-    await saveAnnualNotes();
+async function deleteSchool(id) {
+  const sc = schoolRows.find(x => x.id === id);
+  if (!sc || !confirm(sc.name + ' をマスタから削除しますか？（会員の学校名はそのまま残ります）')) return;
+  const res = await fetch('/api/admin/schools/' + id, { method: 'DELETE', headers: authHeaders() });
+  if (!res.ok) { alert('削除に失敗しました'); return; }
+  loadSchools();
+}
 
-    showSaveStatus('保存しました', true);
-  } catch(e) {
-    console.error(e);
-    showSaveStatus((e && e.message) ? e.message : '保存に失敗しました', false);
-  } finally {
-    if (btn) {
-      btn.disabled = false;
-      btn.innerHTML = prev;
-    }
-  }
+async function mergeSchools() {
+  const target = parseInt(document.getElementById('mergeTarget').value);
+  if (!target) { alert('まとめ先の学校を先に登録してください'); return; }
+  const schoolIds = Array.from(document.querySelectorAll('.school-check:checked')).map(el => parseInt(el.value)).filter(id => id !== target);
+  const names = Array.from(document.querySelectorAll('.name-check:checked')).map(el => el.value);
+  if (!schoolIds.length && !names.length) { alert('まとめる学校・表記にチェックを付けてください'); return; }
+  const targetName = schoolRows.find(x => x.id === target).name;
+  const from = schoolRows.filter(x => schoolIds.indexOf(x.id) >= 0).map(x => x.name).concat(names);
+  if (!confirm(from.join('、') + ' を ' + targetName + ' にまとめますか？')) return;
+  const res = await fetch('/api/admin/schools/' + target + '/merge', {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ school_ids: schoolIds, names: names })
+  });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '統合に失敗しました'); return; }
+  alert(data.members + ' 名の会員を ' + targetName + ' にまとめました');
+  loadSchools();
+  loadMembers();
 }
 
-function handlePrint() {
-  try {
-    if (typeof window.print !== 'function') {
-      alert('この端末・ブラウザでは印刷が利用できない場合があります。PCブラウザをお試しください。');
-      return;
+async function showSchool(id) {
+  const res = await fetch('/api/admin/schools/' + id, { headers: authHeaders() });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '読み込みに失敗しました'); return; }
+  const sc = data.school;
+  let html = '<h2><i class="fas fa-school"></i> ' + esc(sc.name) + '</h2>';
+  html += '<p style="color:#888;font-size:13px;margin-bottom:20px">' + esc([sc.ward, sc.school_type].filter(Boolean).join('・') || '区・種別は未設定') +
+    (sc.aliases.length ? ' | 別の表記: ' + sc.aliases.map(esc).join('、') : '') + ' | 会員 ' + data.members.length + ' 名</p>';
+  if (data.members.length) {
+    html += '<div class="analytics-scroll"><table class="import-table"><tr><th>名前</th><th>役割</th>' + vpKeys.map(vp => '<th>' + esc(vpLabels[vp]) + '</th>').join('') + '<th>イベント参加</th></tr>';
+    for (const m of data.members) {
+      html += '<tr><td>' + esc(m.name) + '</td><td>' + esc(roleLabels[m.role] || m.role) + '</td>' +
+        vpKeys.map(vp => '<td>' + stepBadge(m.selections[vp]) + '</td>').join('') + '<td>' + m.event_ids.length + ' 回</td></tr>';
     }
-    window.print();
-  } catch(e) {
-    alert('印刷が利用できませんでした。PCブラウザでお試しください。');
+    html += '</table></div>';
   }
+  html += '<h3 style="font-size:14px;color:#555;margin:20px 0 8px"><i class="fas fa-calendar-check"></i> イベントへの参加</h3>';
+  html += data.events.length ? '<table class="import-table"><tr><th>日付</th><th>イベント</th><th>参加者</th></tr>' + data.events.map(ev => {
+    const who = ev.names.map(esc).join('、');
+    return '<tr><td>' + esc(ev.event_date) + '</td><td>' + esc(ev.title) + '</td><td>' + ev.attended + ' 名（' + who + '）</td></tr>';
+  }).join('') + '</table>' : '<div class="lockout-meta">参加記録はありません</div>';
+  html += '<div style="text-align:center;margin-top:24px"><button class="btn-sm" style="background:#eee;color:#555;padding:8px 24px" id="closeDetailBtn">閉じる</button></div>';
+  openDetail(html, true);
 }
 
-async function logout() {
-  const t = localStorage.getItem('token');
-  if (t) { try { await fetch('/api/auth/logout', { method:'POST', headers:{'Authorization':'Bearer '+t} }); } catch(e){} }
-  localStorage.clear();
-  window.location.href = '/login';
-}
-
-function init() {
-  if (!requireAuth()) return;
+const STEP_COLORS = ['#e0e0e0', '#78909c', '#42a5f5', '#66bb6a', '#ff7043'];
+const STEP_NAMES = ['未選択', 'STEP1', 'STEP2', 'STEP3', 'STEP4'];
 
-  const userName = document.getElementById('userName');
-  if (userName) userName.textContent = user.name + ' さん' + (user.school ? '（' + user.school + '）' : '');
+function toggleAnalytics() {
+  const panel = document.getElementById('analyticsPanel');
+  const show = panel.style.display !== 'block';
+  panel.style.display = show ? 'block' : 'none';
+  if (show) loadAnalytics();
+}
 
-  if (user.role === 'admin') {
-    const adminLink = document.getElementById('adminLink');
-    if (adminLink) adminLink.innerHTML = '<a href="/admin" class="btn-sm btn-admin" style="text-decoration:none"><i class="fas fa-cog"></i> 管理者</a> <a href="/admin/events" class="btn-sm" style="text-decoration:none;background:#ff6f00;color:#fff"><i class="fas fa-calendar-alt"></i> イベント</a>';
-  }
+async function loadAnalytics() {
+  const params = new URLSearchParams();
+  const from = document.getElementById('anFrom').value;
+  const to = document.getElementById('anTo').value;
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const res = await fetch('/api/admin/analytics?' + params.toString(), { headers: authHeaders() });
+  const data = await res.json();
+  if (!res.ok) { alert(data.error || '分析の読み込みに失敗しました'); return; }
+  fillYearSelects(data);
+  document.getElementById('anMemberCount').textContent = data.member_count;
+  document.getElementById('anLegend').innerHTML = [1, 2, 3, 4, 0].map(step =>
+    '<span><i style="background:' + STEP_COLORS[step] + '"></i>' + STEP_NAMES[step] + '</span>').join('');
+  const total = data.member_count;
+  document.getElementById('anDistribution').innerHTML = total ? stackedBars(data.viewpoints.map(vp => ({
+    label: vp.label,
+    parts: [1, 2, 3, 4].map(step => ({ n: vp.steps[step - 1], color: STEP_COLORS[step], name: STEP_NAMES[step] }))
+      .concat([{ n: vp.none, color: STEP_COLORS[0], name: STEP_NAMES[0] }])
+  })), total) : '<div class="lockout-meta">対象の会員がいません</div>';
+  document.getElementById('anHeatmap').innerHTML = heatmapTable('観点', data.viewpoints.map(vp => ({
+    label: vp.label, cells: [vp.none].concat(vp.steps)
+  })));
+  document.getElementById('anSchools').innerHTML = groupTable('学校', data.schools, v => v || '（未設定）');
+  document.getElementById('anYears').innerHTML = groupTable('登録年度', data.years, v => v + '年度');
+  const mv = data.movement;
+  document.getElementById('anMovementSummary').innerHTML = '観点ごとの延べ数：<strong style="color:#2e7d32">上がった ' + mv.up +
+    '</strong> ／ 変わらず ' + mv.same + ' ／ <strong style="color:#c62828">下がった ' + mv.down + '</strong>' +
+    '（行が ' + mv.from_year + ' 年度末、列が ' + mv.to_year + ' 年度末の STEP）';
+  document.getElementById('anMovement').innerHTML = heatmapTable(mv.from_year + '年度末 ＼ ' + mv.to_year + '年度末',
+    mv.matrix.map((row, step) => ({ label: STEP_NAMES[step], cells: row })));
+}
 
-  setupFYSelect();
-  attachMemoListeners();
+function fillYearSelects(data) {
+  const from = document.getElementById('anFrom');
+  const to = document.getElementById('anTo');
+  if (from.options.length) return;
+  let html = '';
+  for (let y = data.fiscal_year; y >= data.fiscal_year - 5; y--) html += '<option value="' + y + '">' + y + '</option>';
+  from.innerHTML = html;
+  to.innerHTML = html;
+  from.value = data.movement.from_year;
+  to.value = data.movement.to_year;
+}
 
-  const btnSave = document.getElementById('btnSave');
-  if (btnSave) btnSave.addEventListener('click', () => saveSelections());
-  const btnPrint = document.getElementById('btnPrint');
-  if (btnPrint) btnPrint.addEventListener('click', () => handlePrint());
+// Horizontal stacked bars as inline SVG; rows are [{label, parts: [{n, color, name}]}]
+function stackedBars(rows, total) {
+  const labelWidth = 150, barWidth = 520, rowHeight = 28;
+  let svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + (labelWidth + barWidth + 10) + '" height="' + (rows.length * rowHeight) + '" font-size="12">';
+  rows.forEach((row, i) => {
+    const y = i * rowHeight;
+    svg += '<text x="0" y="' + (y + 18) + '" fill="#555">' + esc(row.label) + '</text>';
+    let x = labelWidth;
+    for (const part of row.parts) {
+      if (!part.n) continue;
+      const w = part.n / total * barWidth;
+      svg += '<rect x="' + x.toFixed(1) + '" y="' + (y + 4) + '" width="' + w.toFixed(1) + '" height="' + (rowHeight - 8) + '" fill="' + part.color + '">' +
+        '<title>' + esc(row.label + ' ' + part.name + '：' + part.n + '名') + '</title></rect>';
+      if (w >= 24) svg += '<text x="' + (x + w / 2).toFixed(1) + '" y="' + (y + 18) + '" text-anchor="middle" fill="#fff" font-weight="700">' + part.n + '</text>';
+      x += w;
+    }
+  });
+  return svg + '</svg>';
+}
 
-  loadSelections();
-  loadAnnualNotes();
-  loadHistory();
+// Rows are [{label, cells: [none, step1..4]}]; cell shade follows the largest count
+function heatmapTable(corner, rows) {
+  const max = Math.max(1, ...rows.map(row => Math.max(...row.cells)));
+  let html = '<table class="analytics-table"><tr><th>' + esc(corner) + '</th>' + STEP_NAMES.map(n => '<th>' + n + '</th>').join('') + '</tr>';
+  for (const row of rows) {
+    html += '<tr><td class="name">' + esc(row.label) + '</td>' + row.cells.map(n => {
+      const alpha = n / max;
+      return '<td style="background:rgba(26,35,126,' + (alpha * 0.85).toFixed(2) + ');color:' + (alpha > 0.5 ? '#fff' : '#333') + '">' + n + '</td>';
+    }).join('') + '</tr>';
+  }
+  return html + '</table>';
 }
 
-if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', init);
-} else {
-  init();
+function groupTable(title, groups, labelOf) {
+  if (!groups.length) return '<div class="lockout-meta">データがありません</div>';
+  const max = Math.max(...groups.map(g => g.members));
+  let html = '<table class="analytics-table"><tr><th>' + esc(title) + '</th><th>人数</th><th>記入状況</th><th>全項目</th><th>一部</th><th>未記入</th><th>平均STEP</th></tr>';
+  for (const g of groups) {
+    const bar = [[g.complete, '#2e7d32'], [g.partial, '#f57f17'], [g.none, '#bbb']];
+    let x = 0, svg = '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="12">';
+    for (const [n, color] of bar) {
+      const w = n / max * 120;
+      if (w) svg += '<rect x="' + x.toFixed(1) + '" y="0" width="' + w.toFixed(1) + '" height="12" fill="' + color + '"/>';
+      x += w;
+    }
+    html += '<tr><td class="name">' + esc(labelOf(g.value)) + '</td><td>' + g.members + '</td><td>' + svg + '</svg></td><td>' + g.complete + '</td><td>' + g.partial + '</td><td>' + g.none + '</td><td>' + (g.avg_step ?? '-') + '</td></tr>';
+  }
+  return html + '</table>';
 }
+
+// Event delegation for member table
+document.addEventListener('click', function(e) {
+  const btn = e.target.closest('[data-action]');
+  if (!btn) return;
+  const action = btn.dataset.action;
+  const id = parseInt(btn.dataset.id);
+  if (action === 'detail') showDetail(id);
+  else if (action === 'delete') deleteMember(id, btn.dataset.name);
+  else if (action === 'reset') showResetDialog(id);
+  else if (action === 'reset-temporary') resetPassword(id, 'temporary');
+  else if (action === 'reset-link') resetPassword(id, 'link');
+  else if (action === 'logout-all') logoutAllSessions(id, btn.dataset.name);
+  else if (action === 'unlock') unlockLogin(btn.dataset.scope, btn.dataset.key);
+  else if (action === 'restore') restoreMember(id, btn.dataset.name);
+  else if (action === 'purge') purgeMember(id, btn.dataset.name);
+  else if (action === 'approve') approveMember(id);
+  else if (action === 'reject') rejectMember(id, btn.dataset.name);
+  else if (action === 'revoke-invite') revokeInvitation(id);
+  else if (action === 'school-detail') { e.preventDefault(); showSchool(id); }
+  else if (action === 'school-edit') editSchool(id);
+  else if (action === 'school-delete') deleteSchool(id);
+  else if (action === 'school-register') registerSchoolName(btn.dataset.name);
+  else if (action === 'history-add') addSchoolHistory(id);
+  else if (action === 'history-delete') deleteSchoolHistory(id, parseInt(btn.dataset.entry));
+});
+
+document.querySelectorAll('.stat-card[data-status]').forEach(card => card.addEventListener('click', function() {
+  const select = document.getElementById('filterStatus');
+  select.value = select.value === card.dataset.status ? '' : card.dataset.status;
+  loadMembers();
+}));
+
+document.addEventListener('change', function(e) {
+  const select = e.target.closest('[data-role-select]');
+  if (select) changeRole(parseInt(select.dataset.roleSelect), select);
+});
+
+if (user.system_admin) document.getElementById('btnCreateOrg').style.display = '';
+if (can('members.manage')) document.getElementById('btnAddMember').style.display = '';
+if (can('members.manage')) document.getElementById('btnTrash').style.display = '';
+if (can('members.manage')) document.getElementById('btnRegistration').style.display = '';
+if (can('members.manage')) document.getElementById('btnImport').style.display = '';
+if (!can('members.manage')) document.querySelectorAll('.manage-only').forEach(el => { el.style.display = 'none'; });
+document.getElementById('invRole').innerHTML = roleOptions('member');
+fillExportSchool();
+document.getElementById('filterRole').innerHTML += roleOptions('');
+document.getElementById('importRole').innerHTML = roleOptions('member');
+if (can('rubric.manage')) document.getElementById('rubricLink').style.display = '';
+if (can('audit.read')) document.getElementById('auditLink').style.display = '';
+initOrgSwitcher('orgSwitcher');
+loadRubric().then(loadMembers);
+if (can('members.manage')) loadLockouts();
+if (can('members.manage')) loadPending();
+if (can('schema.migrate')) loadMigrations();
 </script>
 </body></html>`)
 })
 
-// --- Admin Dashboard ---
-app.get('/admin', (c) => {
+// --- Admin Rubric Editor ---
+app.get('/admin/rubric', pageAuth({ permission: 'rubric.manage' }), (c) => {
   return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
-<title>管理者ダッシュボード - 社会科同好会</title>
+<title>ルーブリック編集 - 社会科同好会</title>
 <style>
   .top-bar { background: #1a237e; color: #fff; padding: 10px 24px; display: flex; justify-content: space-between; align-items: center; position: sticky; top: 0; z-index: 100; }
   .top-bar .logo { font-family: 'Zen Maru Gothic', sans-serif; font-size: 18px; font-weight: 700; }
-  .top-bar .user-info { display: flex; align-items: center; gap: 12px; font-size: 13px; }
   .btn-sm { padding: 6px 14px; border-radius: 8px; border: none; font-size: 12px; font-weight: 700; cursor: pointer; font-family: inherit; }
-  .btn-back { background: rgba(255,255,255,0.2); color: #fff; }
-  .btn-back:hover { background: rgba(255,255,255,0.3); }
-  .btn-logout { background: rgba(255,255,255,0.15); color: #fff; }
-  .btn-export { background: #2e7d32; color: #fff; padding: 10px 24px; font-size: 14px; border-radius: 10px; }
-  .btn-export:hover { background: #1b5e20; }
-  .btn-danger { background: #c62828; color: #fff; font-size: 11px; padding: 4px 10px; }
-  .btn-danger:hover { background: #b71c1c; }
-  .btn-role { background: #1565c0; color: #fff; font-size: 11px; padding: 4px 10px; }
-  .btn-role:hover { background: #0d47a1; }
-
-  .main { max-width: 1400px; margin: 20px auto; padding: 0 16px; }
-  .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 16px; margin-bottom: 24px; }
-  .stat-card { background: #fff; border-radius: 12px; padding: 20px; box-shadow: 0 2px 10px rgba(0,0,0,0.06); border-left: 4px solid; text-align: center; }
-  .stat-card .num { font-size: 36px; font-weight: 700; font-family: 'Zen Maru Gothic', sans-serif; }
-  .stat-card .label { font-size: 12px; color: #888; margin-top: 4px; }
-  .stat-card.total { border-color: #1a237e; }
-  .stat-card.total .num { color: #1a237e; }
-  .stat-card.active { border-color: #2e7d32; }
-  .stat-card.active .num { color: #2e7d32; }
-  .stat-card.partial { border-color: #f57f17; }
-  .stat-card.partial .num { color: #f57f17; }
-  .stat-card.none { border-color: #bbb; }
-  .stat-card.none .num { color: #bbb; }
-
-  .toolbar { display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px; flex-wrap: wrap; gap: 10px; }
-  .search-box { padding: 8px 14px; border: 2px solid #ddd; border-radius: 8px; font-size: 14px; width: 280px; font-family: inherit; }
-  .search-box:focus { outline: none; border-color: #1a237e; }
-
-  .member-table { width: 100%; border-collapse: collapse; background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.06); font-size: 13px; }
-  .member-table thead th { background: #f5f5f5; padding: 12px 10px; text-align: center; font-weight: 700; color: #555; border-bottom: 2px solid #ddd; white-space: nowrap; }
-  .member-table tbody td { padding: 10px; border-bottom: 1px solid #eee; text-align: center; vertical-align: middle; }
-  .member-table tbody tr:hover { background: #f5f5f5; }
-
-  .step-badge { display: inline-block; padding: 3px 10px; border-radius: 12px; font-size: 11px; font-weight: 700; color: #fff; white-space: nowrap; }
-  .step-1 { background: #78909c; }
-  .step-2 { background: #42a5f5; }
-  .step-3 { background: #66bb6a; }
-  .step-4 { background: #ff7043; }
-  .step-none { background: #e0e0e0; color: #999; }
-
-  .role-badge { display: inline-block; padding: 2px 8px; border-radius: 8px; font-size: 10px; font-weight: 700; }
-  .role-admin { background: #e3f2fd; color: #1565c0; }
-  .role-member { background: #f5f5f5; color: #888; }
-
-  .member-name { font-weight: 700; text-align: left !important; }
-
-  .detail-modal { display: none; position: fixed; inset: 0; background: rgba(0,0,0,0.5); z-index: 200; align-items: center; justify-content: center; }
-  .detail-modal.show { display: flex; }
-  .detail-content { background: #fff; border-radius: 16px; padding: 32px; max-width: 600px; width: 90%; max-height: 80vh; overflow-y: auto; }
-  .detail-content h2 { font-family: 'Zen Maru Gothic', sans-serif; color: #1a237e; margin: 0 0 20px; }
-  .detail-item { display: flex; justify-content: space-between; align-items: center; padding: 12px 0; border-bottom: 1px solid #eee; }
-  .detail-item .vp-name { font-weight: 700; color: #555; }
-  .detail-item .memo { font-size: 12px; color: #888; margin-top: 4px; }
+  .btn-back { background: rgba(255,255,255,0.2); color: #fff; text-decoration: none; }
+  .main { max-width: 1100px; margin: 20px auto; padding: 0 16px; }
+  .card { background: #fff; border-radius: 12px; padding: 20px 24px; box-shadow: 0 2px 10px rgba(0,0,0,0.06); margin-bottom: 16px; }
+  .card h3 { font-family: 'Zen Maru Gothic', sans-serif; margin: 0 0 12px; color: #333; }
+  .status-line { font-size: 13px; color: #555; display: flex; gap: 12px; flex-wrap: wrap; align-items: center; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 8px; font-size: 11px; font-weight: 700; }
+  .badge-draft { background: #fff3e0; color: #e65100; }
+  .badge-pub { background: #e8f5e9; color: #2e7d32; }
+  input[type="text"], textarea, select { padding: 6px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: inherit; }
+  input[type="text"]:focus, textarea:focus, select:focus { outline: none; border-color: #1a237e; }
+  textarea { width: 100%; resize: vertical; }
+  .row { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; flex-wrap: wrap; }
+  .row .grow { flex: 1; min-width: 140px; }
+  .icon-btn { background: #f5f5f5; border: none; border-radius: 6px; padding: 5px 8px; cursor: pointer; color: #555; }
+  .icon-btn:hover { background: #e0e0e0; }
+  .icon-btn.danger { color: #c62828; }
+  .vp-card { border: 1px solid #eee; border-radius: 10px; padding: 12px; margin-bottom: 12px; background: #fafafa; }
+  .cells { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 8px; }
+  .cells .cell { background: #fff; border: 1px solid #eee; border-radius: 8px; padding: 8px; }
+  .cells .cell .lbl { font-size: 11px; font-weight: 700; color: #d84315; margin-bottom: 4px; }
+  .cells input { width: 100%; margin-bottom: 4px; }
+  .btn-add { background: #f5f5f5; color: #555; border: 2px dashed #ccc; padding: 8px 16px; border-radius: 8px; cursor: pointer; font-size: 13px; font-family: inherit; width: 100%; }
+  .btn-main { background: #1a237e; color: #fff; padding: 10px 22px; border: none; border-radius: 10px; font-size: 14px; font-weight: 700; cursor: pointer; font-family: inherit; }
+  .btn-pub { background: #2e7d32; }
+  .btn-discard { background: #eee; color: #666; }
+  .hint { font-size: 12px; color: #888; margin-bottom: 10px; }
+  .versions { width: 100%; border-collapse: collapse; font-size: 13px; }
+  .versions th, .versions td { padding: 8px; border-bottom: 1px solid #eee; text-align: left; }
+  .actions-bar { position: sticky; bottom: 0; background: #fff; border-top: 2px solid #eee; padding: 12px 16px; display: flex; gap: 8px; justify-content: flex-end; flex-wrap: wrap; align-items: center; }
+  .msg { font-size: 13px; margin-right: auto; }
+  @media (max-width: 768px) { .cells { grid-template-columns: 1fr 1fr; } }
 </style>
 </head><body>
 <div class="top-bar">
-  <div class="logo"><i class="fas fa-shield-alt"></i> 管理者ダッシュボード</div>
-  <div class="user-info">
-    <a href="/mypage" class="btn-sm btn-back" style="text-decoration:none"><i class="fas fa-map"></i> マイページ</a>
-    <a href="/admin/events" class="btn-sm" style="text-decoration:none;background:rgba(255,255,255,0.2);color:#fff"><i class="fas fa-calendar-alt"></i> イベント</a>
-    <button class="btn-sm btn-logout" onclick="logout()"><i class="fas fa-sign-out-alt"></i> ログアウト</button>
+  <div class="logo"><i class="fas fa-table"></i> ルーブリック編集</div>
+  <div style="display:flex;gap:8px">
+    <a href="/admin" class="btn-sm btn-back"><i class="fas fa-arrow-left"></i> ダッシュボード</a>
   </div>
 </div>
-
 <div class="main">
-  <div class="stats">
-    <div class="stat-card total"><div class="num" id="totalCount">-</div><div class="label">総会員数</div></div>
-    <div class="stat-card active"><div class="num" id="completeCount">-</div><div class="label">全項目記入済み</div></div>
-    <div class="stat-card partial"><div class="num" id="partialCount">-</div><div class="label">一部記入</div></div>
-    <div class="stat-card none"><div class="num" id="noneCount">-</div><div class="label">未記入</div></div>
+  <div class="card">
+    <div class="status-line" id="statusLine">読み込み中...</div>
+    <div class="row" style="margin-top:10px">
+      <input type="text" id="note" class="grow" placeholder="改訂メモ（例：2027年度版 文言見直し）">
+    </div>
   </div>
 
-  <div class="toolbar">
-    <input type="text" class="search-box" id="searchBox" placeholder="🔍 名前・メールで検索..." oninput="filterMembers()">
-    <div style="display:flex;gap:8px">
-      <button class="btn-sm btn-export" onclick="exportCSV()"><i class="fas fa-file-excel"></i> Excel (CSV) ダウンロード</button>
-    </div>
+  <div class="card">
+    <h3><i class="fas fa-layer-group"></i> カテゴリ</h3>
+    <div class="hint">「・」で区切ると、表の縦書きラベルがそこで改行されます。</div>
+    <div id="categories"></div>
+    <button class="btn-add" data-action="add-cat"><i class="fas fa-plus"></i> カテゴリを追加</button>
+  </div>
 
-</div>
+  <div class="card">
+    <h3><i class="fas fa-shoe-prints"></i> ステップとおすすめアクション</h3>
+    <div class="hint">アクションは1行に1つ。<b>**太字**</b> や <b>[[強調語]]</b> の書き方が使えます。</div>
+    <div id="steps"></div>
   </div>
 
-  <table class="member-table">
-    <thead><tr>
-      <th style="width:30px">#</th>
-      <th style="width:140px">名前</th>
-      <th style="width:100px">役割</th>
-      <th>授業をつくる</th>
-      <th>授業をする</th>
-      <th>子供を見る</th>
-      <th>つながる</th>
-      <th>深める</th>
-      <th style="width:130px">操作</th>
-    </tr></thead>
-    <tbody id="memberBody"></tbody>
-  </table>
-</div>
+  <div class="card">
+    <h3><i class="fas fa-eye"></i> 成長の視点</h3>
+    <div class="hint">既存の視点のキーは変わらないため、名前を変えても会員の選択はそのまま引き継がれます。</div>
+    <div id="viewpoints"></div>
+    <button class="btn-add" data-action="add-vp"><i class="fas fa-plus"></i> 視点を追加</button>
+  </div>
 
-<div class="detail-modal" id="detailModal" onclick="if(event.target===this)this.classList.remove('show')">
-  <div class="detail-content" id="detailContent"></div>
+  <div class="card">
+    <h3><i class="fas fa-history"></i> 版の履歴</h3>
+    <table class="versions"><thead><tr><th>版</th><th>状態</th><th>メモ</th><th>公開日</th><th>選択数</th><th></th></tr></thead><tbody id="versionList"></tbody></table>
+  </div>
+</div>
+<div class="actions-bar">
+  <span class="msg" id="msg"></span>
+  <button class="btn-main btn-discard" data-action="discard"><i class="fas fa-undo"></i> 下書きを破棄</button>
+  <button class="btn-main" data-action="save"><i class="fas fa-save"></i> 下書き保存</button>
+  <button class="btn-main btn-pub" data-action="publish"><i class="fas fa-bullhorn"></i> 新しい版として公開</button>
 </div>
-
 <script>
-const token = localStorage.getItem('token');
-const user = JSON.parse(localStorage.getItem('user') || 'null');
-if (!token || !user || user.role !== 'admin') { window.location.href = '/login'; throw new Error('redirect'); }
+${authClientScript}
 
-let allMembers = [];
-const vpKeys = ['lesson_plan','lesson_practice','student_eval','connection','research'];
-const vpLabels = { lesson_plan:'授業をつくる', lesson_practice:'授業をする', student_eval:'子供を見る', connection:'つながる', research:'深める' };
-const stepLabels = { 1:'STEP1', 2:'STEP2', 3:'STEP3', 4:'STEP4' };
+let state = null;
 
-function stepBadge(sel) {
-  if (!sel) return '<span class="step-badge step-none">未選択</span>';
-  return '<span class="step-badge step-'+sel.step+'">STEP'+sel.step+'</span>';
+function esc(s) {
+  return (s ?? '').toString().replace(/[&<>"']/g, (ch) => ({
+    '&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;', "'":'&#39;'
+  }[ch]));
 }
 
-function renderMembers(members) {
-  const body = document.getElementById('memberBody');
-  body.innerHTML = members.map((m, i) => {
-    const roleBadge = m.role === 'admin'
-      ? '<span class="role-badge role-admin">管理者</span>'
-      : '<span class="role-badge role-member">会員</span>';
-    return '<tr>' +
-      '<td>'+(i+1)+'</td>' +
-      '<td class="member-name" style="cursor:pointer" data-action="detail" data-id="'+m.id+'">' + m.name + '</td>' +
-      '<td>' + roleBadge + '</td>' +
-      vpKeys.map(vp => '<td>' + stepBadge(m.selections[vp]) + '</td>').join('') +
-      '<td>' +
-        (m.role !== 'admin' ? '<button class="btn-sm btn-role" data-action="role" data-id="'+m.id+'" data-role="'+m.role+'"><i class="fas fa-user-shield"></i></button> ' : '') +
-        (m.id !== user.id ? '<button class="btn-sm btn-danger" data-action="delete" data-id="'+m.id+'" data-name="'+m.name+'"><i class="fas fa-trash"></i></button>' : '') +
-      '</td>' +
-    '</tr>';
-  }).join('');
+function showMsg(text, ok) {
+  const el = document.getElementById('msg');
+  el.textContent = text;
+  el.style.color = ok ? '#2e7d32' : '#c62828';
 }
 
-function updateStats(members) {
-  const total = members.filter(m => m.role !== 'admin').length;
-  let complete = 0, partial = 0, none = 0;
-  members.filter(m => m.role !== 'admin').forEach(m => {
-    const count = vpKeys.filter(vp => m.selections[vp]).length;
-    if (count === 5) complete++;
-    else if (count > 0) partial++;
-    else none++;
+function newKey(prefix) {
+  return prefix + Date.now().toString(36) + Math.floor(Math.random() * 1000).toString(36);
+}
+
+function render() {
+  document.getElementById('categories').innerHTML = state.categories.map((cat, i) =>
+    '<div class="row cat-row">'
+    + '<input type="text" class="cat-label grow" value="' + esc(cat.label) + '" placeholder="カテゴリ名">'
+    + '<input type="color" class="cat-color" value="' + esc(cat.color || '#8d6e63') + '">'
+    + '<button class="icon-btn" data-action="cat-up" data-i="' + i + '" title="上へ"><i class="fas fa-arrow-up"></i></button>'
+    + '<button class="icon-btn" data-action="cat-down" data-i="' + i + '" title="下へ"><i class="fas fa-arrow-down"></i></button>'
+    + '<button class="icon-btn danger" data-action="cat-del" data-i="' + i + '" title="削除"><i class="fas fa-trash"></i></button>'
+    + '</div>').join('');
+
+  document.getElementById('steps').innerHTML = state.steps.map((st) =>
+    '<div class="row step-row" style="align-items:flex-start">'
+    + '<strong style="width:60px;color:#d84315;padding-top:6px">STEP ' + st.step + '</strong>'
+    + '<input type="text" class="step-icon" value="' + esc(st.icon) + '" style="width:56px" placeholder="絵文字">'
+    + '<input type="text" class="step-title grow" value="' + esc(st.title) + '" placeholder="見出し">'
+    + '<textarea class="step-actions" rows="3" style="flex:2;min-width:220px" placeholder="おすすめアクション（1行に1つ）">' + esc((st.actions || []).join('\\n')) + '</textarea>'
+    + '</div>').join('');
+
+  const catOptions = (sel) => state.categories.map((cat) =>
+    '<option value="' + esc(cat.key) + '"' + (cat.key === sel ? ' selected' : '') + '>' + esc(cat.label) + '</option>').join('');
+  document.getElementById('viewpoints').innerHTML = state.viewpoints.map((vp, i) =>
+    '<div class="vp-card vp-row">'
+    + '<div class="row">'
+    + '<input type="text" class="vp-label" value="' + esc(vp.label) + '" placeholder="視点名" style="width:160px">'
+    + '<input type="text" class="vp-sublabel" value="' + esc(vp.sublabel) + '" placeholder="補足（例：準備・計画）" style="width:160px">'
+    + '<select class="vp-category">' + catOptions(vp.category) + '</select>'
+    + '<span style="font-size:11px;color:#aaa" class="grow">キー: ' + esc(vp.key) + '</span>'
+    + '<button class="icon-btn" data-action="vp-up" data-i="' + i + '" title="上へ"><i class="fas fa-arrow-up"></i></button>'
+    + '<button class="icon-btn" data-action="vp-down" data-i="' + i + '" title="下へ"><i class="fas fa-arrow-down"></i></button>'
+    + '<button class="icon-btn danger" data-action="vp-del" data-i="' + i + '" title="削除"><i class="fas fa-trash"></i></button>'
+    + '</div>'
+    + '<div class="cells">' + vp.cells.map((cell, j) =>
+      '<div class="cell"><div class="lbl">STEP ' + (j + 1) + '</div>'
+      + '<input type="text" class="cell-keyword" value="' + esc(cell.keyword) + '" placeholder="キーワード">'
+      + '<textarea class="cell-text" rows="3" placeholder="説明">' + esc(cell.text) + '</textarea></div>').join('') + '</div>'
+    + '</div>').join('');
+}
+
+// Read the form back into state before any structural change
+function sync() {
+  document.querySelectorAll('.cat-row').forEach((row, i) => {
+    state.categories[i].label = row.querySelector('.cat-label').value.trim();
+    state.categories[i].color = row.querySelector('.cat-color').value;
+  });
+  document.querySelectorAll('.step-row').forEach((row, i) => {
+    state.steps[i].icon = row.querySelector('.step-icon').value.trim();
+    state.steps[i].title = row.querySelector('.step-title').value.trim();
+    state.steps[i].actions = row.querySelector('.step-actions').value.split('\\n').map((a) => a.trim()).filter((a) => a);
+  });
+  document.querySelectorAll('.vp-row').forEach((row, i) => {
+    const vp = state.viewpoints[i];
+    vp.label = row.querySelector('.vp-label').value.trim();
+    vp.sublabel = row.querySelector('.vp-sublabel').value.trim();
+    vp.category = row.querySelector('.vp-category').value;
+    row.querySelectorAll('.cell').forEach((cell, j) => {
+      vp.cells[j] = { keyword: cell.querySelector('.cell-keyword').value.trim(), text: cell.querySelector('.cell-text').value.trim() };
+    });
   });
-  document.getElementById('totalCount').textContent = total;
-  document.getElementById('completeCount').textContent = complete;
-  document.getElementById('partialCount').textContent = partial;
-  document.getElementById('noneCount').textContent = none;
 }
 
-async function loadMembers() {
-  const res = await fetch('/api/admin/members', { headers: { 'Authorization': 'Bearer ' + token } });
-  if (res.status === 401 || res.status === 403) { localStorage.clear(); window.location.href = '/login'; return; }
+function move(list, i, d) {
+  const j = i + d;
+  if (j < 0 || j >= list.length) return;
+  const tmp = list[i]; list[i] = list[j]; list[j] = tmp;
+}
+
+async function api(method, url, body) {
+  const opts = { method: method, headers: authHeaders() };
+  if (body !== undefined) {
+    opts.headers['Content-Type'] = 'application/json';
+    opts.body = JSON.stringify(body);
+  }
+  const res = await fetch(url, opts);
+  if (res.status === 401 || res.status === 403) { localStorage.clear(); window.location.href = '/login'; throw new Error('redirect'); }
   const data = await res.json();
-  allMembers = data.members;
-  renderMembers(allMembers);
-  updateStats(allMembers);
+  if (!res.ok) throw new Error(data.error || 'エラーが発生しました');
+  return data;
 }
 
-function filterMembers() {
-  const q = document.getElementById('searchBox').value.toLowerCase();
-  const filtered = allMembers.filter(m => m.name.toLowerCase().includes(q) || (m.school || '').toLowerCase().includes(q) || m.email.toLowerCase().includes(q));
-  renderMembers(filtered);
+async function loadDraft() {
+  const data = await api('GET', '/api/admin/rubric/draft');
+  state = data.rubric;
+  document.getElementById('note').value = data.note || '';
+  document.getElementById('statusLine').innerHTML = data.draft
+    ? '<span class="badge badge-draft">下書き編集中</span><span>最終保存：' + esc(data.updated_at || '') + '</span>'
+    : '<span class="badge badge-pub">公開中の版を表示中</span><span>編集して「下書き保存」すると新しい下書きになります</span>';
+  render();
 }
 
-function showDetail(id) {
-  const m = allMembers.find(x => x.id === id);
-  if (!m) return;
-  let html = '<h2><i class="fas fa-user"></i> ' + m.name + '</h2>';
-  html += '<p style="color:#888;font-size:13px;margin-bottom:20px">' + (m.school ? ('学校名: ' + m.school + ' | ') : '') + m.email + ' | 登録日: ' + (m.created_at || '-') + '</p>';
-  for (const vp of vpKeys) {
-    const sel = m.selections[vp];
-    html += '<div class="detail-item"><div><div class="vp-name">' + vpLabels[vp] + '</div>';
-    if (sel && sel.memo) html += '<div class="memo">' + sel.memo + '</div>';
-    html += '</div>' + stepBadge(sel) + '</div>';
+async function loadVersions() {
+  const data = await api('GET', '/api/admin/rubric/versions');
+  document.getElementById('versionList').innerHTML = (data.versions || []).map((v) =>
+    '<tr><td>第' + v.version + '版</td>'
+    + '<td>' + (v.status === 'published' ? '<span class="badge badge-pub">公開</span>' : '<span class="badge badge-draft">下書き</span>') + '</td>'
+    + '<td>' + esc(v.note || '') + '</td>'
+    + '<td>' + esc(v.published_at || '-') + '</td>'
+    + '<td>' + (v.selection_count || 0) + '</td>'
+    + '<td>' + (v.status === 'published' ? '<button class="icon-btn" data-action="load-version" data-v="' + v.version + '" title="この版を編集に読み込む"><i class="fas fa-file-import"></i></button>' : '') + '</td></tr>'
+  ).join('');
+}
+
+async function save() {
+  sync();
+  await api('PUT', '/api/admin/rubric/draft', { rubric: state, note: document.getElementById('note').value });
+}
+
+document.addEventListener('click', async function(e) {
+  const btn = e.target.closest('[data-action]');
+  if (!btn || !state) return;
+  const action = btn.dataset.action;
+  const i = parseInt(btn.dataset.i);
+  try {
+    if (action === 'add-cat') { sync(); state.categories.push({ key: newKey('cat_'), label: '', color: '#90a4ae' }); render(); }
+    else if (action === 'cat-up' || action === 'cat-down') { sync(); move(state.categories, i, action === 'cat-up' ? -1 : 1); render(); }
+    else if (action === 'cat-del') {
+      sync();
+      if (state.viewpoints.some((vp) => vp.category === state.categories[i].key)) { showMsg('このカテゴリには視点があるため削除できません', false); return; }
+      state.categories.splice(i, 1); render();
+    }
+    else if (action === 'add-vp') {
+      sync();
+      state.viewpoints.push({ key: newKey('vp_'), label: '', sublabel: '', category: state.categories[0] ? state.categories[0].key : '', cells: state.steps.map(() => ({ keyword: '', text: '' })) });
+      render();
+    }
+    else if (action === 'vp-up' || action === 'vp-down') { sync(); move(state.viewpoints, i, action === 'vp-up' ? -1 : 1); render(); }
+    else if (action === 'vp-del') {
+      sync();
+      if (!confirm('「' + (state.viewpoints[i].label || '無題') + '」を削除しますか？（これまでの選択は前の版に残ります）')) return;
+      state.viewpoints.splice(i, 1); render();
+    }
+    else if (action === 'load-version') {
+      const data = await api('GET', '/api/rubric?version=' + btn.dataset.v);
+      state = data.rubric; render();
+      showMsg('第' + btn.dataset.v + '版を読み込みました。保存すると下書きになります', true);
+    }
+    else if (action === 'save') { await save(); showMsg('下書きを保存しました', true); loadDraft(); loadVersions(); }
+    else if (action === 'publish') {
+      if (!confirm('下書きを新しい版として公開しますか？会員のマイページに反映されます。')) return;
+      await save();
+      const data = await api('POST', '/api/admin/rubric/publish');
+      showMsg('第' + data.version + '版を公開しました', true);
+      loadDraft(); loadVersions();
+    }
+    else if (action === 'discard') {
+      if (!confirm('下書きを破棄しますか？')) return;
+      await api('DELETE', '/api/admin/rubric/draft');
+      showMsg('下書きを破棄しました', true);
+      loadDraft(); loadVersions();
+    }
+  } catch(err) {
+    if (err.message !== 'redirect') showMsg(err.message, false);
   }
-  html += '<div style="text-align:center;margin-top:24px"><button class="btn-sm" style="background:#eee;color:#555;padding:8px 24px" id="closeDetailBtn">閉じる</button></div>';
-  document.getElementById('detailContent').innerHTML = html;
-  document.getElementById('closeDetailBtn').addEventListener('click', function() { document.getElementById('detailModal').classList.remove('show'); });
-  document.getElementById('detailModal').classList.add('show');
+});
+
+loadDraft().then(loadVersions).catch((err) => showMsg(err.message, false));
+</script>
+</body></html>`)
+})
+
+// --- Admin Audit Log ---
+app.get('/admin/audit', pageAuth({ permission: 'audit.read' }), (c) => {
+  return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
+<title>操作履歴 - 社会科同好会</title>
+<style>
+  .top-bar { background: #1a237e; color: #fff; padding: 10px 24px; display: flex; justify-content: space-between; align-items: center; position: sticky; top: 0; z-index: 100; }
+  .top-bar .logo { font-family: 'Zen Maru Gothic', sans-serif; font-size: 18px; font-weight: 700; }
+  .btn-sm { padding: 6px 14px; border-radius: 8px; border: none; font-size: 12px; font-weight: 700; cursor: pointer; font-family: inherit; }
+  .btn-back { background: rgba(255,255,255,0.2); color: #fff; text-decoration: none; }
+  .btn-export { background: #2e7d32; color: #fff; padding: 8px 18px; font-size: 13px; }
+  .btn-page { background: #eee; color: #555; }
+  .btn-page:disabled { opacity: 0.4; cursor: default; }
+  .main { max-width: 1200px; margin: 20px auto; padding: 0 16px; }
+  .card { background: #fff; border-radius: 12px; padding: 20px 24px; box-shadow: 0 2px 10px rgba(0,0,0,0.06); margin-bottom: 16px; }
+  .filters { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; }
+  .filters input, .filters select { padding: 6px 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 13px; font-family: inherit; }
+  .audit-table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  .audit-table th, .audit-table td { padding: 8px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; }
+  .audit-table th { background: #f5f5f5; font-size: 12px; color: #666; }
+  .audit-table .when { white-space: nowrap; color: #777; }
+  .action-badge { display: inline-block; padding: 2px 8px; border-radius: 8px; font-size: 11px; font-weight: 700; background: #e3f2fd; color: #1565c0; }
+  .action-badge.danger { background: #ffebee; color: #c62828; }
+  .change { font-family: monospace; font-size: 11px; color: #555; word-break: break-all; }
+  .change .before { color: #c62828; }
+  .change .after { color: #2e7d32; }
+  .pager { display: flex; gap: 8px; align-items: center; justify-content: flex-end; margin-top: 12px; font-size: 13px; color: #666; }
+</style>
+</head><body>
+<div class="top-bar">
+  <div class="logo"><i class="fas fa-history"></i> 操作履歴</div>
+  <div style="display:flex;gap:8px">
+    <a href="/admin" class="btn-sm btn-back"><i class="fas fa-arrow-left"></i> ダッシュボード</a>
+  </div>
+</div>
+<div class="main">
+  <div class="card">
+    <form class="filters" id="filterForm">
+      <select id="fAction"><option value="">すべての操作</option></select>
+      <input type="text" id="fQuery" placeholder="実行者・対象の名前">
+      <input type="date" id="fFrom"> 〜 <input type="date" id="fTo">
+      <button type="submit" class="btn-sm" style="background:#1a237e;color:#fff"><i class="fas fa-search"></i> 絞り込み</button>
+      <button type="button" class="btn-sm btn-export" id="btnExport" style="margin-left:auto"><i class="fas fa-file-excel"></i> CSV ダウンロード</button>
+    </form>
+  </div>
+  <div class="card">
+    <table class="audit-table">
+      <thead><tr><th style="width:150px">日時</th><th style="width:120px">実行者</th><th style="width:170px">操作</th><th>対象</th><th>変更内容</th></tr></thead>
+      <tbody id="auditBody"><tr><td colspan="5" style="text-align:center;color:#888">読み込み中...</td></tr></tbody>
+    </table>
+    <div class="pager">
+      <span id="pageInfo"></span>
+      <button class="btn-sm btn-page" id="btnPrev"><i class="fas fa-chevron-left"></i> 前へ</button>
+      <button class="btn-sm btn-page" id="btnNext">次へ <i class="fas fa-chevron-right"></i></button>
+    </div>
+  </div>
+</div>
+<script>
+${authClientScript}
+const actionLabels = ${scriptJson(AUDIT_ACTION_LABELS)};
+let page = 1;
+
+function esc(s) {
+  return (s ?? '').toString().replace(/[&<>"']/g, (ch) => ({
+    '&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;', "'":'&#39;'
+  }[ch]));
 }
 
-async function toggleRole(id, currentRole) {
-  const newRole = currentRole === 'admin' ? 'member' : 'admin';
-  const label = newRole === 'admin' ? '管理者に変更' : '会員に変更';
-  if (!confirm(label + 'しますか？')) return;
-  await fetch('/api/admin/members/'+id+'/role', {
-    method: 'PUT',
-    headers: { 'Authorization': 'Bearer ' + token, 'Content-Type': 'application/json' },
-    body: JSON.stringify({ role: newRole })
-  });
-  loadMembers();
+function filterQuery() {
+  const p = new URLSearchParams();
+  const action = document.getElementById('fAction').value;
+  const q = document.getElementById('fQuery').value.trim();
+  const from = document.getElementById('fFrom').value;
+  const to = document.getElementById('fTo').value;
+  if (action) p.set('action', action);
+  if (q) p.set('q', q);
+  if (from) p.set('from', from);
+  if (to) p.set('to', to);
+  return p;
 }
 
-async function deleteMember(id, name) {
-  if (!confirm(name + ' さんを削除しますか？この操作は取り消せません。')) return;
-  await fetch('/api/admin/members/'+id, {
-    method: 'DELETE',
-    headers: { 'Authorization': 'Bearer ' + token }
-  });
-  loadMembers();
+function describeChange(e) {
+  const parts = [];
+  if (e.before) parts.push('<div class="before">- ' + esc(JSON.stringify(e.before)) + '</div>');
+  if (e.after) parts.push('<div class="after">+ ' + esc(JSON.stringify(e.after)) + '</div>');
+  return '<div class="change">' + parts.join('') + '</div>';
 }
 
-async function exportCSV() {
-  const res = await fetch('/api/admin/export', { headers: { 'Authorization': 'Bearer ' + token } });
+async function loadAudit() {
+  const p = filterQuery();
+  p.set('page', page);
+  const res = await fetch('/api/admin/audit?' + p.toString(), { headers: authHeaders() });
+  if (res.status === 401 || res.status === 403) { window.location.href = '/login'; return; }
+  const data = await res.json();
+  const body = document.getElementById('auditBody');
+  if (!data.entries.length) {
+    body.innerHTML = '<tr><td colspan="5" style="text-align:center;color:#888">該当する操作はありません</td></tr>';
+  } else {
+    body.innerHTML = data.entries.map(e => {
+      const danger = e.action.indexOf('delete') >= 0 || e.action.indexOf('discard') >= 0;
+      return '<tr>' +
+        '<td class="when">' + esc(new Date(e.created_at.replace(' ', 'T') + 'Z').toLocaleString('ja-JP')) + '</td>' +
+        '<td>' + esc(e.actor_name || '（セットアップトークン）') + '</td>' +
+        '<td><span class="action-badge' + (danger ? ' danger' : '') + '">' + esc(actionLabels[e.action] || e.action) + '</span></td>' +
+        '<td>' + esc(e.target_label) + (e.target_id ? ' <span style="color:#aaa">#' + esc(e.target_id) + '</span>' : '') + '</td>' +
+        '<td>' + describeChange(e) + '</td>' +
+      '</tr>';
+    }).join('');
+  }
+  const pages = Math.max(1, Math.ceil(data.total / data.per_page));
+  document.getElementById('pageInfo').textContent = data.total + ' 件中 ' + page + ' / ' + pages + ' ページ';
+  document.getElementById('btnPrev').disabled = page <= 1;
+  document.getElementById('btnNext').disabled = page >= pages;
+}
+
+async function exportAudit() {
+  const res = await fetch('/api/admin/audit/export?' + filterQuery().toString(), { headers: authHeaders() });
   if (!res.ok) { alert('エクスポートに失敗しました'); return; }
   const blob = await res.blob();
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = 'shakaika_members_export.csv';
+  a.download = 'shakaika_audit_log.csv';
   a.click();
   URL.revokeObjectURL(url);
 }
 
-async function logout() {
-  const t = localStorage.getItem('token');
-  if (t) { try { await fetch('/api/auth/logout', { method:'POST', headers:{'Authorization':'Bearer '+t} }); } catch(e){} }
-  localStorage.clear(); window.location.href = '/login';
+const actionSelect = document.getElementById('fAction');
+for (const key of Object.keys(actionLabels)) {
+  const opt = document.createElement('option');
+  opt.value = key;
+  opt.textContent = actionLabels[key];
+  actionSelect.appendChild(opt);
 }
-
-// Event delegation for member table
-document.addEventListener('click', function(e) {
-  const btn = e.target.closest('[data-action]');
-  if (!btn) return;
-  const action = btn.dataset.action;
-  const id = parseInt(btn.dataset.id);
-  if (action === 'detail') showDetail(id);
-  else if (action === 'role') toggleRole(id, btn.dataset.role);
-  else if (action === 'delete') deleteMember(id, btn.dataset.name);
-});
-
-loadMembers();
+document.getElementById('filterForm').addEventListener('submit', function(e) { e.preventDefault(); page = 1; loadAudit(); });
+document.getElementById('btnPrev').addEventListener('click', function() { page--; loadAudit(); });
+document.getElementById('btnNext').addEventListener('click', function() { page++; loadAudit(); });
+document.getElementById('btnExport').addEventListener('click', exportAudit);
+loadAudit();
 </script>
 </body></html>`)
 })
 
 // --- QR Attend Page (scanned by member) ---
-app.get('/attend/:code', (c) => {
+app.get('/attend/:code', pageAuth(), (c) => {
   const code = c.req.param('code')
   return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
 <title>出席・アンケート - 社会科同好会</title>
@@ -1743,22 +6951,18 @@ app.get('/attend/:code', (c) => {
 </div>
 <script>
 const CODE = '${code}';
-const token = localStorage.getItem('token');
-const user = JSON.parse(localStorage.getItem('user') || 'null');
-if (!token || !user) {
-  document.getElementById('loading').style.display='none';
-  document.getElementById('loginPrompt').style.display='block';
-} else { loadEvent(); }
+${authClientScript}
+loadEvent();
 
 async function loadEvent() {
   try {
-    const res = await fetch('/api/events/'+CODE, { headers:{'Authorization':'Bearer '+token} });
+    const res = await fetch('/api/events/'+CODE, { headers:authHeaders() });
     if (res.status === 401) { localStorage.clear(); document.getElementById('loading').style.display='none'; document.getElementById('loginPrompt').style.display='block'; return; }
     const data = await res.json();
     if (!res.ok) { document.getElementById('loading').innerHTML='<p style="color:#c62828">'+data.error+'</p>'; return; }
     // Auto attend
     if (!data.attendance) {
-      await fetch('/api/events/'+CODE+'/attend', { method:'POST', headers:{'Authorization':'Bearer '+token} });
+      await fetch('/api/events/'+CODE+'/attend', { method:'POST', headers:authHeaders() });
     }
     renderEvent(data);
   } catch(e) { document.getElementById('loading').innerHTML='<p style="color:#c62828">エラーが発生しました</p>'; }
@@ -1834,7 +7038,7 @@ async function submitSurvey() {
   });
   const comment = document.getElementById('comment')?.value || '';
   const res = await fetch('/api/events/'+CODE+'/survey', {
-    method:'POST', headers:{'Authorization':'Bearer '+token,'Content-Type':'application/json'},
+    method:'POST', headers:authHeaders({'Content-Type':'application/json'}),
     body: JSON.stringify({ satisfaction, comment, custom_answers })
   });
   if (res.ok) {
@@ -1846,7 +7050,8 @@ async function submitSurvey() {
 })
 
 // --- Admin Events Page ---
-app.get('/admin/events', (c) => {
+app.get('/admin/events', pageAuth({ permission: 'events.read' }), (c) => {
+  const user = c.get('user')
   return c.html(`<!DOCTYPE html><html lang="ja"><head>${commonHead}
 <title>イベント管理 - 社会科同好会</title>
 <script src="https://cdn.jsdelivr.net/npm/qrcodejs@1.0.0/qrcode.min.js"></script>
@@ -1874,6 +7079,9 @@ app.get('/admin/events', (c) => {
   .badge-att { background: #e3f2fd; color: #1565c0; }
   .badge-sur { background: #f3e5f5; color: #7b1fa2; }
   .actions { display: flex; gap: 6px; flex-wrap: wrap; }
+  .btn-restore { background: #2e7d32; color: #fff; font-size: 11px; padding: 4px 10px; border: none; border-radius: 6px; cursor: pointer; }
+  .trash-card { border: 2px dashed #bdbdbd; box-shadow: none; }
+  .trash-card h3 { color: #555; font-size: 15px; }
   .qr-modal { display: none; position: fixed; inset: 0; background: rgba(0,0,0,0.6); z-index: 200; align-items: center; justify-content: center; }
   .qr-modal.show { display: flex; }
   .qr-content { background: #fff; border-radius: 20px; padding: 36px; text-align: center; max-width: 420px; width: 90%; }
@@ -1898,11 +7106,13 @@ app.get('/admin/events', (c) => {
 <div class="top-bar">
   <div class="logo"><i class="fas fa-calendar-alt"></i> イベント管理</div>
   <div style="display:flex;gap:8px">
-    <a href="/admin" class="btn-sm btn-back"><i class="fas fa-arrow-left"></i> ダッシュボード</a>
+    ${hasPermission(user, 'members.read')
+      ? '<a href="/admin" class="btn-sm btn-back"><i class="fas fa-arrow-left"></i> ダッシュボード</a>'
+      : '<a href="/mypage" class="btn-sm btn-back"><i class="fas fa-arrow-left"></i> マイページ</a>'}
   </div>
 </div>
 <div class="main">
-  <div class="card">
+  <div class="card" id="createCard" style="display:none">
     <h3><i class="fas fa-plus-circle"></i> 新しいイベントを作成</h3>
     <div class="form-row">
       <input type="text" id="evTitle" placeholder="イベント名（例：7月定例会）">
@@ -1920,16 +7130,30 @@ app.get('/admin/events', (c) => {
   </div>
   <div class="card">
     <h3><i class="fas fa-list"></i> イベント一覧</h3>
+    <div style="font-size:12px;color:#888;margin-bottom:8px">CSVの学校名：
+      <select id="exportSchool" style="font-family:inherit;font-size:12px;padding:2px 6px;border:1px solid #ddd;border-radius:6px">
+        <option value="at_time">参加した日の学校</option><option value="current">現在の学校</option>
+      </select>
+    </div>
     <div id="eventList"><p style="color:#888;text-align:center">読み込み中...</p></div>
   </div>
+  <div class="card trash-card" id="trashCard" style="display:none">
+    <h3><i class="fas fa-trash-restore"></i> ゴミ箱（<span id="trashRetention"></span>日後に完全に削除されます）</h3>
+    <div id="trashList"></div>
+  </div>
 </div>
 <div class="qr-modal" id="qrModal" onclick="if(event.target===this)this.classList.remove('show')">
   <div class="qr-content" id="qrContent"></div>
 </div>
 <script>
-const token = localStorage.getItem('token');
-const user = JSON.parse(localStorage.getItem('user')||'null');
-if (!token||!user||user.role!=='admin') { window.location.href='/login'; throw new Error('redirect'); }
+${authClientScript}
+const canManage = ${scriptJson(hasPermission(user, 'events.manage'))};
+
+function esc(s) {
+  return (s ?? '').toString().replace(/[&<>"']/g, (ch) => ({
+    '&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;', "'":'&#39;'
+  }[ch]));
+}
 
 let qCount = 0;
 function addQuestion() {
@@ -1958,7 +7182,7 @@ async function createEvent() {
     if (text) custom_questions.push({ question_text: text, question_type: type, options: opts });
   });
   const res = await fetch('/api/admin/events', {
-    method:'POST', headers:{'Authorization':'Bearer '+token,'Content-Type':'application/json'},
+    method:'POST', headers:authHeaders({'Content-Type':'application/json'}),
     body: JSON.stringify({ title, event_date, description, custom_questions })
   });
   if (res.ok) { document.getElementById('evTitle').value=''; document.getElementById('evDate').value=''; document.getElementById('evDesc').value=''; document.getElementById('customQuestions').innerHTML=''; loadEvents(); }
@@ -1968,14 +7192,14 @@ async function createEvent() {
 let eventsData = [];
 
 async function loadEvents() {
-  const res = await fetch('/api/admin/events', { headers:{'Authorization':'Bearer '+token} });
+  const res = await fetch('/api/admin/events', { headers:authHeaders() });
   if (res.status === 401 || res.status === 403) { localStorage.clear(); window.location.href='/login'; return; }
   const data = await res.json();
   eventsData = data.events || [];
   const list = document.getElementById('eventList');
   if (!eventsData.length) { list.innerHTML='<p style="color:#888;text-align:center">まだイベントがありません</p>'; return; }
   list.innerHTML = eventsData.map(function(ev) {
-    return '<div class="event-item"><div class="event-info"><div class="title">'+ev.title+'</div><div class="meta"><i class="fas fa-calendar"></i> '+ev.event_date+' &nbsp; <span class="badge badge-att"><i class="fas fa-users"></i> 出席 '+ev.attendance_count+'</span> <span class="badge badge-sur"><i class="fas fa-clipboard"></i> 回答 '+ev.survey_count+'</span></div></div><div class="actions"><button class="btn-qr" data-action="qr" data-id="'+ev.id+'"><i class="fas fa-qrcode"></i> QR</button><button class="btn-export2" data-action="export" data-id="'+ev.id+'"><i class="fas fa-download"></i> CSV</button><button class="btn-danger" data-action="delete-ev" data-id="'+ev.id+'" data-title="'+ev.title.replace(/"/g,'&quot;')+'"><i class="fas fa-trash"></i></button></div></div>';
+    return '<div class="event-item"><div class="event-info"><div class="title">'+esc(ev.title)+'</div><div class="meta"><i class="fas fa-calendar"></i> '+esc(ev.event_date)+' &nbsp; <span class="badge badge-att"><i class="fas fa-users"></i> 出席 '+ev.attendance_count+'</span> <span class="badge badge-sur"><i class="fas fa-clipboard"></i> 回答 '+ev.survey_count+'</span></div></div><div class="actions"><button class="btn-qr" data-action="qr" data-id="'+ev.id+'"><i class="fas fa-qrcode"></i> QR</button><button class="btn-export2" data-action="export" data-id="'+ev.id+'"><i class="fas fa-download"></i> CSV</button>'+(canManage ? '<button class="btn-danger" data-action="delete-ev" data-id="'+ev.id+'" data-title="'+esc(ev.title)+'"><i class="fas fa-trash"></i></button>' : '')+'</div></div>';
   }).join('');
 }
 
@@ -1984,7 +7208,7 @@ function showQR(eventId) {
   if (!ev) return;
   const url = location.origin + '/attend/' + ev.event_code;
   const cont = document.getElementById('qrContent');
-  cont.innerHTML = '<h3>'+ev.title+'</h3><div class="date">'+ev.event_date+'</div><div id="qrCanvas" style="display:inline-block"></div><div class="code-text">'+ev.event_code+'</div><div class="url-text">'+url+'</div><div style="margin-top:16px"><button class="btn-sm" style="background:#1a237e;color:#fff;padding:8px 20px" onclick="window.print()"><i class="fas fa-print"></i> 印刷</button> <button class="btn-sm" id="closeQrBtn" style="background:#eee;color:#555;padding:8px 20px">閉じる</button></div>';
+  cont.innerHTML = '<h3>'+esc(ev.title)+'</h3><div class="date">'+esc(ev.event_date)+'</div><div id="qrCanvas" style="display:inline-block"></div><div class="code-text">'+esc(ev.event_code)+'</div><div class="url-text">'+esc(url)+'</div><div style="margin-top:16px"><button class="btn-sm" style="background:#1a237e;color:#fff;padding:8px 20px" onclick="window.print()"><i class="fas fa-print"></i> 印刷</button> <button class="btn-sm" id="closeQrBtn" style="background:#eee;color:#555;padding:8px 20px">閉じる</button></div>';
   document.getElementById('qrModal').classList.add('show');
   document.getElementById('closeQrBtn').addEventListener('click', function() { document.getElementById('qrModal').classList.remove('show'); });
   setTimeout(function() {
@@ -1999,7 +7223,7 @@ function showQR(eventId) {
 }
 
 async function exportEvent(id) {
-  const res = await fetch('/api/admin/events/'+id+'/export', { headers:{'Authorization':'Bearer '+token} });
+  const res = await fetch('/api/admin/events/'+id+'/export?school='+document.getElementById('exportSchool').value, { headers:authHeaders() });
   if (!res.ok) { alert('エクスポート失敗'); return; }
   const blob = await res.blob();
   const url = URL.createObjectURL(blob);
@@ -2007,9 +7231,39 @@ async function exportEvent(id) {
 }
 
 async function deleteEvent(id, title) {
-  if (!confirm(title+' を削除しますか？')) return;
-  await fetch('/api/admin/events/'+id, { method:'DELETE', headers:{'Authorization':'Bearer '+token} });
+  if (!confirm(title+' をゴミ箱へ移動しますか？（保存期間内ならゴミ箱から復元できます）')) return;
+  await fetch('/api/admin/events/'+id, { method:'DELETE', headers:authHeaders() });
+  loadEvents();
+  loadTrash();
+}
+
+async function loadTrash() {
+  const res = await fetch('/api/admin/events/trash', { headers:authHeaders() });
+  if (!res.ok) return;
+  const data = await res.json();
+  const items = data.events || [];
+  document.getElementById('trashRetention').textContent = data.retention_days;
+  document.getElementById('trashCard').style.display = items.length ? '' : 'none';
+  document.getElementById('trashList').innerHTML = items.map(function(ev) {
+    const purge = new Date(ev.purge_at.replace(' ', 'T') + 'Z').toLocaleDateString('ja-JP');
+    const title = esc(ev.title);
+    return '<div class="event-item"><div class="event-info"><div class="title">'+title+'</div><div class="meta"><i class="fas fa-calendar"></i> '+esc(ev.event_date)+' &nbsp; '+esc(ev.deleted_by_name || '')+'が削除 ／ '+purge+' に完全削除</div></div><div class="actions"><button class="btn-restore" data-action="restore-ev" data-id="'+ev.id+'" data-title="'+title+'"><i class="fas fa-undo"></i> 復元</button><button class="btn-danger" data-action="purge-ev" data-id="'+ev.id+'" data-title="'+title+'" title="今すぐ完全に削除"><i class="fas fa-times"></i></button></div></div>';
+  }).join('');
+}
+
+async function restoreEvent(id, title) {
+  if (!confirm(title+' を復元しますか？')) return;
+  const res = await fetch('/api/admin/events/'+id+'/restore', { method:'POST', headers:authHeaders() });
+  if (!res.ok) { alert('復元に失敗しました'); return; }
   loadEvents();
+  loadTrash();
+}
+
+async function purgeEvent(id, title) {
+  if (!confirm(title+' の出席・アンケート記録を含めて完全に削除しますか？この操作は取り消せません。')) return;
+  const res = await fetch('/api/admin/events/'+id+'/purge', { method:'DELETE', headers:authHeaders() });
+  if (!res.ok) { alert('削除に失敗しました'); return; }
+  loadTrash();
 }
 
 // Event delegation for event list buttons
@@ -2021,9 +7275,13 @@ document.addEventListener('click', function(e) {
   if (action === 'qr') showQR(id);
   else if (action === 'export') exportEvent(id);
   else if (action === 'delete-ev') deleteEvent(id, btn.dataset.title);
+  else if (action === 'restore-ev') restoreEvent(id, btn.dataset.title);
+  else if (action === 'purge-ev') purgeEvent(id, btn.dataset.title);
 });
 
+if (canManage) document.getElementById('createCard').style.display = '';
 loadEvents();
+if (canManage) loadTrash();
 </script>
 </body></html>`)
 })
@@ -2035,11 +7293,11 @@ app.get('/', (c) => {
 
 // --- Logout API (clean up session from D1) ---
 app.post('/api/auth/logout', async (c) => {
-  const authHeader = c.req.header('Authorization')
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.replace('Bearer ', '')
+  const token = bearerToken(c) || getCookie(c, SESSION_COOKIE)
+  if (token) {
     await c.env.DB.prepare('DELETE FROM sessions WHERE token = ?').bind(token).run()
   }
+  clearSessionCookies(c)
   return c.json({ success: true })
 })
 
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { ADMIN, createTestApp, type SentMail, type TestApp } from './helpers'
+
+let t: TestApp | undefined
+
+afterEach(async () => {
+  await t?.dispose()
+  t = undefined
+})
+
+function forgot(app: TestApp, email: string, ip = '192.0.2.1') {
+  return app.call('/api/auth/forgot', {
+    method: 'POST',
+    headers: { 'CF-Connecting-IP': ip },
+    body: JSON.stringify({ email })
+  })
+}
+
+describe('POST /api/auth/forgot', () => {
+  it('mails a reset link through the configured sender', async () => {
+    const sent: SentMail[] = []
+    t = await createTestApp({ mailSender: { async send(message) { sent.push(message) } } })
+    const res = await forgot(t, ADMIN.email)
+    expect(res.status).toBe(200)
+    expect(sent).toHaveLength(1)
+    expect(sent[0].to).toBe(ADMIN.email)
+    expect(sent[0].text).toMatch(/\/reset-password\?token=[0-9a-f]{64}/)
+  })
+
+  it('finds the account whatever the case of the address', async () => {
+    const sent: SentMail[] = []
+    t = await createTestApp({ mailSender: { async send(message) { sent.push(message) } } })
+    expect((await forgot(t, ADMIN.email.toUpperCase())).status).toBe(200)
+    expect(sent.map((m) => m.to)).toEqual([ADMIN.email])
+  })
+
+  it('refuses instead of pretending to send when no mail provider is configured', async () => {
+    t = await createTestApp()
+    const res = await forgot(t, ADMIN.email)
+    expect(res.status).toBe(503)
+    // The same answer for an unknown address, so the error does not reveal who is registered
+    expect((await forgot(t, 'nobody@test.example')).status).toBe(503)
+  })
+
+  it('throttles repeated requests for one address whether or not it is registered', async () => {
+    const sent: SentMail[] = []
+    t = await createTestApp({ mailSender: { async send(message) { sent.push(message) } } })
+    for (const email of [ADMIN.email, 'nobody@test.example']) {
+      // Three free requests; the fourth still goes out but locks the address
+      for (let i = 0; i < 4; i++) expect((await forgot(t, email)).status).toBe(200)
+      const limited = await forgot(t, email)
+      expect(limited.status).toBe(429)
+      expect(limited.body.error).toMatch(/分後にもう一度お試しください/)
+    }
+    expect(sent).toHaveLength(4)
+    // Login is counted separately and still works
+    await t.login(ADMIN.email, ADMIN.password)
+  })
+})
@@ -0,0 +1,53 @@
+import { Miniflare } from 'miniflare'
+import { expect } from 'vitest'
+import app, { setTestMailSender } from '../src/index'
+
+export const SETUP_TOKEN = 'test-setup-token'
+export const ADMIN = { email: 'admin@test.example', password: 'admin-password' }
+
+export type SentMail = { to: string; subject: string; text: string }
+
+export type TestApp = {
+  env: Record<string, unknown>
+  call(path: string, init?: RequestInit & { token?: string }): Promise<{ status: number; body: any }>
+  login(email: string, password: string): Promise<string>
+  dispose(): Promise<void>
+}
+
+// A fresh local D1 with the first admin already set up. Mail goes to mailSender when given;
+// without it the app behaves as a deployment with no mail provider.
+export async function createTestApp(options: { mailSender?: { send(message: SentMail): Promise<void> } } = {}): Promise<TestApp> {
+  setTestMailSender(options.mailSender ?? null)
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }) } }',
+    d1Databases: ['DB']
+  })
+  const env: Record<string, unknown> = { DB: await mf.getD1Database('DB'), SETUP_TOKEN }
+
+  async function call(path: string, init: RequestInit & { token?: string } = {}) {
+    const headers = new Headers(init.headers)
+    if (init.token) headers.set('Authorization', `Bearer ${init.token}`)
+    if (init.body) headers.set('Content-Type', 'application/json')
+    const res = await app.request(path, { ...init, headers }, env)
+    return { status: res.status, body: await res.json() as any }
+  }
+
+  async function login(email: string, password: string): Promise<string> {
+    const res = await call('/api/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) })
+    expect(res.status).toBe(200)
+    return res.body.token
+  }
+
+  const setup = await call('/api/setup', {
+    method: 'POST',
+    body: JSON.stringify({ setup_token: SETUP_TOKEN, name: '管理者', school: '本部', ...ADMIN })
+  })
+  expect(setup.status).toBe(200)
+  async function dispose() {
+    setTestMailSender(null)
+    await mf.dispose()
+  }
+
+  return { env, call, login, dispose }
+}
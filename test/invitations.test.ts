@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { ADMIN, createTestApp, type TestApp } from './helpers'
+
+let t: TestApp | undefined
+
+afterEach(async () => {
+  await t?.dispose()
+  t = undefined
+})
+
+async function invite(app: TestApp, email: string, role: string): Promise<string> {
+  const token = await app.login(ADMIN.email, ADMIN.password)
+  const res = await app.call('/api/admin/invitations', { method: 'POST', token, body: JSON.stringify({ email, role }) })
+  expect(res.status).toBe(200)
+  return new URL(res.body.url).searchParams.get('invitation')!
+}
+
+function register(app: TestApp, email: string, invitation: string) {
+  return app.call('/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ name: '新会員', school: '本部', email, password: 'member-password', invitation })
+  })
+}
+
+describe('registering with an invitation', () => {
+  it('refuses an address other than the one the invitation was sent to', async () => {
+    t = await createTestApp()
+    const invitation = await invite(t, 'invited@test.example', 'admin')
+    const res = await register(t, 'someone-else@test.example', invitation)
+    expect(res.status).toBe(403)
+    // Nothing was created and the invitation is still open for its owner
+    expect((await t.call('/api/auth/login', {
+      method: 'POST', body: JSON.stringify({ email: 'someone-else@test.example', password: 'member-password' })
+    })).status).toBe(401)
+    const accepted = await register(t, 'Invited@Test.example', invitation)
+    expect(accepted.status).toBe(200)
+    expect(accepted.body.user.role).toBe('admin')
+  })
+})
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { ADMIN, createTestApp, type TestApp } from './helpers'
+
+let t: TestApp | undefined
+
+afterEach(async () => {
+  await t?.dispose()
+  t = undefined
+})
+
+describe('POST /api/auth/login', () => {
+  it('finds the account whatever the case of the address, as the throttle does', async () => {
+    t = await createTestApp()
+    const res = await t.call('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: ` ${ADMIN.email.toUpperCase()} `, password: ADMIN.password })
+    })
+    expect(res.status).toBe(200)
+    expect(res.body.user.email).toBe(ADMIN.email)
+  })
+})
@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ADMIN, createTestApp, type TestApp } from './helpers'
+
+// Selections come back from SQLite as one json_group_object per member, so memos must
+// survive the round trip unchanged whatever separators or characters they contain.
+const MEMOS: Record<string, string> = {
+  lesson_plan: '目標: 単元計画を立てる: 3回',
+  lesson_practice: 'A|B||C | 板書と発問',
+  student_eval: '一行目\n二行目\r\n三行目\n',
+  connection: '🏯🗾 フィールドワーク 👨‍👩‍👧‍👦 a:b|c',
+  research: '"引用" と \\バックスラッシュ\\ と {"json": [1, 2]}'
+}
+
+let t: TestApp
+
+beforeAll(async () => {
+  t = await createTestApp()
+})
+
+afterAll(async () => {
+  await t?.dispose()
+})
+
+describe('selection memos', () => {
+  let memberToken: string
+  let viewpoints: string[]
+
+  beforeAll(async () => {
+    const rubric = await t.call('/api/rubric')
+    viewpoints = rubric.body.rubric.viewpoints.map((vp: any) => vp.key)
+    expect([...viewpoints].sort()).toEqual(Object.keys(MEMOS).sort())
+    const reg = await t.call('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'メモ 太郎', school: 'テスト小', email: 'memo@test.example', password: 'member-password' })
+    })
+    expect(reg.status).toBe(200)
+    memberToken = await t.login('memo@test.example', 'member-password')
+    for (const viewpoint of viewpoints) {
+      const saved = await t.call('/api/selections', {
+        method: 'POST',
+        token: memberToken,
+        body: JSON.stringify({ viewpoint, step: 2, memo: MEMOS[viewpoint] })
+      })
+      expect(saved.status).toBe(200)
+    }
+  })
+
+  it('returns every memo unchanged to the member', async () => {
+    const res = await t.call('/api/selections', { token: memberToken })
+    expect(res.status).toBe(200)
+    const byViewpoint = Object.fromEntries(res.body.selections.map((s: any) => [s.viewpoint, s.memo]))
+    for (const viewpoint of viewpoints) {
+      expect(byViewpoint[viewpoint]).toBe(MEMOS[viewpoint])
+    }
+  })
+
+  it('returns every memo and step unchanged in the aggregated member list', async () => {
+    const adminToken = await t.login(ADMIN.email, ADMIN.password)
+    const res = await t.call('/api/admin/members?q=memo%40test.example', { token: adminToken })
+    expect(res.status).toBe(200)
+    const member = res.body.members.find((m: any) => m.email === 'memo@test.example')
+    expect(member).toBeDefined()
+    expect(Object.keys(member.selections).sort()).toEqual([...viewpoints].sort())
+    for (const viewpoint of viewpoints) {
+      expect(member.selections[viewpoint]).toEqual({ step: 2, memo: MEMOS[viewpoint] })
+    }
+    expect(member.progress).toBe(viewpoints.length)
+  })
+})
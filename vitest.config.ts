@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the Pages build plugins are not loaded for tests
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    testTimeout: 30000
+  }
+})